@@ -10,6 +10,8 @@ import { SidebarProvider, SidebarTrigger, SidebarInset } from "@/components/ui/s
 import { AppSidebar } from "@/components/app-sidebar";
 import { TopNav } from "@/components/top-nav";
 import { AiChat } from "@/components/ai-chat";
+import { AuthProvider, useAuth } from "@/hooks/use-auth";
+import { Loader2 } from "lucide-react";
 
 import Dashboard from "@/pages/dashboard";
 import RfpList from "@/pages/rfp-list";
@@ -21,6 +23,7 @@ import Reviews from "@/pages/reviews";
 import Team from "@/pages/team";
 import Tasks from "@/pages/tasks";
 import NotFound from "@/pages/not-found";
+import AuthPage from "@/pages/auth";
 
 function Router() {
   return (
@@ -39,7 +42,8 @@ function Router() {
   );
 }
 
-function App() {
+function AuthenticatedApp() {
+  const { user, isLoading } = useAuth();
   const [aiChatOpen, setAiChatOpen] = useState(false);
   
   const style = {
@@ -47,28 +51,50 @@ function App() {
     "--sidebar-width-icon": "3rem",
   };
 
+  if (isLoading) {
+    return (
+      <div className="flex h-screen w-full items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <AuthPage />;
+  }
+
+  return (
+    <>
+      <SidebarProvider style={style as React.CSSProperties}>
+        <div className="flex h-screen w-full">
+          <AppSidebar />
+          <SidebarInset className="flex-1 flex flex-col overflow-hidden">
+            <header className="flex h-12 shrink-0 items-center justify-between gap-2 border-b px-4 bg-background">
+              <div className="flex items-center gap-2">
+                <SidebarTrigger data-testid="button-sidebar-toggle" />
+                <TopNav onOpenAiChat={() => setAiChatOpen(true)} />
+              </div>
+              <ThemeToggle />
+            </header>
+            <main className="flex-1 overflow-auto">
+              <Router />
+            </main>
+          </SidebarInset>
+        </div>
+      </SidebarProvider>
+      <AiChat isOpen={aiChatOpen} onClose={() => setAiChatOpen(false)} />
+    </>
+  );
+}
+
+function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <ThemeProvider defaultTheme="light" storageKey="pmcc-theme">
         <TooltipProvider>
-          <SidebarProvider style={style as React.CSSProperties}>
-            <div className="flex h-screen w-full">
-              <AppSidebar />
-              <SidebarInset className="flex-1 flex flex-col overflow-hidden">
-                <header className="flex h-12 shrink-0 items-center justify-between gap-2 border-b px-4 bg-background">
-                  <div className="flex items-center gap-2">
-                    <SidebarTrigger data-testid="button-sidebar-toggle" />
-                    <TopNav onOpenAiChat={() => setAiChatOpen(true)} />
-                  </div>
-                  <ThemeToggle />
-                </header>
-                <main className="flex-1 overflow-auto">
-                  <Router />
-                </main>
-              </SidebarInset>
-            </div>
-          </SidebarProvider>
-          <AiChat isOpen={aiChatOpen} onClose={() => setAiChatOpen(false)} />
+          <AuthProvider>
+            <AuthenticatedApp />
+          </AuthProvider>
           <Toaster />
         </TooltipProvider>
       </ThemeProvider>
@@ -0,0 +1,291 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { FileInput, Loader2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
+import { requirementLabel } from "./questions-panel";
+import type { ImportedAnswer, Requirement, RequirementAction, RfpQuestion } from "@shared/schema";
+
+interface AnswerImportDialogProps {
+  rfpId: number;
+  questions: RfpQuestion[];
+  requirements: Requirement[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface AnswerRow extends ImportedAnswer {
+  include: boolean;
+  action: RequirementAction;
+  amendedText: string;
+}
+
+const actionLabels: Record<RequirementAction, string> = {
+  none: "Leave requirement as is",
+  flag: "Flag for review",
+  amend: "Amend wording",
+};
+
+// Reads the agency's published Q&A, then lets a PM check each match and decide what the
+// answer does to its requirement before anything is saved
+export function AnswerImportDialog({ rfpId, questions, requirements, open, onOpenChange }: AnswerImportDialogProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pasted, setPasted] = useState("");
+  const [rows, setRows] = useState<AnswerRow[] | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setPasted("");
+    setRows(null);
+  }, [open]);
+
+  const toRow = (answer: ImportedAnswer): AnswerRow => ({
+    ...answer,
+    include: true,
+    action: answer.requirementId ? "flag" : "none",
+    amendedText: requirements.find(r => r.id === answer.requirementId)?.text ?? "",
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async (source: File | string) => {
+      let body: FormData | { text: string };
+      if (typeof source === "string") {
+        body = { text: source };
+      } else {
+        body = new FormData();
+        body.append("file", source);
+      }
+      const res = await apiRequest("POST", `/api/rfps/${rfpId}/questions/answers/preview`, body);
+      return res.json() as Promise<{ answers: ImportedAnswer[] }>;
+    },
+    onSuccess: ({ answers }) => {
+      setRows(answers.map(toRow));
+    },
+    onError: (error) => {
+      toast({ title: "Failed to read answers", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const included = (rows || []).filter(row => row.include);
+
+  const applyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/rfps/${rfpId}/questions/answers`, {
+        answers: included.map(row => ({
+          questionId: row.questionId,
+          question: row.question,
+          answer: row.answer,
+          requirementId: row.requirementId,
+          action: row.requirementId ? row.action : "none",
+          amendedText: row.action === "amend" ? row.amendedText.trim() || null : null,
+        })),
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rfps", rfpId.toString(), "questions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/rfps", rfpId.toString(), "requirements"] });
+      onOpenChange(false);
+      toast({ title: `${included.length} answer${included.length === 1 ? "" : "s"} recorded` });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to record answers", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const updateRow = (index: number, changes: Partial<AnswerRow>) => {
+    setRows(prev => (prev || []).map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  // Picking a different question brings its requirement along
+  const changeQuestion = (index: number, value: string) => {
+    const question = value === "new" ? undefined : questions.find(q => q.id === parseInt(value));
+    const requirementId = question?.requirementId ?? null;
+    updateRow(index, {
+      questionId: question?.id ?? null,
+      requirementId,
+      action: requirementId ? "flag" : "none",
+      amendedText: requirements.find(r => r.id === requirementId)?.text ?? "",
+    });
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) previewMutation.mutate(file);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Agency Answers</DialogTitle>
+          <DialogDescription>
+            Upload the published questions and answers (Word, PDF, text or a spreadsheet with Question and Answer
+            columns) or paste them below. Nothing is saved until you confirm.
+          </DialogDescription>
+        </DialogHeader>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".docx,.pdf,.txt,.xlsx,.xls,.csv"
+          onChange={handleFile}
+          className="hidden"
+          data-testid="input-answers-file"
+        />
+
+        {rows === null ? (
+          <div className="space-y-3">
+            <Textarea
+              rows={8}
+              placeholder={"Q1: Is the page limit inclusive of resumes?\nA1: No. Resumes are excluded."}
+              value={pasted}
+              onChange={(e) => setPasted(e.target.value)}
+              data-testid="input-answers-text"
+            />
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={previewMutation.isPending}
+                data-testid="button-upload-answers"
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Upload File
+              </Button>
+              <Button
+                onClick={() => previewMutation.mutate(pasted)}
+                disabled={!pasted.trim() || previewMutation.isPending}
+                data-testid="button-read-answers"
+              >
+                {previewMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileInput className="h-4 w-4 mr-2" />}
+                Read Answers
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <ScrollArea className="max-h-[55vh] pr-3">
+              <div className="space-y-3">
+                {rows.map((row, index) => (
+                  <div key={index} className="rounded-md border p-3 flex items-start gap-3" data-testid={`answer-row-${index}`}>
+                    <Checkbox
+                      checked={row.include}
+                      onCheckedChange={(checked) => updateRow(index, { include: checked === true })}
+                      className="mt-1 shrink-0"
+                      data-testid={`checkbox-answer-${index}`}
+                    />
+                    <div className="flex-1 min-w-0 space-y-2">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        {row.number !== null && <span className="text-xs font-mono text-muted-foreground">Q{row.number}</span>}
+                        {row.questionId !== null ? (
+                          <Badge variant="outline" className="text-xs">{Math.round(row.confidence * 100)}% match</Badge>
+                        ) : (
+                          <Badge variant="secondary" className="text-xs">No matching question</Badge>
+                        )}
+                      </div>
+                      {row.question && <p className="text-sm text-muted-foreground">{row.question}</p>}
+                      <p className="text-sm">{row.answer}</p>
+                      <div className="grid grid-cols-2 gap-2">
+                        <Select value={row.questionId?.toString() ?? "new"} onValueChange={(value) => changeQuestion(index, value)}>
+                          <SelectTrigger className="text-xs" data-testid={`select-answer-question-${index}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent className="max-w-lg">
+                            <SelectItem value="new">Log as a new question</SelectItem>
+                            {questions.map(question => (
+                              <SelectItem key={question.id} value={question.id.toString()}>
+                                #{question.number} {question.question.length > 60 ? `${question.question.slice(0, 60)}...` : question.question}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Select
+                          value={row.requirementId?.toString() ?? "none"}
+                          onValueChange={(value) => {
+                            const requirementId = value === "none" ? null : parseInt(value);
+                            updateRow(index, {
+                              requirementId,
+                              action: requirementId ? row.action === "none" ? "flag" : row.action : "none",
+                              amendedText: requirements.find(r => r.id === requirementId)?.text ?? "",
+                            });
+                          }}
+                        >
+                          <SelectTrigger className="text-xs" data-testid={`select-answer-requirement-${index}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent className="max-w-lg">
+                            <SelectItem value="none">No related requirement</SelectItem>
+                            {requirements.map(requirement => (
+                              <SelectItem key={requirement.id} value={requirement.id.toString()}>
+                                {requirementLabel(requirement)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {row.requirementId !== null && (
+                        <Select value={row.action} onValueChange={(value) => updateRow(index, { action: value as RequirementAction })}>
+                          <SelectTrigger className="text-xs w-56" data-testid={`select-answer-action-${index}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(actionLabels) as RequirementAction[]).map(action => (
+                              <SelectItem key={action} value={action}>{actionLabels[action]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                      {row.requirementId !== null && row.action === "amend" && (
+                        <Textarea
+                          rows={3}
+                          value={row.amendedText}
+                          onChange={(e) => updateRow(index, { amendedText: e.target.value })}
+                          data-testid={`input-answer-amended-${index}`}
+                        />
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+            <div className="flex justify-between gap-2">
+              <Button variant="outline" onClick={() => setRows(null)}>
+                Back
+              </Button>
+              <Button
+                onClick={() => applyMutation.mutate()}
+                disabled={included.length === 0 || applyMutation.isPending}
+                data-testid="button-apply-answers"
+              >
+                {applyMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Record {included.length} answer{included.length === 1 ? "" : "s"}
+              </Button>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
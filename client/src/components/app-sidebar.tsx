@@ -8,6 +8,7 @@ import {
   Settings,
   FolderOpen,
   Library,
+  LogOut,
 } from "lucide-react";
 import {
   Sidebar,
@@ -22,6 +23,8 @@ import {
   SidebarFooter,
 } from "@/components/ui/sidebar";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
 
 const mainNavItems = [
   { title: "Dashboard", url: "/", icon: LayoutDashboard },
@@ -35,8 +38,25 @@ const reviewNavItems = [
   { title: "Team", url: "/team", icon: Users },
 ];
 
+const roleLabels: Record<string, string> = {
+  pm: "Proposal Manager",
+  consultant: "Consultant",
+  copy_editor: "Copy Editor",
+  managing_director: "Managing Director",
+};
+
+function getInitials(name: string): string {
+  return name
+    .split(" ")
+    .map((n) => n[0])
+    .join("")
+    .toUpperCase()
+    .slice(0, 2);
+}
+
 export function AppSidebar() {
   const [location] = useLocation();
+  const { user, logoutMutation } = useAuth();
 
   return (
     <Sidebar>
@@ -98,15 +118,29 @@ export function AppSidebar() {
       <SidebarFooter className="border-t border-sidebar-border p-4">
         <div className="flex items-center gap-3">
           <Avatar className="h-8 w-8">
-            <AvatarFallback className="bg-primary/20 text-primary text-sm">JD</AvatarFallback>
+            <AvatarFallback className="bg-primary/20 text-primary text-sm">
+              {user ? getInitials(user.fullName) : ""}
+            </AvatarFallback>
           </Avatar>
           <div className="flex-1 min-w-0">
-            <p className="text-sm font-medium text-sidebar-foreground truncate">Jane Doe</p>
-            <p className="text-xs text-sidebar-foreground/60">Proposal Manager</p>
+            <p className="text-sm font-medium text-sidebar-foreground truncate" data-testid="text-current-user">
+              {user?.fullName}
+            </p>
+            <p className="text-xs text-sidebar-foreground/60">{user ? roleLabels[user.role] || user.role : ""}</p>
           </div>
           <Link href="/settings">
             <Settings className="h-4 w-4 text-sidebar-foreground/60 hover:text-sidebar-foreground transition-colors" />
           </Link>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => logoutMutation.mutate()}
+            disabled={logoutMutation.isPending}
+            data-testid="button-logout"
+          >
+            <LogOut className="h-4 w-4 text-sidebar-foreground/60" />
+          </Button>
         </div>
       </SidebarFooter>
     </Sidebar>
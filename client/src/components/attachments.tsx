@@ -0,0 +1,274 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { FileUp, Loader2, MoreVertical, Paperclip, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
+import { SUPPORTED_ATTACHMENT_EXTENSIONS } from "@shared/documents";
+import { attachmentRoles, type AttachmentRole, type RfpAttachmentSummary } from "@shared/schema";
+
+export const attachmentRoleLabels: Record<AttachmentRole, string> = {
+  main: "Main",
+  sow: "SOW",
+  pricing: "Pricing",
+  wage_determination: "Wage Determination",
+  forms: "Forms",
+  other: "Other",
+};
+
+interface AttachmentUploadDialogProps {
+  rfpId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onUploaded: (attachment: RfpAttachmentSummary) => void;
+}
+
+// The role is guessed from the file name on the server unless one is picked here
+export function AttachmentUploadDialog({ rfpId, open, onOpenChange, onUploaded }: AttachmentUploadDialogProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [role, setRole] = useState<AttachmentRole | "auto">("auto");
+  const [file, setFile] = useState<File | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setRole("auto");
+    setFile(null);
+  }, [open]);
+
+  const uploadMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("file", file!);
+      if (role !== "auto") formData.append("role", role);
+      const res = await apiRequest("POST", `/api/rfps/${rfpId}/attachments`, formData);
+      return res.json() as Promise<RfpAttachmentSummary>;
+    },
+    onSuccess: (attachment) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rfps", rfpId.toString(), "attachments"] });
+      onOpenChange(false);
+      onUploaded(attachment);
+      toast({
+        title: "Attachment added",
+        description: "Re-analyze the RFP to extract requirements from it.",
+      });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to add attachment", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Add Attachment</DialogTitle>
+          <DialogDescription>
+            Statements of work, pricing templates, wage determinations and forms that come with the solicitation.
+            Their text is analyzed along with the main document.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Role</Label>
+            <Select value={role} onValueChange={(value) => setRole(value as AttachmentRole | "auto")}>
+              <SelectTrigger data-testid="select-attachment-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">Guess from file name</SelectItem>
+                {attachmentRoles.map(r => (
+                  <SelectItem key={r} value={r}>{attachmentRoleLabels[r]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={SUPPORTED_ATTACHMENT_EXTENSIONS.join(",")}
+            onChange={(e) => setFile(e.target.files?.[0] || null)}
+            className="hidden"
+            data-testid="input-attachment-file"
+          />
+          <Button variant="outline" className="w-full" onClick={() => fileInputRef.current?.click()}>
+            <FileUp className="h-4 w-4 mr-2" />
+            {file ? file.name : "Choose file"}
+          </Button>
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => uploadMutation.mutate()}
+            disabled={!file || uploadMutation.isPending}
+            data-testid="button-upload-attachment"
+          >
+            {uploadMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Add
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface AttachmentBarProps {
+  rfpId: number;
+  mainDocumentName: string | null | undefined;
+  attachments: RfpAttachmentSummary[];
+  activeId: number | null;
+  onSelect: (attachmentId: number | null) => void;
+  requirementCounts: Map<number | null, number>;
+  canManage: boolean;
+}
+
+// Switches the viewer between the main document and its attachments
+export function AttachmentBar({
+  rfpId,
+  mainDocumentName,
+  attachments,
+  activeId,
+  onSelect,
+  requirementCounts,
+  canManage,
+}: AttachmentBarProps) {
+  const { toast } = useToast();
+  const [uploadOpen, setUploadOpen] = useState(false);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/rfps", rfpId.toString(), "attachments"] });
+  };
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: number; role: AttachmentRole }) => {
+      const res = await apiRequest("PATCH", `/api/attachments/${id}`, { role });
+      return res.json();
+    },
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast({ title: "Failed to update attachment", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/attachments/${id}`);
+    },
+    onSuccess: (_, id) => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ["/api/rfps", rfpId.toString(), "requirements"] });
+      if (activeId === id) onSelect(null);
+      toast({ title: "Attachment removed" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to remove attachment", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const countBadge = (attachmentId: number | null) => {
+    const count = requirementCounts.get(attachmentId) || 0;
+    return count > 0 ? <Badge variant="secondary" className="ml-2 text-xs">{count}</Badge> : null;
+  };
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap" data-testid="attachment-bar">
+      <Button
+        variant={activeId === null ? "secondary" : "ghost"}
+        size="sm"
+        onClick={() => onSelect(null)}
+        title={mainDocumentName || undefined}
+        data-testid="button-document-main"
+      >
+        {attachmentRoleLabels.main}
+        {countBadge(null)}
+      </Button>
+      {attachments.map(attachment => (
+        <div key={attachment.id} className="flex items-center">
+          <Button
+            variant={activeId === attachment.id ? "secondary" : "ghost"}
+            size="sm"
+            onClick={() => onSelect(attachment.id)}
+            title={attachment.documentName}
+            data-testid={`button-document-attachment-${attachment.id}`}
+          >
+            <Paperclip className="h-3 w-3 mr-1" />
+            <span className="max-w-40 truncate">{attachment.documentName}</span>
+            <Badge variant="outline" className="ml-2 text-xs">
+              {attachmentRoleLabels[attachment.role as AttachmentRole] ?? attachment.role}
+            </Badge>
+            {countBadge(attachment.id)}
+          </Button>
+          {canManage && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" className="px-1" data-testid={`button-attachment-menu-${attachment.id}`}>
+                  <MoreVertical className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Role</DropdownMenuLabel>
+                <DropdownMenuRadioGroup
+                  value={attachment.role}
+                  onValueChange={(role) => roleMutation.mutate({ id: attachment.id, role: role as AttachmentRole })}
+                >
+                  {attachmentRoles.map(role => (
+                    <DropdownMenuRadioItem key={role} value={role}>{attachmentRoleLabels[role]}</DropdownMenuRadioItem>
+                  ))}
+                </DropdownMenuRadioGroup>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem
+                  onClick={() => deleteMutation.mutate(attachment.id)}
+                  className="text-destructive"
+                  data-testid={`menu-delete-attachment-${attachment.id}`}
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Remove
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+        </div>
+      ))}
+      {canManage && (
+        <Button variant="outline" size="sm" onClick={() => setUploadOpen(true)} data-testid="button-add-attachment">
+          <FileUp className="h-4 w-4 mr-2" />
+          Add Attachment
+        </Button>
+      )}
+      <AttachmentUploadDialog
+        rfpId={rfpId}
+        open={uploadOpen}
+        onOpenChange={setUploadOpen}
+        onUploaded={(attachment) => onSelect(attachment.id)}
+      />
+    </div>
+  );
+}
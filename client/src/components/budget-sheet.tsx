@@ -37,7 +37,8 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
 import type { BudgetItem, User } from "@shared/schema";
 
 interface BudgetSheetProps {
@@ -78,6 +79,7 @@ const ROLE_COLORS: Record<string, string> = {
 
 export function BudgetSheet({ rfpId, budgetItems, users }: BudgetSheetProps) {
   const { toast } = useToast();
+  const { isPM } = useAuth();
   const [activeTab, setActiveTab] = useState("all");
   const [rows, setRows] = useState<BudgetRow[]>(() => {
     const grouped = new Map<string, BudgetRow>();
@@ -123,14 +125,14 @@ export function BudgetSheet({ rfpId, budgetItems, users }: BudgetSheetProps) {
       queryClient.invalidateQueries({ queryKey: ["/api/rfps", rfpId.toString(), "budget"] });
       toast({ title: "Budget saved successfully" });
     },
-    onError: () => {
-      toast({ title: "Failed to save budget", variant: "destructive" });
+    onError: (error) => {
+      toast({ title: "Failed to save budget", description: getApiErrorMessage(error), variant: "destructive" });
     },
   });
 
   const addRow = () => {
     if (users.length === 0) return;
-    const unusedUsers = users.filter(u => !rows.some(r => r.userId === u.id));
+    const unusedUsers = users.filter(u => u.isActive && !rows.some(r => r.userId === u.id));
     if (unusedUsers.length === 0) {
       toast({ title: "All team members are already in the budget" });
       return;
@@ -328,7 +330,7 @@ export function BudgetSheet({ rfpId, budgetItems, users }: BudgetSheetProps) {
             <Plus className="h-4 w-4 mr-2" />
             Add Team Member
           </Button>
-          <Button onClick={() => saveMutation.mutate(rows)} disabled={saveMutation.isPending} data-testid="button-save-budget">
+          <Button onClick={() => saveMutation.mutate(rows)} disabled={!isPM || saveMutation.isPending} data-testid="button-save-budget">
             {saveMutation.isPending ? (
               <Loader2 className="h-4 w-4 mr-2 animate-spin" />
             ) : (
@@ -407,7 +409,7 @@ export function BudgetSheet({ rfpId, budgetItems, users }: BudgetSheetProps) {
                               <SelectValue />
                             </SelectTrigger>
                             <SelectContent>
-                              {users.map((u) => (
+                              {users.filter(u => u.isActive || u.id === row.userId).map((u) => (
                                 <SelectItem key={u.id} value={u.id}>
                                   {u.fullName}
                                 </SelectItem>
@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { AlertCircle, CheckCircle2, Loader2, X } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
+import type { CoverageCheckResult, Requirement, ResponseSection } from "@shared/schema";
+
+interface CoverageReviewProps {
+  rfpId: number;
+  result: CoverageCheckResult;
+  requirements: Requirement[];
+  sections: ResponseSection[];
+  onClose: () => void;
+}
+
+// Lists what a coverage check proposes; only the addressed findings a PM ticks are saved
+export function CoverageReview({ rfpId, result, requirements, sections, onClose }: CoverageReviewProps) {
+  const { toast } = useToast();
+  const { isPM } = useAuth();
+  const addressed = result.findings.filter(f => f.status === "addressed");
+  const gaps = result.findings.filter(f => f.status === "pending");
+  const [accepted, setAccepted] = useState<Set<number>>(() => new Set(addressed.map(f => f.requirementId)));
+
+  const applyMutation = useMutation({
+    mutationFn: async () => {
+      const findings = addressed
+        .filter(f => accepted.has(f.requirementId))
+        .map(f => ({ requirementId: f.requirementId, sectionId: f.sectionId }));
+      const res = await apiRequest("POST", `/api/rfps/${rfpId}/coverage-check/apply`, { findings });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rfps", rfpId.toString(), "requirements"] });
+      toast({ title: `${accepted.size} requirement${accepted.size === 1 ? "" : "s"} marked addressed` });
+      onClose();
+    },
+    onError: (error) => {
+      toast({ title: "Failed to apply coverage results", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const toggle = (requirementId: number, checked: boolean) => {
+    setAccepted(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(requirementId);
+      else next.delete(requirementId);
+      return next;
+    });
+  };
+
+  const requirementText = (id: number) => requirements.find(r => r.id === id)?.text ?? `Requirement ${id}`;
+  const sectionTitle = (id: number | null) => sections.find(s => s.id === id)?.title ?? "Unknown section";
+
+  return (
+    <Card className="border-primary/40" data-testid="coverage-review">
+      <CardHeader className="pb-2">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="text-base">Coverage Check</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              {addressed.length} of {result.findings.length} pending requirements look addressed
+              {result.mode === "keywords" ? " (keyword overlap)" : " (AI)"}. Review before applying.
+            </p>
+            {result.notice && <p className="text-xs text-amber-600 mt-1">{result.notice}</p>}
+          </div>
+          <Button variant="ghost" size="icon" onClick={onClose} data-testid="button-close-coverage">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {result.findings.length === 0 && (
+          <p className="text-sm text-muted-foreground">No pending requirements to check.</p>
+        )}
+
+        {addressed.length > 0 && (
+          <div className="space-y-2">
+            {addressed.map(finding => (
+              <div key={finding.requirementId} className="flex items-start gap-3 rounded-md border p-3" data-testid={`coverage-finding-${finding.requirementId}`}>
+                <Checkbox
+                  checked={accepted.has(finding.requirementId)}
+                  onCheckedChange={(checked) => toggle(finding.requirementId, checked === true)}
+                  disabled={!isPM}
+                  className="mt-0.5"
+                  data-testid={`checkbox-accept-coverage-${finding.requirementId}`}
+                />
+                <div className="flex-1 min-w-0 space-y-1">
+                  <p className="text-sm">{requirementText(finding.requirementId)}</p>
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <CheckCircle2 className="h-3 w-3 text-green-600" />
+                    <span className="text-xs">Addressed in</span>
+                    <Badge variant="secondary" className="text-xs font-normal">{sectionTitle(finding.sectionId)}</Badge>
+                    <span className="text-xs text-muted-foreground">{Math.round(finding.confidence * 100)}% confidence</span>
+                  </div>
+                  {finding.quote && (
+                    <blockquote className="border-l-2 pl-2 text-xs italic text-muted-foreground">{finding.quote}</blockquote>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {gaps.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Still pending</p>
+            {gaps.map(finding => (
+              <div key={finding.requirementId} className="flex items-start gap-3 rounded-md border border-dashed p-3" data-testid={`coverage-gap-${finding.requirementId}`}>
+                <AlertCircle className="h-4 w-4 mt-0.5 shrink-0 text-amber-600" />
+                <div className="flex-1 min-w-0 space-y-1">
+                  <p className="text-sm">{requirementText(finding.requirementId)}</p>
+                  {finding.gap && <p className="text-xs text-muted-foreground">{finding.gap}</p>}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onClose}>
+            Dismiss
+          </Button>
+          {isPM && addressed.length > 0 && (
+            <Button
+              onClick={() => applyMutation.mutate()}
+              disabled={accepted.size === 0 || applyMutation.isPending}
+              data-testid="button-apply-coverage"
+            >
+              {applyMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Mark {accepted.size} addressed
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,337 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import {
+  CalendarClock,
+  Edit,
+  FileSearch,
+  Loader2,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
+import { deadlineTypes, type DeadlineType, type NextDeadline, type RfpDeadline } from "@shared/schema";
+
+export const deadlineTypeLabels: Record<DeadlineType, string> = {
+  questions_due: "Questions due",
+  pre_proposal_conference: "Pre-proposal conference",
+  site_visit: "Site visit",
+  intent_to_bid: "Intent to bid due",
+  proposal_due: "Proposal due",
+  oral_presentation: "Oral presentation",
+  other: "Other",
+};
+
+export function deadlineLabel(deadline: Pick<NextDeadline, "type" | "label">): string {
+  return deadline.label || deadlineTypeLabels[deadline.type as DeadlineType] || deadline.type;
+}
+
+// Extracted dates without a time are stored at midnight, so only show a time when one was given
+export function formatDeadline(dueAt: Date | string): string {
+  const date = new Date(dueAt);
+  const hasTime = date.getHours() !== 0 || date.getMinutes() !== 0;
+  return hasTime
+    ? date.toLocaleString([], { dateStyle: "medium", timeStyle: "short" })
+    : date.toLocaleDateString([], { dateStyle: "medium" });
+}
+
+// <input type="datetime-local"> wants local time without a zone
+function toDateTimeInput(dueAt: Date | string): string {
+  const date = new Date(dueAt);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+const deadlineSchema = z.object({
+  type: z.enum(deadlineTypes),
+  label: z.string().optional(),
+  dueAt: z.string().min(1, "Date is required"),
+  notes: z.string().optional(),
+});
+
+type DeadlineFormData = z.infer<typeof deadlineSchema>;
+
+interface DeadlinesPanelProps {
+  rfpId: number;
+  deadlines: RfpDeadline[];
+  isLoading: boolean;
+}
+
+export function DeadlinesPanel({ rfpId, deadlines, isLoading }: DeadlinesPanelProps) {
+  const { toast } = useToast();
+  const { isPM } = useAuth();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingDeadline, setEditingDeadline] = useState<RfpDeadline | null>(null);
+
+  const form = useForm<DeadlineFormData>({
+    resolver: zodResolver(deadlineSchema),
+    defaultValues: { type: "questions_due", label: "", dueAt: "", notes: "" },
+  });
+
+  // Covers this RFP's dates and the RFP lists, which show the next deadline and proposal due date
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/rfps"] });
+  };
+
+  const toPayload = (data: DeadlineFormData) => ({
+    type: data.type,
+    label: data.label?.trim() || null,
+    dueAt: new Date(data.dueAt).toISOString(),
+    notes: data.notes?.trim() || null,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: DeadlineFormData) => {
+      const res = editingDeadline
+        ? await apiRequest("PATCH", `/api/deadlines/${editingDeadline.id}`, toPayload(data))
+        : await apiRequest("POST", `/api/rfps/${rfpId}/deadlines`, toPayload(data));
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      setDialogOpen(false);
+      setEditingDeadline(null);
+      toast({ title: editingDeadline ? "Key date updated" : "Key date added" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to save key date", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/deadlines/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Key date removed" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to remove key date", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const handleOpenDialog = (deadline?: RfpDeadline) => {
+    setEditingDeadline(deadline ?? null);
+    form.reset(deadline
+      ? {
+          type: deadline.type as DeadlineType,
+          label: deadline.label || "",
+          dueAt: toDateTimeInput(deadline.dueAt),
+          notes: deadline.notes || "",
+        }
+      : { type: "questions_due", label: "", dueAt: "", notes: "" });
+    setDialogOpen(true);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {[1, 2, 3].map((i) => (
+          <Skeleton key={i} className="h-16 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  const now = Date.now();
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="font-semibold">Key Dates</h2>
+          <p className="text-sm text-muted-foreground">
+            Dates found during analysis are refreshed when the RFP is re-analyzed; edited dates are kept.
+          </p>
+        </div>
+        {isPM && (
+          <Button onClick={() => handleOpenDialog()} data-testid="button-add-deadline">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Date
+          </Button>
+        )}
+      </div>
+
+      {deadlines.length === 0 ? (
+        <Card>
+          <CardContent className="p-12 text-center text-muted-foreground">
+            <CalendarClock className="h-12 w-12 mx-auto mb-3 opacity-30" />
+            <p className="font-medium">No key dates yet</p>
+            <p className="text-sm">Analyze the RFP to find them, or add them by hand</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-2">
+          {deadlines.map((deadline) => {
+            const isPast = new Date(deadline.dueAt).getTime() < now;
+            return (
+              <Card key={deadline.id} className={isPast ? "opacity-60" : ""} data-testid={`deadline-${deadline.id}`}>
+                <CardContent className="p-4 flex items-start gap-3">
+                  <CalendarClock className={`h-5 w-5 mt-0.5 shrink-0 ${isPast ? "text-muted-foreground" : "text-primary"}`} />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-medium text-sm">{deadlineLabel(deadline)}</span>
+                      {deadline.source === "extracted" && (
+                        <Badge
+                          variant="outline"
+                          className="text-xs"
+                          title={deadline.sourceText || undefined}
+                          data-testid={`badge-deadline-extracted-${deadline.id}`}
+                        >
+                          <FileSearch className="h-3 w-3 mr-1" />
+                          From document
+                        </Badge>
+                      )}
+                      {isPast && <Badge variant="secondary" className="text-xs">Passed</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground" data-testid={`deadline-date-${deadline.id}`}>
+                      {formatDeadline(deadline.dueAt)}
+                    </p>
+                    {deadline.notes && <p className="text-sm mt-1">{deadline.notes}</p>}
+                  </div>
+                  {isPM && (
+                    <div className="flex items-center gap-1 shrink-0">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleOpenDialog(deadline)}
+                        data-testid={`button-edit-deadline-${deadline.id}`}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteMutation.mutate(deadline.id)}
+                        disabled={deleteMutation.isPending}
+                        data-testid={`button-delete-deadline-${deadline.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingDeadline ? "Edit Key Date" : "Add Key Date"}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="type"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Type</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-deadline-type">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {deadlineTypes.map((type) => (
+                            <SelectItem key={type} value={type}>{deadlineTypeLabels[type]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="dueAt"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Date and time</FormLabel>
+                      <FormControl>
+                        <Input type="datetime-local" data-testid="input-deadline-date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="label"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Label (optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Written questions to the Contracting Officer" data-testid="input-deadline-label" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notes</FormLabel>
+                    <FormControl>
+                      <Textarea rows={3} placeholder="Location, dial-in, submission method..." data-testid="input-deadline-notes" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-deadline">
+                  {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {editingDeadline ? "Save" : "Add"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
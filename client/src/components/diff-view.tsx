@@ -0,0 +1,106 @@
+import type { ReactNode } from "react";
+import { cn } from "@/lib/utils";
+import type { DiffHunk, DiffLine, DocumentDiff } from "@shared/text-diff";
+
+const lineStyles: Record<DiffLine["type"], string> = {
+  same: "",
+  added: "bg-green-100 dark:bg-green-900/30",
+  removed: "bg-red-100 dark:bg-red-900/30 line-through decoration-red-400/60",
+};
+
+const linePrefixes: Record<DiffLine["type"], string> = { same: " ", added: "+", removed: "-" };
+
+function SkippedLines({ count }: { count: number }) {
+  if (count === 0) return null;
+  return (
+    <div className="py-1 text-center text-xs text-muted-foreground bg-muted/50">
+      {count} unchanged line{count === 1 ? "" : "s"}
+    </div>
+  );
+}
+
+interface DiffViewProps {
+  diff: DocumentDiff;
+  renderText?: (text: string) => ReactNode;
+  testId?: string;
+}
+
+const plainText = (text: string) => text;
+
+// One column with removed lines struck through above the lines that replaced them
+export function InlineDiff({ diff, renderText = plainText, testId }: DiffViewProps) {
+  return (
+    <div className="rounded-md border font-mono text-xs overflow-hidden" data-testid={testId}>
+      {diff.hunks.map((hunk, i) => (
+        <div key={i}>
+          <SkippedLines count={hunk.skippedBefore} />
+          {hunk.lines.map((line, j) => (
+            <div key={j} className={`flex ${lineStyles[line.type]}`}>
+              <span className="w-12 shrink-0 text-right pr-2 text-muted-foreground select-none">{line.oldLine ?? ""}</span>
+              <span className="w-12 shrink-0 text-right pr-2 text-muted-foreground select-none">{line.newLine ?? ""}</span>
+              <span className="w-4 shrink-0 select-none">{linePrefixes[line.type]}</span>
+              <span className="whitespace-pre-wrap break-words flex-1">{renderText(line.text)}</span>
+            </div>
+          ))}
+        </div>
+      ))}
+      <SkippedLines count={diff.skippedAfter} />
+    </div>
+  );
+}
+
+interface SideBySideRow {
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+// Unchanged lines sit on both sides; a run of removed lines is paired up with the added lines after it
+function sideBySideRows(hunk: DiffHunk): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let i = 0;
+  while (i < hunk.lines.length) {
+    if (hunk.lines[i].type === "same") {
+      rows.push({ left: hunk.lines[i], right: hunk.lines[i] });
+      i++;
+      continue;
+    }
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (i < hunk.lines.length && hunk.lines[i].type !== "same") {
+      (hunk.lines[i].type === "removed" ? removed : added).push(hunk.lines[i]);
+      i++;
+    }
+    for (let j = 0; j < Math.max(removed.length, added.length); j++) {
+      rows.push({ left: removed[j] ?? null, right: added[j] ?? null });
+    }
+  }
+  return rows;
+}
+
+export function SideBySideDiff({ diff, renderText = plainText, testId }: DiffViewProps) {
+  const cell = (line: DiffLine | null, side: "left" | "right") => (
+    <div className={cn("flex min-w-0", line && line.type !== "same" && lineStyles[line.type], side === "left" && "border-r")}>
+      <span className="w-10 shrink-0 text-right pr-2 text-muted-foreground select-none">
+        {(side === "left" ? line?.oldLine : line?.newLine) ?? ""}
+      </span>
+      <span className="whitespace-pre-wrap break-words flex-1 min-w-0">{line ? renderText(line.text) : ""}</span>
+    </div>
+  );
+
+  return (
+    <div className="rounded-md border font-mono text-xs overflow-hidden" data-testid={testId}>
+      {diff.hunks.map((hunk, i) => (
+        <div key={i}>
+          <SkippedLines count={hunk.skippedBefore} />
+          {sideBySideRows(hunk).map((row, j) => (
+            <div key={j} className="grid grid-cols-2">
+              {cell(row.left, "left")}
+              {cell(row.right, "right")}
+            </div>
+          ))}
+        </div>
+      ))}
+      <SkippedLines count={diff.skippedAfter} />
+    </div>
+  );
+}
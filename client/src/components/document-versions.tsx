@@ -0,0 +1,200 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Download, FileUp, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { InlineDiff } from "@/components/diff-view";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
+import { PAGE_BREAK, SUPPORTED_DOCUMENT_EXTENSIONS } from "@shared/documents";
+import type { DocumentDiff } from "@shared/text-diff";
+import type { DocumentChangeSummary, RfpDocumentVersionSummary } from "@shared/schema";
+
+export function versionLabel(version: RfpDocumentVersionSummary): string {
+  return version.label ? `v${version.version} · ${version.label}` : `v${version.version}`;
+}
+
+interface AmendmentUploadDialogProps {
+  rfpId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Uploads a new version of the solicitation; the server keeps the old text and flags the
+// requirements the new text changed or dropped
+export function AmendmentUploadDialog({ rfpId, open, onOpenChange }: AmendmentUploadDialogProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [label, setLabel] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setLabel("");
+    setFile(null);
+  }, [open]);
+
+  const uploadMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("file", file!);
+      formData.append("label", label.trim());
+      const res = await apiRequest("POST", `/api/rfps/${rfpId}/document`, formData);
+      return res.json() as Promise<{ changes: DocumentChangeSummary | null }>;
+    },
+    onSuccess: ({ changes }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rfps", rfpId.toString()] });
+      onOpenChange(false);
+      toast({
+        title: "New document version uploaded",
+        description: changes
+          ? `${changes.changed} requirement${changes.changed === 1 ? "" : "s"} changed, ${changes.removed} removed, ${changes.unchanged} unchanged`
+          : undefined,
+      });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to upload document", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Upload Amendment</DialogTitle>
+          <DialogDescription>
+            The amended document becomes the current version. Earlier versions are kept for comparison, and
+            requirements whose text changed or disappeared are flagged for review.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="amendment-label">Label</Label>
+            <Input
+              id="amendment-label"
+              placeholder="Amendment 0002"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              data-testid="input-amendment-label"
+            />
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={SUPPORTED_DOCUMENT_EXTENSIONS.join(",")}
+            onChange={(e) => setFile(e.target.files?.[0] || null)}
+            className="hidden"
+            data-testid="input-amendment-file"
+          />
+          <Button variant="outline" className="w-full" onClick={() => fileInputRef.current?.click()}>
+            <FileUp className="h-4 w-4 mr-2" />
+            {file ? file.name : "Choose document"}
+          </Button>
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => uploadMutation.mutate()}
+            disabled={!file || uploadMutation.isPending}
+            data-testid="button-upload-amendment"
+          >
+            {uploadMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Upload
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface DocumentDiffViewProps {
+  rfpId: number;
+  versions: RfpDocumentVersionSummary[];
+}
+
+// Compares two versions, the previous and the current one to begin with
+export function DocumentDiffView({ rfpId, versions }: DocumentDiffViewProps) {
+  const latest = versions[versions.length - 1];
+  const [from, setFrom] = useState(versions.length > 1 ? versions[versions.length - 2].version : latest.version);
+  const [to, setTo] = useState(latest.version);
+  const fromVersion = versions.find(v => v.version === from);
+  const toVersion = versions.find(v => v.version === to);
+
+  const { data: diff, isLoading } = useQuery<DocumentDiff>({
+    queryKey: ["/api/rfps", rfpId.toString(), "document", "diff", from.toString(), to.toString()],
+    enabled: from !== to,
+  });
+
+  const versionSelect = (value: number, onChange: (value: number) => void, testId: string) => (
+    <Select value={value.toString()} onValueChange={(v) => onChange(parseInt(v))}>
+      <SelectTrigger className="w-56" data-testid={testId}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map(version => (
+          <SelectItem key={version.version} value={version.version.toString()}>{versionLabel(version)}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 flex-wrap">
+        {versionSelect(from, setFrom, "select-diff-from")}
+        <span className="text-sm text-muted-foreground">to</span>
+        {versionSelect(to, setTo, "select-diff-to")}
+        {diff && from !== to && (
+          <>
+            <Badge variant="outline" className="text-xs text-green-700 dark:text-green-300">+{diff.added}</Badge>
+            <Badge variant="outline" className="text-xs text-red-700 dark:text-red-300">-{diff.removed}</Badge>
+          </>
+        )}
+        <div className="flex-1" />
+        {[fromVersion, toVersion].map(version => version?.documentPath && (
+          <Button key={version.version} variant="ghost" size="sm" asChild>
+            <a href={`/api/rfps/${rfpId}/document/versions/${version.version}`} download={version.documentName || undefined}>
+              <Download className="h-4 w-4 mr-2" />
+              v{version.version}
+            </a>
+          </Button>
+        ))}
+      </div>
+
+      {from === to ? (
+        <p className="text-sm text-muted-foreground text-center py-8">Pick two different versions to compare</p>
+      ) : isLoading ? (
+        <div className="space-y-2">
+          {[1, 2, 3, 4].map(i => <Skeleton key={i} className="h-5 w-full" />)}
+        </div>
+      ) : !diff || diff.hunks.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8">The two versions have the same text</p>
+      ) : (
+        <InlineDiff
+          diff={diff}
+          renderText={(text) => text === PAGE_BREAK ? <span className="text-muted-foreground">(page break)</span> : text}
+          testId="document-diff"
+        />
+      )}
+    </div>
+  );
+}
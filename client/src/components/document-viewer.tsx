@@ -1,26 +1,131 @@
 import { useState, useRef, useEffect } from "react";
-import { ZoomIn, ZoomOut, RotateCcw, FileText } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { ZoomIn, ZoomOut, RotateCcw, FileText, Download, ListPlus, GitCompare, FileUp } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import type { Requirement } from "@shared/schema";
+import { PAGE_BREAK } from "@shared/documents";
+import type { Requirement, RfpAttachment, RfpAttachmentSummary, RfpDocumentVersionSummary } from "@shared/schema";
+import type { DocumentSelection } from "./requirement-dialogs";
+import { AmendmentUploadDialog, DocumentDiffView, versionLabel } from "./document-versions";
+import { AttachmentBar } from "./attachments";
 
 interface DocumentViewerProps {
+  rfpId: number;
   content: string;
+  documentUrl?: string | null;
+  documentName?: string | null;
   requirements: Requirement[];
   highlightedRequirementId: number | null;
   onClearHighlight: () => void;
+  onCreateFromSelection?: (selection: DocumentSelection) => void;
+  canUploadAmendment?: boolean;
+  canManageAttachments?: boolean;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Escapes a slice of document text and renders line and page breaks
+function renderText(text: string): string {
+  return escapeHtml(text)
+    .split(PAGE_BREAK)
+    .map(part => part.replace(/\n/g, "<br/>"))
+    .join('<hr class="my-6 border-dashed" data-page-break="true"/>');
+}
+
+// Maps a DOM position back to a character offset in the content: text nodes hold the
+// characters themselves, and each <br> or page-break <hr> stands for one "\n" or PAGE_BREAK
+function contentOffset(root: HTMLElement, node: Node, offset: number): number {
+  const range = document.createRange();
+  range.setStart(root, 0);
+  range.setEnd(node, offset);
+  const fragment = range.cloneContents();
+  return (fragment.textContent || "").length + fragment.querySelectorAll("br, hr[data-page-break]").length;
 }
 
 export function DocumentViewer({ 
+  rfpId,
   content, 
+  documentUrl,
+  documentName,
   requirements, 
   highlightedRequirementId,
-  onClearHighlight 
+  onClearHighlight,
+  onCreateFromSelection,
+  canUploadAmendment = false,
+  canManageAttachments = false,
 }: DocumentViewerProps) {
   const [zoom, setZoom] = useState(100);
+  const [selection, setSelection] = useState<DocumentSelection | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [amendmentDialogOpen, setAmendmentDialogOpen] = useState(false);
+  // null is the main document, otherwise the id of the attachment on screen
+  const [activeDocument, setActiveDocument] = useState<number | null>(null);
   const contentRef = useRef<HTMLDivElement>(null);
 
+  const { data: versions = [] } = useQuery<RfpDocumentVersionSummary[]>({
+    queryKey: ["/api/rfps", rfpId.toString(), "document", "versions"],
+  });
+  const currentVersion = versions[versions.length - 1];
+
+  const { data: attachments = [] } = useQuery<RfpAttachmentSummary[]>({
+    queryKey: ["/api/rfps", rfpId.toString(), "attachments"],
+  });
+
+  const { data: activeAttachment } = useQuery<RfpAttachment>({
+    queryKey: ["/api/attachments", activeDocument?.toString()],
+    enabled: activeDocument !== null,
+  });
+
+  // Requirement offsets point into their own file, so only that file's requirements are highlighted
+  const displayedContent = activeDocument === null ? content : activeAttachment?.documentContent || "";
+  const displayedRequirements = requirements.filter(r => r.attachmentId === activeDocument);
+  const onMainDocument = activeDocument === null;
+
+  const requirementCounts = new Map<number | null, number>();
+  requirements.forEach(r => requirementCounts.set(r.attachmentId, (requirementCounts.get(r.attachmentId) || 0) + 1));
+
+  const switchDocument = (attachmentId: number | null) => {
+    setActiveDocument(attachmentId);
+    setSelection(null);
+    if (attachmentId !== null) setComparing(false);
+  };
+
+  // Offsets are trimmed to the selected words so a sloppy drag doesn't take in surrounding whitespace
+  const handleMouseUp = () => {
+    const root = contentRef.current;
+    const domSelection = window.getSelection();
+    if (!onCreateFromSelection || !root || !domSelection || domSelection.isCollapsed || domSelection.rangeCount === 0) {
+      setSelection(null);
+      return;
+    }
+    const range = domSelection.getRangeAt(0);
+    if (!root.contains(range.startContainer) || !root.contains(range.endContainer)) {
+      setSelection(null);
+      return;
+    }
+    let start = contentOffset(root, range.startContainer, range.startOffset);
+    let end = contentOffset(root, range.endContainer, range.endOffset);
+    while (start < end && /\s/.test(displayedContent[start])) start++;
+    while (end > start && /\s/.test(displayedContent[end - 1])) end--;
+    setSelection(end > start
+      ? { text: displayedContent.slice(start, end), highlightStart: start, highlightEnd: end, attachmentId: activeDocument }
+      : null);
+  };
+
+  // Opens the file a requirement picked in the list comes from
+  useEffect(() => {
+    const highlighted = requirements.find(r => r.id === highlightedRequirementId);
+    if (highlighted && highlighted.attachmentId !== activeDocument) switchDocument(highlighted.attachmentId);
+  }, [highlightedRequirementId]);
+
   useEffect(() => {
     if (highlightedRequirementId && contentRef.current) {
       const highlightedElement = contentRef.current.querySelector(`[data-requirement-id="${highlightedRequirementId}"]`);
@@ -28,14 +133,23 @@ export function DocumentViewer({
         highlightedElement.scrollIntoView({ behavior: "smooth", block: "center" });
       }
     }
-  }, [highlightedRequirementId]);
+  }, [highlightedRequirementId, displayedContent]);
 
   const handleZoomIn = () => setZoom(prev => Math.min(prev + 10, 200));
   const handleZoomOut = () => setZoom(prev => Math.max(prev - 10, 50));
   const handleResetZoom = () => setZoom(100);
 
   const renderHighlightedContent = () => {
-    if (!content) {
+    if (!displayedContent) {
+      if (!onMainDocument) {
+        return (
+          <div className="flex flex-col items-center justify-center h-full text-muted-foreground">
+            <FileText className="h-16 w-16 mb-4 opacity-30" />
+            <p className="font-medium">No text in this attachment</p>
+            <p className="text-sm">Download the original to view it</p>
+          </div>
+        );
+      }
       return (
         <div className="flex flex-col items-center justify-center h-full text-muted-foreground">
           <FileText className="h-16 w-16 mb-4 opacity-30" />
@@ -45,34 +159,39 @@ export function DocumentViewer({
       );
     }
 
-    let highlightedContent = content;
-    
-    const sortedReqs = [...requirements]
+    // Build the markup from escaped slices so document text can never inject HTML
+    // and requirement offsets keep pointing at the raw extracted text
+    const sortedReqs = [...displayedRequirements]
       .filter(r => r.highlightStart !== null && r.highlightEnd !== null)
-      .sort((a, b) => (b.highlightStart || 0) - (a.highlightStart || 0));
+      .sort((a, b) => (a.highlightStart || 0) - (b.highlightStart || 0));
 
+    let highlightedContent = "";
+    let cursor = 0;
     sortedReqs.forEach(req => {
-      const start = req.highlightStart || 0;
-      const end = req.highlightEnd || 0;
+      const start = Math.max(req.highlightStart || 0, cursor);
+      const end = Math.min(req.highlightEnd || 0, displayedContent.length);
+      if (end <= start) return;
       const isHighlighted = req.id === highlightedRequirementId;
       const highlightClass = isHighlighted 
         ? "bg-primary/30 ring-2 ring-primary" 
         : "bg-amber-200/50 dark:bg-amber-500/20";
-      
-      highlightedContent = 
-        highlightedContent.substring(0, start) +
+
+      highlightedContent +=
+        renderText(displayedContent.substring(cursor, start)) +
         `<mark class="${highlightClass} px-0.5 rounded cursor-pointer transition-colors" data-requirement-id="${req.id}">` +
-        highlightedContent.substring(start, end) +
-        '</mark>' +
-        highlightedContent.substring(end);
+        renderText(displayedContent.substring(start, end)) +
+        '</mark>';
+      cursor = end;
     });
+    highlightedContent += renderText(displayedContent.substring(cursor));
 
     return (
       <div
         ref={contentRef}
         className="prose prose-sm dark:prose-invert max-w-none"
         style={{ fontSize: `${zoom}%` }}
-        dangerouslySetInnerHTML={{ __html: highlightedContent.replace(/\n/g, "<br/>") }}
+        dangerouslySetInnerHTML={{ __html: highlightedContent }}
+        onMouseUp={handleMouseUp}
         onClick={(e) => {
           const target = e.target as HTMLElement;
           if (target.tagName === "MARK") {
@@ -89,8 +208,62 @@ export function DocumentViewer({
   return (
     <div className="h-full flex flex-col gap-4">
       <div className="flex items-center justify-between">
-        <h2 className="font-semibold text-lg">RFP Document</h2>
         <div className="flex items-center gap-2">
+          <h2 className="font-semibold text-lg">RFP Document</h2>
+          {onMainDocument && currentVersion && versions.length > 1 && (
+            <Badge variant="secondary" className="text-xs" data-testid="badge-document-version">
+              {versionLabel(currentVersion)}
+            </Badge>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {onMainDocument && versions.length > 1 && (
+            <Button
+              variant={comparing ? "secondary" : "outline"}
+              size="sm"
+              onClick={() => setComparing(!comparing)}
+              data-testid="button-compare-versions"
+            >
+              <GitCompare className="h-4 w-4 mr-2" />
+              {comparing ? "Back to Document" : "Compare Versions"}
+            </Button>
+          )}
+          {onMainDocument && canUploadAmendment && content && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setAmendmentDialogOpen(true)}
+              data-testid="button-upload-amendment-dialog"
+            >
+              <FileUp className="h-4 w-4 mr-2" />
+              Upload Amendment
+            </Button>
+          )}
+          {!comparing && selection && onCreateFromSelection && (
+            <Button
+              size="sm"
+              onClick={() => {
+                onCreateFromSelection(selection);
+                window.getSelection()?.removeAllRanges();
+                setSelection(null);
+              }}
+              data-testid="button-add-selection-requirement"
+            >
+              <ListPlus className="h-4 w-4 mr-2" />
+              Add selection as requirement
+            </Button>
+          )}
+          {(onMainDocument ? documentUrl : activeAttachment?.documentPath) && (
+            <Button variant="outline" size="sm" asChild data-testid="button-download-original">
+              <a
+                href={onMainDocument ? documentUrl! : `/api/attachments/${activeDocument}/file`}
+                download={(onMainDocument ? documentName : activeAttachment?.documentName) || undefined}
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Original
+              </a>
+            </Button>
+          )}
           <Button variant="outline" size="icon" onClick={handleZoomOut} data-testid="button-zoom-out">
             <ZoomOut className="h-4 w-4" />
           </Button>
@@ -103,20 +276,36 @@ export function DocumentViewer({
           </Button>
         </div>
       </div>
-      
+
+      {(attachments.length > 0 || canManageAttachments) && (
+        <AttachmentBar
+          rfpId={rfpId}
+          mainDocumentName={documentName}
+          attachments={attachments}
+          activeId={activeDocument}
+          onSelect={switchDocument}
+          requirementCounts={requirementCounts}
+          canManage={canManageAttachments}
+        />
+      )}
+
       <Card className="flex-1 overflow-hidden">
         <ScrollArea className="h-full">
           <CardContent className="p-6">
-            {renderHighlightedContent()}
+            {onMainDocument && comparing && versions.length > 1
+              ? <DocumentDiffView rfpId={rfpId} versions={versions} />
+              : renderHighlightedContent()}
           </CardContent>
         </ScrollArea>
       </Card>
 
-      {requirements.length > 0 && (
+      {displayedRequirements.length > 0 && (
         <p className="text-xs text-muted-foreground text-center">
-          Click on highlighted sections to view corresponding requirements. {requirements.length} requirements identified.
+          Click on highlighted sections to view corresponding requirements. {displayedRequirements.length} requirements identified.
         </p>
       )}
+
+      <AmendmentUploadDialog rfpId={rfpId} open={amendmentDialogOpen} onOpenChange={setAmendmentDialogOpen} />
     </div>
   );
 }
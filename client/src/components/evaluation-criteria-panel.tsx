@@ -0,0 +1,449 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import {
+  Edit,
+  FileSearch,
+  Link2,
+  Loader2,
+  Plus,
+  Scale,
+  Trash2,
+} from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
+import type { EvaluationCriterion, EvaluationCriterionWithSections, ResponseSection } from "@shared/schema";
+
+// "40 points" / "25%"; decimals come back from Postgres as strings like "40.00"
+export function formatWeight(criterion: Pick<EvaluationCriterion, "weight" | "weightUnit">): string | null {
+  if (criterion.weight === null) return null;
+  const value = Number(criterion.weight);
+  if (criterion.weightUnit === "percent") return `${value}%`;
+  return `${value} ${value === 1 ? "point" : "points"}`;
+}
+
+const criterionSchema = z.object({
+  title: z.string().min(1, "Title is required"),
+  weight: z.string().refine(value => value.trim() === "" || !isNaN(Number(value)), "Weight must be a number"),
+  weightUnit: z.enum(["points", "percent"]),
+  importance: z.string().optional(),
+  description: z.string().optional(),
+});
+
+type CriterionFormData = z.infer<typeof criterionSchema>;
+
+const emptyForm: CriterionFormData = { title: "", weight: "", weightUnit: "points", importance: "", description: "" };
+
+interface EvaluationCriteriaPanelProps {
+  rfpId: number;
+  criteria: EvaluationCriterionWithSections[];
+  sections: ResponseSection[];
+  isLoading: boolean;
+}
+
+export function EvaluationCriteriaPanel({ rfpId, criteria, sections, isLoading }: EvaluationCriteriaPanelProps) {
+  const { toast } = useToast();
+  const { isPM } = useAuth();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingCriterion, setEditingCriterion] = useState<EvaluationCriterion | null>(null);
+  const [parentId, setParentId] = useState<number | null>(null);
+
+  const form = useForm<CriterionFormData>({
+    resolver: zodResolver(criterionSchema),
+    defaultValues: emptyForm,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/rfps", rfpId.toString(), "evaluation-criteria"] });
+  };
+
+  const toPayload = (data: CriterionFormData) => ({
+    title: data.title.trim(),
+    weight: data.weight.trim() === "" ? null : data.weight.trim(),
+    weightUnit: data.weight.trim() === "" ? null : data.weightUnit,
+    importance: data.importance?.trim() || null,
+    description: data.description?.trim() || null,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: CriterionFormData) => {
+      if (editingCriterion) {
+        const res = await apiRequest("PATCH", `/api/evaluation-criteria/${editingCriterion.id}`, toPayload(data));
+        return res.json();
+      }
+      const siblings = criteria.filter(c => c.parentId === parentId);
+      const res = await apiRequest("POST", `/api/rfps/${rfpId}/evaluation-criteria`, {
+        ...toPayload(data),
+        parentId,
+        orderIndex: siblings.length,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      setDialogOpen(false);
+      toast({ title: editingCriterion ? "Criterion updated" : "Criterion added" });
+      setEditingCriterion(null);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to save criterion", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/evaluation-criteria/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Criterion removed" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to remove criterion", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const linkMutation = useMutation({
+    mutationFn: async ({ criterionId, sectionIds }: { criterionId: number; sectionIds: number[] }) => {
+      const res = await apiRequest("PUT", `/api/evaluation-criteria/${criterionId}/sections`, { sectionIds });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidate();
+    },
+    onError: (error) => {
+      toast({ title: "Failed to link sections", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const handleOpenDialog = (criterion?: EvaluationCriterion, parent?: number) => {
+    setEditingCriterion(criterion ?? null);
+    setParentId(criterion ? criterion.parentId : parent ?? null);
+    form.reset(criterion
+      ? {
+          title: criterion.title,
+          weight: criterion.weight === null ? "" : String(Number(criterion.weight)),
+          weightUnit: criterion.weightUnit === "percent" ? "percent" : "points",
+          importance: criterion.importance || "",
+          description: criterion.description || "",
+        }
+      : emptyForm);
+    setDialogOpen(true);
+  };
+
+  const toggleSection = (criterion: EvaluationCriterionWithSections, sectionId: number, checked: boolean) => {
+    const sectionIds = checked
+      ? [...criterion.sectionIds, sectionId]
+      : criterion.sectionIds.filter(id => id !== sectionId);
+    linkMutation.mutate({ criterionId: criterion.id, sectionIds });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {[1, 2, 3].map((i) => (
+          <Skeleton key={i} className="h-20 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  const factors = criteria.filter(c => c.parentId === null);
+  const totalWeight = factors.reduce((sum, f) => sum + (f.weight === null ? 0 : Number(f.weight)), 0);
+  const totalUnit = factors.find(f => f.weightUnit)?.weightUnit ?? null;
+
+  const renderCriterion = (criterion: EvaluationCriterionWithSections, isSubfactor: boolean) => {
+    const weight = formatWeight(criterion);
+    const linkedSections = sections.filter(s => criterion.sectionIds.includes(s.id));
+
+    return (
+      <div className="flex items-start gap-3" data-testid={`criterion-${criterion.id}`}>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 flex-wrap">
+            <span className={isSubfactor ? "text-sm font-medium" : "font-medium"}>{criterion.title}</span>
+            {weight && (
+              <Badge variant="secondary" className="text-xs" data-testid={`criterion-weight-${criterion.id}`}>
+                {weight}
+              </Badge>
+            )}
+            {criterion.source === "extracted" && (
+              <Badge
+                variant="outline"
+                className="text-xs"
+                title={criterion.sourceText || undefined}
+                data-testid={`badge-criterion-extracted-${criterion.id}`}
+              >
+                <FileSearch className="h-3 w-3 mr-1" />
+                From document
+              </Badge>
+            )}
+          </div>
+          {criterion.importance && (
+            <p className="text-xs text-muted-foreground mt-1">{criterion.importance}</p>
+          )}
+          {criterion.description && (
+            <p className="text-sm mt-1">{criterion.description}</p>
+          )}
+          {linkedSections.length > 0 && (
+            <div className="flex items-center gap-1 flex-wrap mt-2">
+              <Link2 className="h-3 w-3 text-muted-foreground" />
+              {linkedSections.map(section => (
+                <Badge key={section.id} variant="outline" className="text-xs font-normal">
+                  {section.title}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+        {isPM && (
+          <div className="flex items-center gap-1 shrink-0">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon" title="Link response sections" data-testid={`button-link-sections-${criterion.id}`}>
+                  <Link2 className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-64">
+                <DropdownMenuLabel>Scored in sections</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {sections.length === 0 ? (
+                  <p className="px-2 py-1.5 text-sm text-muted-foreground">No response sections yet</p>
+                ) : (
+                  sections.map(section => (
+                    <DropdownMenuCheckboxItem
+                      key={section.id}
+                      checked={criterion.sectionIds.includes(section.id)}
+                      onCheckedChange={(checked) => toggleSection(criterion, section.id, checked === true)}
+                      onSelect={(e) => e.preventDefault()}
+                      disabled={linkMutation.isPending}
+                    >
+                      {section.title}
+                    </DropdownMenuCheckboxItem>
+                  ))
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            {!isSubfactor && (
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Add subfactor"
+                onClick={() => handleOpenDialog(undefined, criterion.id)}
+                data-testid={`button-add-subfactor-${criterion.id}`}
+              >
+                <Plus className="h-4 w-4" />
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => handleOpenDialog(criterion)}
+              data-testid={`button-edit-criterion-${criterion.id}`}
+            >
+              <Edit className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => deleteMutation.mutate(criterion.id)}
+              disabled={deleteMutation.isPending}
+              data-testid={`button-delete-criterion-${criterion.id}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="font-semibold">Evaluation Criteria</h2>
+          <p className="text-sm text-muted-foreground">
+            How the proposal will be scored. Criteria found during analysis are refreshed on re-analysis; edited ones are kept.
+          </p>
+        </div>
+        {isPM && (
+          <Button onClick={() => handleOpenDialog()} data-testid="button-add-criterion">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Factor
+          </Button>
+        )}
+      </div>
+
+      {factors.length === 0 ? (
+        <Card>
+          <CardContent className="p-12 text-center text-muted-foreground">
+            <Scale className="h-12 w-12 mx-auto mb-3 opacity-30" />
+            <p className="font-medium">No evaluation criteria yet</p>
+            <p className="text-sm">Analyze the RFP to find them in its evaluation section, or add them by hand</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-2">
+          {totalWeight > 0 && (
+            <p className="text-sm text-muted-foreground" data-testid="text-criteria-total">
+              Total: {formatWeight({ weight: String(totalWeight), weightUnit: totalUnit })}
+            </p>
+          )}
+          {factors.map((factor) => {
+            const subfactors = criteria.filter(c => c.parentId === factor.id);
+            return (
+              <Card key={factor.id}>
+                <CardContent className="p-4 space-y-3">
+                  {renderCriterion(factor, false)}
+                  {subfactors.length > 0 && (
+                    <div className="space-y-3 border-l-2 pl-4 ml-1">
+                      {subfactors.map((subfactor) => (
+                        <div key={subfactor.id}>{renderCriterion(subfactor, true)}</div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {editingCriterion ? "Edit Criterion" : parentId !== null ? "Add Subfactor" : "Add Factor"}
+            </DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="title"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Title</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Technical Approach" data-testid="input-criterion-title" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="weight"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Weight (optional)</FormLabel>
+                      <FormControl>
+                        <Input inputMode="decimal" placeholder="e.g. 40" data-testid="input-criterion-weight" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="weightUnit"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Unit</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-criterion-unit">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="points">Points</SelectItem>
+                          <SelectItem value="percent">Percent</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="importance"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Relative importance (optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. More important than Past Performance" data-testid="input-criterion-importance" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Textarea rows={4} placeholder="What the evaluators will look for..." data-testid="input-criterion-description" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-criterion">
+                  {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {editingCriterion ? "Save" : "Add"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
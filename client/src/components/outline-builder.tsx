@@ -0,0 +1,210 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2, ListTree } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
+import type { ProposedResponseSection, Template } from "@shared/schema";
+
+interface OutlineBuilderDialogProps {
+  rfpId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface OutlineRow extends ProposedResponseSection {
+  include: boolean;
+}
+
+// Previews the sections proposed from the submission instructions; only the ticked rows are created
+export function OutlineBuilderDialog({ rfpId, open, onOpenChange }: OutlineBuilderDialogProps) {
+  const { toast } = useToast();
+  const [rows, setRows] = useState<OutlineRow[]>([]);
+  const [seedTemplates, setSeedTemplates] = useState(true);
+
+  const { data: templates = [] } = useQuery<Template[]>({
+    queryKey: ["/api/templates"],
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/rfps/${rfpId}/response/outline/preview`);
+      return res.json() as Promise<{ sections: ProposedResponseSection[] }>;
+    },
+    onSuccess: ({ sections }) => {
+      setRows(sections.map(section => ({ ...section, include: section.suggested })));
+    },
+    onError: (error) => {
+      toast({ title: "Failed to build outline", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setRows([]);
+    previewMutation.mutate();
+  }, [open]);
+
+  const included = rows.filter(row => row.include);
+  const newCount = included.filter(row => row.existingSectionId === null).length;
+
+  const applyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/rfps/${rfpId}/response/outline`, {
+        sections: included.map(row => ({
+          title: row.title.trim(),
+          pageLimit: row.pageLimit,
+          requirementIds: row.requirementIds,
+          templateId: seedTemplates ? row.templateId : null,
+          existingSectionId: row.existingSectionId,
+        })),
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rfps", rfpId.toString(), "response"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/rfps", rfpId.toString(), "requirements"] });
+      onOpenChange(false);
+      toast({ title: `${newCount} section${newCount === 1 ? "" : "s"} created` });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to create sections", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const updateRow = (index: number, changes: Partial<OutlineRow>) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Build Outline</DialogTitle>
+          <DialogDescription>
+            Sections proposed from the submission instructions, in solicitation order. Each is linked to the
+            requirements it answers. Nothing is created until you confirm.
+          </DialogDescription>
+        </DialogHeader>
+
+        {previewMutation.isPending ? (
+          <div className="flex items-center justify-center py-12 text-muted-foreground">
+            <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+            Reading the submission instructions...
+          </div>
+        ) : rows.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <ListTree className="h-12 w-12 mx-auto mb-3 opacity-30" />
+            <p className="font-medium">No submission instructions found</p>
+            <p className="text-sm">Analyze the RFP first, or add Section L requirements by hand</p>
+          </div>
+        ) : (
+          <ScrollArea className="max-h-[55vh] pr-3">
+            <div className="space-y-2">
+              {rows.map((row, index) => (
+                <div
+                  key={`${row.referenceNumber ?? "none"}-${index}`}
+                  className="flex items-start gap-3 rounded-md border p-3"
+                  style={{ marginLeft: `${row.depth * 1.5}rem` }}
+                  data-testid={`outline-row-${index}`}
+                >
+                  <Checkbox
+                    checked={row.include}
+                    onCheckedChange={(checked) => updateRow(index, { include: checked === true })}
+                    className="mt-2 shrink-0"
+                    data-testid={`checkbox-outline-${index}`}
+                  />
+                  <div className="flex-1 min-w-0 space-y-2">
+                    <Input
+                      value={row.title}
+                      onChange={(e) => updateRow(index, { title: e.target.value })}
+                      disabled={row.existingSectionId !== null}
+                      data-testid={`input-outline-title-${index}`}
+                    />
+                    <div className="flex items-center gap-2 flex-wrap">
+                      {row.referenceNumber && (
+                        <Badge variant="secondary" className="text-xs font-mono">{row.referenceNumber}</Badge>
+                      )}
+                      <Badge variant="outline" className="text-xs">
+                        {row.requirementIds.length} requirement{row.requirementIds.length === 1 ? "" : "s"}
+                      </Badge>
+                      {row.pageLimit && (
+                        <Badge variant="outline" className="text-xs">{row.pageLimit} page limit</Badge>
+                      )}
+                      {row.existingSectionId !== null && (
+                        <Badge variant="outline" className="text-xs" title="A section with this title exists; it will only be linked">
+                          Already in response
+                        </Badge>
+                      )}
+                      {!row.suggested && (
+                        <span className="text-xs text-muted-foreground">Delivery instructions only</span>
+                      )}
+                    </div>
+                  </div>
+                  {seedTemplates && row.existingSectionId === null && (
+                    <Select
+                      value={row.templateId?.toString() ?? "none"}
+                      onValueChange={(value) => updateRow(index, { templateId: value === "none" ? null : parseInt(value) })}
+                    >
+                      <SelectTrigger className="w-44 shrink-0" data-testid={`select-outline-template-${index}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No template</SelectItem>
+                        {templates.map(template => (
+                          <SelectItem key={template.id} value={template.id.toString()}>{template.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        <div className="flex items-center justify-between gap-2">
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={seedTemplates}
+              onCheckedChange={(checked) => setSeedTemplates(checked === true)}
+              data-testid="checkbox-seed-templates"
+            />
+            Seed from matching templates
+          </label>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => applyMutation.mutate()}
+              disabled={included.length === 0 || included.some(row => !row.title.trim()) || applyMutation.isPending}
+              data-testid="button-apply-outline"
+            >
+              {applyMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Create {newCount} section{newCount === 1 ? "" : "s"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
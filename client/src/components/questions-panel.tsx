@@ -0,0 +1,513 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import {
+  ArrowDown,
+  ArrowUp,
+  Download,
+  Edit,
+  FileInput,
+  Loader2,
+  MessageCircleQuestion,
+  Plus,
+  Send,
+  Trash2,
+} from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
+import { canEditQuestion } from "@shared/permissions";
+import { AnswerImportDialog } from "./answer-import";
+import {
+  questionExportColumns,
+  questionExportFormats,
+  type QuestionExportColumn,
+  type QuestionExportFormat,
+  type QuestionStatus,
+  type Requirement,
+  type RfpQuestion,
+} from "@shared/schema";
+
+const statusStyles: Record<QuestionStatus, string> = {
+  pending: "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300",
+  submitted: "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300",
+  answered: "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300",
+};
+
+const columnLabels: Record<QuestionExportColumn, string> = {
+  number: "#",
+  reference: "RFP Reference",
+  page: "Page",
+  requirement: "Requirement",
+  question: "Question",
+};
+
+const formatLabels: Record<QuestionExportFormat, string> = {
+  xlsx: "Excel (.xlsx)",
+  csv: "CSV",
+  txt: "Plain text (for email or letter)",
+};
+
+export function requirementLabel(requirement: Pick<Requirement, "referenceNumber" | "section" | "text">): string {
+  const text = requirement.text.length > 70 ? `${requirement.text.slice(0, 70)}...` : requirement.text;
+  const reference = requirement.referenceNumber || requirement.section;
+  return reference ? `${reference} – ${text}` : text;
+}
+
+const questionSchema = z.object({
+  question: z.string().trim().min(1, "Question is required"),
+  requirementId: z.string(),
+  rfpReference: z.string().max(50).optional(),
+});
+
+type QuestionFormData = z.infer<typeof questionSchema>;
+
+function invalidateQuestions(rfpId: number) {
+  queryClient.invalidateQueries({ queryKey: ["/api/rfps", rfpId.toString(), "questions"] });
+}
+
+interface QuestionsPanelProps {
+  rfpId: number;
+  questions: RfpQuestion[];
+  requirements: Requirement[];
+  isLoading: boolean;
+}
+
+export function QuestionsPanel({ rfpId, questions, requirements, isLoading }: QuestionsPanelProps) {
+  const { toast } = useToast();
+  const { user, isPM } = useAuth();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingQuestion, setEditingQuestion] = useState<RfpQuestion | null>(null);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<string>("all");
+
+  const form = useForm<QuestionFormData>({
+    resolver: zodResolver(questionSchema),
+    defaultValues: { question: "", requirementId: "none", rfpReference: "" },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: QuestionFormData) => {
+      const payload = {
+        question: data.question.trim(),
+        requirementId: data.requirementId === "none" ? null : parseInt(data.requirementId),
+        rfpReference: data.rfpReference?.trim() || null,
+      };
+      const res = editingQuestion
+        ? await apiRequest("PATCH", `/api/questions/${editingQuestion.id}`, payload)
+        : await apiRequest("POST", `/api/rfps/${rfpId}/questions`, payload);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateQuestions(rfpId);
+      setDialogOpen(false);
+      toast({ title: editingQuestion ? "Question updated" : "Question added" });
+      setEditingQuestion(null);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to save question", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/questions/${id}`);
+    },
+    onSuccess: () => {
+      invalidateQuestions(rfpId);
+      toast({ title: "Question deleted" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to delete question", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const pending = questions.filter(q => q.status === "pending");
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/rfps/${rfpId}/questions/submit`, {
+        questionIds: pending.map(q => q.id),
+      });
+      return res.json() as Promise<RfpQuestion[]>;
+    },
+    onSuccess: (submitted) => {
+      invalidateQuestions(rfpId);
+      toast({ title: `${submitted.length} question${submitted.length === 1 ? "" : "s"} marked submitted` });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to mark questions submitted", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const handleOpenDialog = (question?: RfpQuestion) => {
+    setEditingQuestion(question ?? null);
+    form.reset(question
+      ? {
+          question: question.question,
+          requirementId: question.requirementId?.toString() ?? "none",
+          rfpReference: question.rfpReference || "",
+        }
+      : { question: "", requirementId: "none", rfpReference: "" });
+    setDialogOpen(true);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {[1, 2, 3].map((i) => (
+          <Skeleton key={i} className="h-20 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  const filtered = questions.filter(q => statusFilter === "all" || q.status === statusFilter);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4 flex-wrap">
+        <div>
+          <h2 className="font-semibold">Questions &amp; Answers</h2>
+          <p className="text-sm text-muted-foreground">
+            {pending.length} pending, {questions.filter(q => q.status === "submitted").length} awaiting an answer,{" "}
+            {questions.filter(q => q.status === "answered").length} answered
+          </p>
+        </div>
+        <div className="flex items-center gap-2 flex-wrap">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-[140px]" data-testid="select-question-status-filter">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All questions</SelectItem>
+              <SelectItem value="pending">Pending</SelectItem>
+              <SelectItem value="submitted">Submitted</SelectItem>
+              <SelectItem value="answered">Answered</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            onClick={() => setExportOpen(true)}
+            disabled={pending.length === 0}
+            data-testid="button-export-questions"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Export Pending
+          </Button>
+          {isPM && (
+            <Button variant="outline" onClick={() => setImportOpen(true)} data-testid="button-import-answers">
+              <FileInput className="h-4 w-4 mr-2" />
+              Import Answers
+            </Button>
+          )}
+          <Button onClick={() => handleOpenDialog()} data-testid="button-add-question">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Question
+          </Button>
+        </div>
+      </div>
+
+      {filtered.length === 0 ? (
+        <Card>
+          <CardContent className="p-12 text-center text-muted-foreground">
+            <MessageCircleQuestion className="h-12 w-12 mx-auto mb-3 opacity-30" />
+            <p className="font-medium">No questions yet</p>
+            <p className="text-sm">
+              {questions.length === 0
+                ? "Log clarification questions for the contracting officer here"
+                : "Try a different status filter"}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-2">
+          {filtered.map((question) => {
+            const requirement = requirements.find(r => r.id === question.requirementId);
+            const editable = canEditQuestion(user, question);
+            return (
+              <Card key={question.id} data-testid={`question-${question.id}`}>
+                <CardContent className="p-4 flex items-start gap-3">
+                  <span className="font-mono text-sm text-muted-foreground w-8 shrink-0">#{question.number}</span>
+                  <div className="flex-1 min-w-0 space-y-2">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <Badge className={`text-xs capitalize ${statusStyles[question.status as QuestionStatus] || ""}`}>
+                        {question.status}
+                      </Badge>
+                      {(question.rfpReference || requirement?.referenceNumber) && (
+                        <Badge variant="secondary" className="text-xs font-mono">
+                          {question.rfpReference || requirement?.referenceNumber}
+                        </Badge>
+                      )}
+                      {question.source === "agency" && (
+                        <Badge variant="outline" className="text-xs" title="Asked by another offeror; logged from the agency's published answers">
+                          From published Q&amp;A
+                        </Badge>
+                      )}
+                      {question.requirementAction && (
+                        <Badge variant="outline" className="text-xs capitalize" data-testid={`badge-question-action-${question.id}`}>
+                          Requirement {question.requirementAction}
+                        </Badge>
+                      )}
+                      {question.submittedAt && (
+                        <span className="text-xs text-muted-foreground">
+                          Submitted {new Date(question.submittedAt).toLocaleDateString([], { dateStyle: "medium" })}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm leading-relaxed" data-testid={`question-text-${question.id}`}>{question.question}</p>
+                    {requirement && (
+                      <p className="text-xs text-muted-foreground border-l-2 pl-2">{requirementLabel(requirement)}</p>
+                    )}
+                    {question.answer && (
+                      <div className="rounded-md bg-muted/50 p-3" data-testid={`question-answer-${question.id}`}>
+                        <p className="text-xs font-medium text-muted-foreground mb-1">Agency answer</p>
+                        <p className="text-sm leading-relaxed">{question.answer}</p>
+                      </div>
+                    )}
+                  </div>
+                  {editable && (
+                    <div className="flex items-center gap-1 shrink-0">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleOpenDialog(question)}
+                        data-testid={`button-edit-question-${question.id}`}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteMutation.mutate(question.id)}
+                        disabled={deleteMutation.isPending}
+                        data-testid={`button-delete-question-${question.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingQuestion ? "Edit Question" : "Add Question"}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="question"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Question</FormLabel>
+                    <FormControl>
+                      <Textarea rows={4} data-testid="input-question-text" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="requirementId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Related requirement</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-question-requirement">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent className="max-w-lg">
+                        <SelectItem value="none">None</SelectItem>
+                        {requirements.map(requirement => (
+                          <SelectItem key={requirement.id} value={requirement.id.toString()}>
+                            {requirementLabel(requirement)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="rfpReference"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>RFP reference (optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Defaults to the requirement's paragraph" data-testid="input-question-reference" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-question">
+                  {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {editingQuestion ? "Save" : "Add"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <ExportQuestionsDialog
+        rfpId={rfpId}
+        pendingCount={pending.length}
+        open={exportOpen}
+        onOpenChange={setExportOpen}
+        onMarkSubmitted={isPM ? () => submitMutation.mutate() : undefined}
+        isSubmitting={submitMutation.isPending}
+      />
+      <AnswerImportDialog
+        rfpId={rfpId}
+        questions={questions}
+        requirements={requirements}
+        open={importOpen}
+        onOpenChange={setImportOpen}
+      />
+    </div>
+  );
+}
+
+interface ExportQuestionsDialogProps {
+  rfpId: number;
+  pendingCount: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onMarkSubmitted?: () => void;
+  isSubmitting: boolean;
+}
+
+// Agencies usually prescribe the layout for questions; pick the file type and the columns in order
+function ExportQuestionsDialog({ rfpId, pendingCount, open, onOpenChange, onMarkSubmitted, isSubmitting }: ExportQuestionsDialogProps) {
+  const [format, setFormat] = useState<QuestionExportFormat>("xlsx");
+  const [columns, setColumns] = useState<QuestionExportColumn[]>([...questionExportColumns]);
+
+  const toggleColumn = (column: QuestionExportColumn, checked: boolean) => {
+    setColumns(prev => (checked
+      ? questionExportColumns.filter(c => prev.includes(c) || c === column)
+      : prev.filter(c => c !== column)));
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    setColumns(prev => {
+      const next = [...prev];
+      const [column] = next.splice(index, 1);
+      next.splice(index + offset, 0, column);
+      return next;
+    });
+  };
+
+  const unused = questionExportColumns.filter(c => !columns.includes(c));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export Pending Questions</DialogTitle>
+          <DialogDescription>
+            {pendingCount} question{pendingCount === 1 ? "" : "s"} not yet sent to the agency.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Format</p>
+            <Select value={format} onValueChange={(value) => setFormat(value as QuestionExportFormat)}>
+              <SelectTrigger data-testid="select-question-export-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {questionExportFormats.map(f => (
+                  <SelectItem key={f} value={f}>{formatLabels[f]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Columns</p>
+            {columns.map((column, index) => (
+              <div key={column} className="flex items-center gap-2">
+                <Checkbox checked onCheckedChange={() => toggleColumn(column, false)} disabled={columns.length === 1} />
+                <span className="text-sm flex-1">{columnLabels[column]}</span>
+                <Button variant="ghost" size="icon" onClick={() => moveColumn(index, -1)} disabled={index === 0}>
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => moveColumn(index, 1)} disabled={index === columns.length - 1}>
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            {unused.map(column => (
+              <div key={column} className="flex items-center gap-2 opacity-60">
+                <Checkbox checked={false} onCheckedChange={() => toggleColumn(column, true)} />
+                <span className="text-sm">{columnLabels[column]}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+        <div className="flex items-center justify-between gap-2">
+          {onMarkSubmitted ? (
+            <Button variant="outline" onClick={onMarkSubmitted} disabled={pendingCount === 0 || isSubmitting} data-testid="button-mark-questions-submitted">
+              {isSubmitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+              Mark as submitted
+            </Button>
+          ) : <span />}
+          <Button asChild data-testid="button-download-questions">
+            <a href={`/api/rfps/${rfpId}/questions/export?format=${format}&columns=${columns.join(",")}`} download>
+              <Download className="h-4 w-4 mr-2" />
+              Download
+            </a>
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
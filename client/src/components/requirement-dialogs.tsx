@@ -0,0 +1,339 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
+import { requirementPriorities, type Requirement } from "@shared/schema";
+
+// Text selected in the document viewer, with its offsets into the document content
+export interface DocumentSelection {
+  text: string;
+  highlightStart: number;
+  highlightEnd: number;
+  attachmentId: number | null; // null for the RFP's main document
+}
+
+const requirementFormSchema = z.object({
+  text: z.string().trim().min(1, "Requirement text is required"),
+  section: z.string().optional(),
+  referenceNumber: z.string().max(50).optional(),
+  priority: z.enum(requirementPriorities),
+});
+
+type RequirementFormData = z.infer<typeof requirementFormSchema>;
+
+function invalidateRequirements(rfpId: number) {
+  queryClient.invalidateQueries({ queryKey: ["/api/rfps", rfpId.toString(), "requirements"] });
+}
+
+interface RequirementDialogProps {
+  rfpId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  requirement?: Requirement | null;
+  selection?: DocumentSelection | null;
+}
+
+// Adds or edits a requirement. Created from a selection, the text is fixed so its offsets stay exact.
+export function RequirementDialog({ rfpId, open, onOpenChange, requirement, selection }: RequirementDialogProps) {
+  const { toast } = useToast();
+  const form = useForm<RequirementFormData>({
+    resolver: zodResolver(requirementFormSchema),
+    defaultValues: { text: "", section: "", referenceNumber: "", priority: "medium" },
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    form.reset({
+      text: requirement?.text ?? selection?.text ?? "",
+      section: requirement?.section ?? "",
+      referenceNumber: requirement?.referenceNumber ?? "",
+      priority: (requirement?.priority as RequirementFormData["priority"]) ?? "medium",
+    });
+  }, [open, requirement, selection]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: RequirementFormData) => {
+      const payload = {
+        text: data.text.trim(),
+        section: data.section?.trim() || null,
+        referenceNumber: data.referenceNumber?.trim() || null,
+        priority: data.priority,
+        ...(selection
+          ? { highlightStart: selection.highlightStart, highlightEnd: selection.highlightEnd, attachmentId: selection.attachmentId }
+          : {}),
+      };
+      const res = requirement
+        ? await apiRequest("PATCH", `/api/requirements/${requirement.id}`, payload)
+        : await apiRequest("POST", `/api/rfps/${rfpId}/requirements`, payload);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateRequirements(rfpId);
+      onOpenChange(false);
+      toast({ title: requirement ? "Requirement updated" : "Requirement added" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to save requirement", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{requirement ? "Edit Requirement" : "Add Requirement"}</DialogTitle>
+          <DialogDescription>
+            {selection
+              ? "The requirement will be linked to the text you selected in the document."
+              : "Requirements added or edited by hand are kept when the RFP is re-analyzed."}
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="text"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Requirement</FormLabel>
+                  <FormControl>
+                    <Textarea rows={5} readOnly={!!selection} data-testid="input-requirement-text" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="referenceNumber"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Reference</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Found automatically" data-testid="input-requirement-reference" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="section"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Section</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Technical Requirements" data-testid="input-requirement-section" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="priority"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Priority</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-requirement-priority">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {requirementPriorities.map(priority => (
+                          <SelectItem key={priority} value={priority} className="capitalize">{priority}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-requirement">
+                {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {requirement ? "Save" : "Add"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface SplitRequirementDialogProps {
+  rfpId: number;
+  requirement: Requirement | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// One part per paragraph; parts copied from the original text keep exact highlights
+export function SplitRequirementDialog({ rfpId, requirement, onOpenChange }: SplitRequirementDialogProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState("");
+
+  useEffect(() => {
+    if (!requirement) return;
+    // Start with one sentence per part, which is how most compound requirements divide
+    setDraft(requirement.text.replace(/([.;])\s+(?=[A-Z(])/g, "$1\n\n"));
+  }, [requirement]);
+
+  const parts = draft.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+
+  const splitMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/requirements/${requirement!.id}/split`, { parts });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateRequirements(rfpId);
+      onOpenChange(false);
+      toast({ title: `Split into ${parts.length} requirements` });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to split requirement", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={!!requirement} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Split Requirement</DialogTitle>
+          <DialogDescription>
+            Separate the parts with a blank line. Each part becomes its own requirement with the same section, priority, status and linked sections.
+          </DialogDescription>
+        </DialogHeader>
+        <Textarea
+          rows={10}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          data-testid="input-split-parts"
+        />
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-muted-foreground">{parts.length} part{parts.length === 1 ? "" : "s"}</span>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => splitMutation.mutate()}
+              disabled={parts.length < 2 || splitMutation.isPending}
+              data-testid="button-confirm-split"
+            >
+              {splitMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Split
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface MergeRequirementsDialogProps {
+  rfpId: number;
+  requirements: Requirement[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onMerged: () => void;
+}
+
+// Duplicates fold into the first requirement picked; its text defaults to the longest of them
+export function MergeRequirementsDialog({ rfpId, requirements, open, onOpenChange, onMerged }: MergeRequirementsDialogProps) {
+  const { toast } = useToast();
+  const [text, setText] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setText(requirements.reduce((longest, r) => (r.text.length > longest.length ? r.text : longest), ""));
+  }, [open]);
+
+  const mergeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/rfps/${rfpId}/requirements/merge`, {
+        requirementIds: requirements.map(r => r.id),
+        text,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateRequirements(rfpId);
+      onOpenChange(false);
+      onMerged();
+      toast({ title: `Merged ${requirements.length} requirements` });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to merge requirements", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Merge {requirements.length} Requirements</DialogTitle>
+          <DialogDescription>
+            The merged requirement keeps the highest priority and every linked section. Edit the wording below.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2 max-h-48 overflow-y-auto">
+          {requirements.map(r => (
+            <p key={r.id} className="text-xs text-muted-foreground border-l-2 pl-2">{r.text}</p>
+          ))}
+        </div>
+        <Textarea rows={5} value={text} onChange={(e) => setText(e.target.value)} data-testid="input-merge-text" />
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => mergeMutation.mutate()}
+            disabled={!text.trim() || requirements.length < 2 || mergeMutation.isPending}
+            data-testid="button-confirm-merge"
+          >
+            {mergeMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Merge
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,13 +4,40 @@ import {
   CheckCircle2, 
   Circle, 
   AlertCircle,
+  AlertTriangle,
   ArrowRight,
+  Archive,
+  ChevronDown,
+  ChevronRight,
+  Download,
+  FileDiff,
   Filter,
+  Flag,
+  Link2,
+  Loader2,
+  SearchCheck,
+  MoreVertical,
+  Plus,
+  Edit,
+  Scissors,
+  Merge,
+  Trash2,
+  X,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import {
   Select,
   SelectContent,
@@ -18,11 +45,27 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Requirement } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
+import { CoverageReview } from "./coverage-review";
+import { MergeRequirementsDialog, RequirementDialog, SplitRequirementDialog } from "./requirement-dialogs";
+import { buildOutline, flattenOutline } from "@shared/outline";
+import type {
+  CoverageCheckResult,
+  CoverageMode,
+  Requirement,
+  RequirementWithSections,
+  ResponseSection,
+  RfpQuestion,
+} from "@shared/schema";
 
 interface RequirementsPanelProps {
-  requirements: Requirement[];
+  rfpId: number;
+  requirements: RequirementWithSections[];
+  sections: ResponseSection[];
+  retiredRequirements?: Requirement[];
+  questions?: RfpQuestion[];
   isLoading: boolean;
   onRequirementClick: (req: Requirement) => void;
 }
@@ -33,15 +76,40 @@ const priorityColors: Record<string, string> = {
   low: "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300",
 };
 
+const coverageModeOptions: { mode: CoverageMode; label: string; description: string }[] = [
+  { mode: "llm", label: "AI review", description: "Model reads each section; falls back to keywords if unavailable" },
+  { mode: "keywords", label: "Keyword overlap", description: "Matches each requirement's key terms, no AI" },
+];
+
 const statusIcons: Record<string, React.ElementType> = {
   pending: Circle,
   addressed: CheckCircle2,
   skipped: AlertCircle,
 };
 
-export function RequirementsPanel({ requirements, isLoading, onRequirementClick }: RequirementsPanelProps) {
+export function RequirementsPanel({
+  rfpId,
+  requirements,
+  sections,
+  retiredRequirements = [],
+  questions = [],
+  isLoading,
+  onRequirementClick,
+}: RequirementsPanelProps) {
+  const { toast } = useToast();
+  const { isPM } = useAuth();
   const [priorityFilter, setPriorityFilter] = useState<string>("all");
   const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [showRetired, setShowRetired] = useState(false);
+  const [coverage, setCoverage] = useState<CoverageCheckResult | null>(null);
+  const [editDialogOpen, setEditDialogOpen] = useState(false);
+  const [editingRequirement, setEditingRequirement] = useState<Requirement | null>(null);
+  const [splitting, setSplitting] = useState<Requirement | null>(null);
+  // Ids picked for merging, in the order they were picked; null when not in merge mode
+  const [mergeSelection, setMergeSelection] = useState<number[] | null>(null);
+  const [mergeDialogOpen, setMergeDialogOpen] = useState(false);
+  // Requirements whose children are hidden in the outline
+  const [collapsed, setCollapsed] = useState<Set<number>>(new Set());
 
   const updateStatusMutation = useMutation({
     mutationFn: async ({ id, status }: { id: number; status: string }) => {
@@ -53,17 +121,108 @@ export function RequirementsPanel({ requirements, isLoading, onRequirementClick
     },
   });
 
+  // Anyone who has reviewed the agency's answer or amendment against the requirement can clear the flag
+  const clearFlagMutation = useMutation({
+    mutationFn: async ({ id, flag }: { id: number; flag: "flaggedByQuestionId" | "documentChange" }) => {
+      const res = await apiRequest("PATCH", `/api/requirements/${id}`, { [flag]: null });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rfps", rfpId.toString(), "requirements"] });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to clear flag", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const linkMutation = useMutation({
+    mutationFn: async ({ id, sectionIds }: { id: number; sectionIds: number[] }) => {
+      const res = await apiRequest("PUT", `/api/requirements/${id}/sections`, { sectionIds });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rfps", rfpId.toString(), "requirements"] });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to link sections", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const coverageMutation = useMutation({
+    mutationFn: async (mode: CoverageMode) => {
+      const res = await apiRequest("POST", `/api/rfps/${rfpId}/coverage-check`, { mode });
+      return res.json() as Promise<CoverageCheckResult>;
+    },
+    onSuccess: (result) => {
+      setCoverage(result);
+    },
+    onError: (error) => {
+      toast({ title: "Coverage check failed", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/requirements/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rfps", rfpId.toString(), "requirements"] });
+      toast({ title: "Requirement deleted" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to delete requirement", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const openEditDialog = (req: Requirement | null) => {
+    setEditingRequirement(req);
+    setEditDialogOpen(true);
+  };
+
+  const toggleMergePick = (id: number, checked: boolean) => {
+    setMergeSelection(prev => {
+      const picked = prev || [];
+      return checked ? [...picked, id] : picked.filter(p => p !== id);
+    });
+  };
+
+  const mergeRequirements = (mergeSelection || [])
+    .map(id => requirements.find(r => r.id === id))
+    .filter((r): r is RequirementWithSections => !!r);
+
+  const toggleSection = (req: RequirementWithSections, sectionId: number, checked: boolean) => {
+    const sectionIds = checked
+      ? [...req.sectionIds, sectionId]
+      : req.sectionIds.filter(id => id !== sectionId);
+    linkMutation.mutate({ id: req.id, sectionIds });
+  };
+
   const filteredRequirements = requirements.filter(req => {
     const matchesPriority = priorityFilter === "all" || req.priority === priorityFilter;
     const matchesStatus = statusFilter === "all" || req.status === statusFilter;
     return matchesPriority && matchesStatus;
   });
 
+  // Filtering keeps the outline: a requirement whose parent is filtered out moves up to the top level
+  const outline = buildOutline(filteredRequirements);
+  const visibleRows = flattenOutline(outline, req => collapsed.has(req.id));
+  const isNested = outline.some(node => node.children.length > 0);
+
+  const toggleCollapsed = (id: number) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
   const stats = {
     total: requirements.length,
     addressed: requirements.filter(r => r.status === "addressed").length,
     pending: requirements.filter(r => r.status === "pending").length,
     high: requirements.filter(r => r.priority === "high").length,
+    unlinked: requirements.filter(r => r.sectionIds.length === 0).length,
   };
 
   if (isLoading) {
@@ -106,7 +265,7 @@ export function RequirementsPanel({ requirements, isLoading, onRequirementClick
         </Card>
       </div>
 
-      <div className="flex items-center gap-3">
+      <div className="flex items-center gap-3 flex-wrap">
         <Filter className="h-4 w-4 text-muted-foreground" />
         <Select value={priorityFilter} onValueChange={setPriorityFilter}>
           <SelectTrigger className="w-[140px]" data-testid="select-priority-filter">
@@ -130,8 +289,111 @@ export function RequirementsPanel({ requirements, isLoading, onRequirementClick
             <SelectItem value="skipped">Skipped</SelectItem>
           </SelectContent>
         </Select>
+        {requirements.length > 0 && (
+          <span className="text-sm text-muted-foreground" data-testid="text-unlinked-count">
+            {stats.unlinked} not linked to a response section
+          </span>
+        )}
+        <div className="flex-1" />
+        {isPM && (
+          mergeSelection ? (
+            <>
+              <Button
+                size="sm"
+                onClick={() => setMergeDialogOpen(true)}
+                disabled={mergeRequirements.length < 2}
+                data-testid="button-merge-selected"
+              >
+                <Merge className="h-4 w-4 mr-2" />
+                Merge {mergeRequirements.length}
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setMergeSelection(null)} data-testid="button-cancel-merge">
+                <X className="h-4 w-4" />
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setMergeSelection([])}
+                disabled={requirements.length < 2}
+                data-testid="button-start-merge"
+              >
+                <Merge className="h-4 w-4 mr-2" />
+                Merge
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => openEditDialog(null)} data-testid="button-add-requirement">
+                <Plus className="h-4 w-4 mr-2" />
+                Add
+              </Button>
+            </>
+          )
+        )}
+        {isPM && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={stats.pending === 0 || sections.length === 0 || coverageMutation.isPending}
+                data-testid="button-check-coverage"
+              >
+                {coverageMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <SearchCheck className="h-4 w-4 mr-2" />
+                )}
+                Check Coverage
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-72">
+              {coverageModeOptions.map(option => (
+                <DropdownMenuItem
+                  key={option.mode}
+                  onClick={() => coverageMutation.mutate(option.mode)}
+                  className="flex flex-col items-start"
+                  data-testid={`menu-coverage-${option.mode}`}
+                >
+                  <span className="font-medium">{option.label}</span>
+                  <span className="text-xs text-muted-foreground">{option.description}</span>
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={requirements.length === 0} data-testid="button-export-matrix">
+              <Download className="h-4 w-4 mr-2" />
+              Compliance Matrix
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem asChild>
+              <a href={`/api/rfps/${rfpId}/compliance-matrix?format=xlsx`} download data-testid="menu-export-matrix-xlsx">
+                Export as Excel (.xlsx)
+              </a>
+            </DropdownMenuItem>
+            <DropdownMenuItem asChild>
+              <a href={`/api/rfps/${rfpId}/compliance-matrix?format=csv`} download data-testid="menu-export-matrix-csv">
+                Export as CSV
+              </a>
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
       </div>
 
+      {coverage && (
+        <CoverageReview
+          rfpId={rfpId}
+          result={coverage}
+          requirements={requirements}
+          sections={sections}
+          onClose={() => setCoverage(null)}
+        />
+      )}
+
       {filteredRequirements.length === 0 ? (
         <Card>
           <CardContent className="p-12 text-center text-muted-foreground">
@@ -146,12 +408,41 @@ export function RequirementsPanel({ requirements, isLoading, onRequirementClick
         </Card>
       ) : (
         <div className="space-y-3">
-          {filteredRequirements.map((req) => {
+          {visibleRows.map(({ item: req, depth, children }) => {
             const StatusIcon = statusIcons[req.status || "pending"];
+            const linkedSections = sections.filter(s => req.sectionIds.includes(s.id));
+            const flaggedBy = questions.find(q => q.id === req.flaggedByQuestionId);
             return (
-              <Card key={req.id} className="hover-elevate transition-all">
+              <Card
+                key={req.id}
+                className="hover-elevate transition-all"
+                style={{ marginLeft: `${depth * 1.5}rem` }}
+                data-testid={`requirement-row-${req.id}`}
+              >
                 <CardContent className="p-4">
                   <div className="flex items-start gap-3">
+                    {isNested && (
+                      children.length > 0 ? (
+                        <button
+                          onClick={() => toggleCollapsed(req.id)}
+                          className="mt-0.5 shrink-0 text-muted-foreground"
+                          title={collapsed.has(req.id) ? `Show ${children.length} nested` : "Hide nested"}
+                          data-testid={`button-toggle-children-${req.id}`}
+                        >
+                          {collapsed.has(req.id) ? <ChevronRight className="h-5 w-5" /> : <ChevronDown className="h-5 w-5" />}
+                        </button>
+                      ) : (
+                        <span className="w-5 shrink-0" />
+                      )
+                    )}
+                    {mergeSelection && (
+                      <Checkbox
+                        checked={mergeSelection.includes(req.id)}
+                        onCheckedChange={(checked) => toggleMergePick(req.id, checked === true)}
+                        className="mt-0.5 shrink-0"
+                        data-testid={`checkbox-merge-${req.id}`}
+                      />
+                    )}
                     <button
                       onClick={() => updateStatusMutation.mutate({ 
                         id: req.id, 
@@ -170,19 +461,191 @@ export function RequirementsPanel({ requirements, isLoading, onRequirementClick
                     </button>
                     <div className="flex-1 min-w-0">
                       <div className="flex items-center gap-2 mb-1.5 flex-wrap">
-                        {req.section && (
+                        {req.referenceNumber && (
+                          <Badge variant="secondary" className="text-xs font-mono" data-testid={`badge-reference-${req.id}`}>
+                            {req.referenceNumber}
+                          </Badge>
+                        )}
+                        {req.section && req.section !== req.referenceNumber && (
                           <Badge variant="outline" className="text-xs">
                             {req.section}
                           </Badge>
                         )}
+                        {collapsed.has(req.id) && children.length > 0 && (
+                          <span className="text-xs text-muted-foreground">+{children.length} nested</span>
+                        )}
                         <Badge className={`text-xs ${priorityColors[req.priority || "medium"]}`}>
                           {req.priority}
                         </Badge>
+                        {req.source === "manual" && (
+                          <Badge
+                            variant="outline"
+                            className="text-xs"
+                            title="Added or edited by hand; re-analysis leaves it as is"
+                            data-testid={`badge-manual-${req.id}`}
+                          >
+                            Manual
+                          </Badge>
+                        )}
+                        {req.source === "rules" && (
+                          <Badge
+                            variant="outline"
+                            className="text-xs"
+                            title={req.crossCheck === "rules_only"
+                              ? "Found by rule-based extraction but missed by the AI"
+                              : "Found by rule-based extraction rather than the AI"}
+                            data-testid={`badge-rules-${req.id}`}
+                          >
+                            Rules
+                          </Badge>
+                        )}
+                        {req.crossCheck === "both" && (
+                          <Badge
+                            variant="outline"
+                            className="text-xs border-green-300 text-green-700 dark:border-green-700 dark:text-green-300"
+                            title="Found by both the AI and rule-based extraction"
+                            data-testid={`badge-cross-check-${req.id}`}
+                          >
+                            AI + rules
+                          </Badge>
+                        )}
+                        {req.crossCheck === "llm_only" && (
+                          <Badge
+                            variant="outline"
+                            className="text-xs"
+                            title="Found by the AI but not by rule-based extraction; worth checking against the document"
+                            data-testid={`badge-cross-check-${req.id}`}
+                          >
+                            AI only
+                          </Badge>
+                        )}
+                        {req.matchQuality === "not_found" && req.documentChange !== "removed" && (
+                          <Badge
+                            variant="outline"
+                            className="text-xs border-amber-300 text-amber-700 dark:border-amber-700 dark:text-amber-300"
+                            title="This text could not be found in the RFP document and may have been invented by the AI"
+                            data-testid={`badge-not-found-${req.id}`}
+                          >
+                            <AlertTriangle className="h-3 w-3 mr-1" />
+                            Not found in document
+                          </Badge>
+                        )}
+                        {req.documentChange && (
+                          <Badge
+                            variant="outline"
+                            className="text-xs gap-1 border-purple-300 text-purple-700 dark:border-purple-700 dark:text-purple-300"
+                            title={req.documentChange === "removed"
+                              ? "This text is no longer in the current document version"
+                              : "The wording of this text changed in the current document version"}
+                            data-testid={`badge-document-change-${req.id}`}
+                          >
+                            <FileDiff className="h-3 w-3" />
+                            {req.documentChange === "removed" ? "Removed" : "Changed"} in v{req.documentChangeVersion}
+                            <button
+                              onClick={() => clearFlagMutation.mutate({ id: req.id, flag: "documentChange" })}
+                              disabled={clearFlagMutation.isPending}
+                              title="Mark as reviewed"
+                              data-testid={`button-clear-document-change-${req.id}`}
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          </Badge>
+                        )}
+                        {req.flaggedByQuestionId !== null && (
+                          <Badge
+                            variant="outline"
+                            className="text-xs gap-1 border-blue-300 text-blue-700 dark:border-blue-700 dark:text-blue-300"
+                            title={flaggedBy?.answer ? `Agency answer: ${flaggedBy.answer}` : "An agency answer may change this requirement"}
+                            data-testid={`badge-flagged-${req.id}`}
+                          >
+                            <Flag className="h-3 w-3" />
+                            Changed by Q&amp;A{flaggedBy ? ` #${flaggedBy.number}` : ""}
+                            <button
+                              onClick={() => clearFlagMutation.mutate({ id: req.id, flag: "flaggedByQuestionId" })}
+                              disabled={clearFlagMutation.isPending}
+                              title="Mark as reviewed"
+                              data-testid={`button-clear-flag-${req.id}`}
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          </Badge>
+                        )}
                       </div>
                       <p className="text-sm leading-relaxed" data-testid={`requirement-text-${req.id}`}>
                         {req.text}
                       </p>
+                      {linkedSections.length > 0 && (
+                        <div className="flex items-center gap-1 flex-wrap mt-2" data-testid={`requirement-sections-${req.id}`}>
+                          <Link2 className="h-3 w-3 text-muted-foreground" />
+                          {linkedSections.map(section => (
+                            <Badge key={section.id} variant="secondary" className="text-xs font-normal">
+                              {section.title}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
                     </div>
+                    {isPM && (
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="shrink-0"
+                            title="Link response sections"
+                            data-testid={`button-link-sections-${req.id}`}
+                          >
+                            <Link2 className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end" className="w-64">
+                          <DropdownMenuLabel>Answered in sections</DropdownMenuLabel>
+                          <DropdownMenuSeparator />
+                          {sections.length === 0 ? (
+                            <p className="px-2 py-1.5 text-sm text-muted-foreground">No response sections yet</p>
+                          ) : (
+                            sections.map(section => (
+                              <DropdownMenuCheckboxItem
+                                key={section.id}
+                                checked={req.sectionIds.includes(section.id)}
+                                onCheckedChange={(checked) => toggleSection(req, section.id, checked === true)}
+                                onSelect={(e) => e.preventDefault()}
+                                disabled={linkMutation.isPending}
+                              >
+                                {section.title}
+                              </DropdownMenuCheckboxItem>
+                            ))
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    )}
+                    {isPM && (
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="sm" className="shrink-0" data-testid={`button-requirement-menu-${req.id}`}>
+                            <MoreVertical className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem onClick={() => openEditDialog(req)} data-testid={`menu-edit-requirement-${req.id}`}>
+                            <Edit className="h-4 w-4 mr-2" />
+                            Edit
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => setSplitting(req)} data-testid={`menu-split-requirement-${req.id}`}>
+                            <Scissors className="h-4 w-4 mr-2" />
+                            Split
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={() => deleteMutation.mutate(req.id)}
+                            className="text-destructive"
+                            data-testid={`menu-delete-requirement-${req.id}`}
+                          >
+                            <Trash2 className="h-4 w-4 mr-2" />
+                            Delete
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    )}
                     <Button
                       variant="ghost"
                       size="sm"
@@ -199,6 +662,62 @@ export function RequirementsPanel({ requirements, isLoading, onRequirementClick
           })}
         </div>
       )}
+
+      {retiredRequirements.length > 0 && (
+        <div className="space-y-3">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowRetired(!showRetired)}
+            className="text-muted-foreground"
+            data-testid="button-toggle-retired"
+          >
+            {showRetired ? <ChevronDown className="h-4 w-4 mr-1" /> : <ChevronRight className="h-4 w-4 mr-1" />}
+            Retired ({retiredRequirements.length})
+          </Button>
+          {showRetired && retiredRequirements.map((req) => (
+            <Card key={req.id} className="opacity-60" data-testid={`retired-requirement-${req.id}`}>
+              <CardContent className="p-4 flex items-start gap-3">
+                <Archive className="h-5 w-5 mt-0.5 shrink-0 text-muted-foreground" />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 mb-1.5 flex-wrap">
+                    {req.section && (
+                      <Badge variant="outline" className="text-xs">
+                        {req.section}
+                      </Badge>
+                    )}
+                    <Badge variant="outline" className="text-xs capitalize">
+                      {req.status}
+                    </Badge>
+                  </div>
+                  <p className="text-sm leading-relaxed line-through decoration-muted-foreground/50">
+                    {req.text}
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <RequirementDialog
+        rfpId={rfpId}
+        open={editDialogOpen}
+        onOpenChange={setEditDialogOpen}
+        requirement={editingRequirement}
+      />
+      <SplitRequirementDialog
+        rfpId={rfpId}
+        requirement={splitting}
+        onOpenChange={(open) => !open && setSplitting(null)}
+      />
+      <MergeRequirementsDialog
+        rfpId={rfpId}
+        requirements={mergeRequirements}
+        open={mergeDialogOpen}
+        onOpenChange={setMergeDialogOpen}
+        onMerged={() => setMergeSelection(null)}
+      />
     </div>
   );
 }
@@ -13,6 +13,10 @@ import {
   Upload,
   Download,
   Cloud,
+  Scale,
+  ListChecks,
+  ListTree,
+  History,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -35,69 +39,106 @@ import {
 } from "@/components/ui/dialog";
 import {
   DropdownMenu,
+  DropdownMenuCheckboxItem,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
-import { RichTextEditor } from "./rich-text-editor";
-import type { Response, ResponseSection, User as UserType, Template } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient, getApiErrorMessage, getApiErrorResponse } from "@/lib/queryClient";
+import { canEditSection } from "@shared/permissions";
+import { SUPPORTED_DOCUMENT_EXTENSIONS } from "@shared/documents";
+import { RichTextEditor, collaboratorColor } from "./rich-text-editor";
+import { formatWeight } from "./evaluation-criteria-panel";
+import { OutlineBuilderDialog } from "./outline-builder";
+import { SaveConflictDialog } from "./save-conflict-dialog";
+import { SectionHistory } from "./section-history";
+import type {
+  Response,
+  ResponseSection,
+  User as UserType,
+  Template,
+  EvaluationCriterionWithSections,
+  RequirementWithSections,
+} from "@shared/schema";
 
 interface ResponseEditorProps {
   rfpId: number;
   response?: Response & { sections: ResponseSection[] };
   users: UserType[];
+  criteria?: EvaluationCriterionWithSections[];
+  requirements?: RequirementWithSections[];
 }
 
-export function ResponseEditor({ rfpId, response, users }: ResponseEditorProps) {
+export function ResponseEditor({ rfpId, response, users, criteria = [], requirements = [] }: ResponseEditorProps) {
   const { toast } = useToast();
+  const { user, isPM } = useAuth();
   const [sections, setSections] = useState<ResponseSection[]>([]);
   const [templateDialogOpen, setTemplateDialogOpen] = useState(false);
+  const [outlineDialogOpen, setOutlineDialogOpen] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [conflict, setConflict] = useState<{ mine: ResponseSection[]; theirs: ResponseSection[] } | null>(null);
+  const [historySection, setHistorySection] = useState<ResponseSection | null>(null);
+  // Section titles as the server last had them, to tell local edits from changes saved by others
+  const savedTitles = useRef(new Map<number, string>());
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const currentUserId = "pm-user-id"; // This would come from auth context
-  const isPM = true; // This would come from auth context
+  const currentUserId = user?.id;
 
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  // Links are stored per requirement, so toggling one here rewrites that requirement's section list
+  const linkRequirementMutation = useMutation({
+    mutationFn: async ({ requirement, sectionId, linked }: { requirement: RequirementWithSections; sectionId: number; linked: boolean }) => {
+      const sectionIds = linked
+        ? [...requirement.sectionIds, sectionId]
+        : requirement.sectionIds.filter(id => id !== sectionId);
+      const res = await apiRequest("PUT", `/api/requirements/${requirement.id}/sections`, { sectionIds });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rfps", rfpId.toString(), "requirements"] });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to link requirement", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const importDraftMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("file", file);
+      const res = await apiRequest("POST", `/api/rfps/${rfpId}/response/import`, formData);
+      return res.json() as Promise<ResponseSection[]>;
+    },
+    onSuccess: (imported, file) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rfps", rfpId.toString(), "response"] });
+      toast({
+        title: "Draft imported",
+        description: `${imported.length} section${imported.length === 1 ? "" : "s"} created from ${file.name}`,
+      });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to import draft", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    e.target.value = "";
     if (!file) return;
 
-    if (file.type === "application/pdf" || file.name.endsWith(".pdf")) {
-      toast({ title: "PDF uploaded", description: "Content extracted and loaded into editor" });
-      const newSection: ResponseSection = {
-        id: Date.now(),
-        responseId: response?.id || 0,
-        title: file.name.replace(/\.[^.]+$/, ""),
-        content: `<p>[Content from ${file.name}]</p><p>In production, this would use a PDF parsing library to extract and format the document content.</p>`,
-        orderIndex: sections.length,
-        assignedUserId: null,
-        isLocked: false,
-        lockedByPmId: null,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
-      setSections([...sections, newSection]);
-    } else if (file.name.endsWith(".docx") || file.name.endsWith(".doc")) {
-      toast({ title: "Word document uploaded", description: "Content extracted and loaded into editor" });
-      const newSection: ResponseSection = {
-        id: Date.now(),
-        responseId: response?.id || 0,
-        title: file.name.replace(/\.[^.]+$/, ""),
-        content: `<p>[Content from ${file.name}]</p><p>In production, this would use a DOCX parsing library (mammoth.js) to extract and format the document content.</p>`,
-        orderIndex: sections.length,
-        assignedUserId: null,
-        isLocked: false,
-        lockedByPmId: null,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
-      setSections([...sections, newSection]);
-    } else {
-      toast({ title: "Unsupported file type", description: "Please upload a PDF or Word document", variant: "destructive" });
+    const ext = file.name.slice(file.name.lastIndexOf(".")).toLowerCase();
+    if (!SUPPORTED_DOCUMENT_EXTENSIONS.includes(ext)) {
+      toast({
+        title: "Unsupported file type",
+        description: `Please upload one of: ${SUPPORTED_DOCUMENT_EXTENSIONS.join(", ")}`,
+        variant: "destructive",
+      });
+      return;
     }
-    e.target.value = "";
+    importDraftMutation.mutate(file);
   };
 
   const exportAsWord = () => {
@@ -132,17 +173,33 @@ export function ResponseEditor({ rfpId, response, users }: ResponseEditorProps)
   useEffect(() => {
     if (response?.sections) {
       setSections(response.sections);
+      savedTitles.current = new Map(response.sections.map(s => [s.id, s.title]));
     }
   }, [response?.sections]);
 
+  // Live-edited sections hear about every save, their own typing included. The new version is taken
+  // unless both this editor and the save changed the title; then the old one stays, so saving brings
+  // up the conflict dialog instead of overwriting the other title.
+  const handleSectionSaved = useCallback((sectionId: number, saved: { version: number; title: string }) => {
+    const savedTitle = savedTitles.current.get(sectionId);
+    setSections(prev => prev.map(s => {
+      if (s.id !== sectionId || s.version >= saved.version) return s;
+      if (saved.title === savedTitle) return { ...s, version: saved.version };
+      if (s.title !== savedTitle) return s;
+      savedTitles.current.set(sectionId, saved.title);
+      return { ...s, title: saved.title, version: saved.version };
+    }));
+  }, []);
+
   const { data: templates } = useQuery<Template[]>({
     queryKey: ["/api/templates"],
   });
 
+  // Section text is saved as it is typed through the live editing session, so only titles and order go here
   const saveMutation = useMutation({
     mutationFn: async (updatedSections: ResponseSection[]) => {
       const res = await apiRequest("PATCH", `/api/rfps/${rfpId}/response`, { 
-        sections: updatedSections 
+        sections: updatedSections.map(({ id, title, orderIndex, version }) => ({ id, title, orderIndex, version })),
       });
       return res.json();
     },
@@ -150,11 +207,34 @@ export function ResponseEditor({ rfpId, response, users }: ResponseEditorProps)
       queryClient.invalidateQueries({ queryKey: ["/api/rfps", rfpId.toString(), "response"] });
       toast({ title: "Response saved" });
     },
-    onError: () => {
-      toast({ title: "Failed to save response", variant: "destructive" });
+    onError: (error, updatedSections) => {
+      const failed = getApiErrorResponse(error);
+      if (failed?.status === 409) {
+        const theirs: ResponseSection[] = failed.body.sections;
+        setConflict({ mine: updatedSections.filter(s => theirs.some(t => t.id === s.id)), theirs });
+        return;
+      }
+      toast({ title: "Failed to save response", description: getApiErrorMessage(error), variant: "destructive" });
     },
   });
 
+  const resolveConflict = (resolved: ResponseSection[]) => {
+    const merged = sections.map(s => {
+      const match = resolved.find(r => r.id === s.id);
+      return match ? { ...s, title: match.title, version: match.version } : s;
+    });
+    conflict?.theirs.forEach(t => savedTitles.current.set(t.id, t.title));
+    setConflict(null);
+    setSections(merged);
+    saveMutation.mutate(merged);
+  };
+
+  const discardConflicting = (theirs: ResponseSection[]) => {
+    setConflict(null);
+    setSections(prev => prev.map(s => theirs.find(t => t.id === s.id) ?? s));
+    theirs.forEach(t => savedTitles.current.set(t.id, t.title));
+  };
+
   const addSectionMutation = useMutation({
     mutationFn: async (title: string) => {
       const res = await apiRequest("POST", `/api/rfps/${rfpId}/response/sections`, { 
@@ -167,6 +247,9 @@ export function ResponseEditor({ rfpId, response, users }: ResponseEditorProps)
       setSections([...sections, newSection]);
       queryClient.invalidateQueries({ queryKey: ["/api/rfps", rfpId.toString(), "response"] });
     },
+    onError: (error) => {
+      toast({ title: "Failed to add section", description: getApiErrorMessage(error), variant: "destructive" });
+    },
   });
 
   const deleteSectionMutation = useMutation({
@@ -177,19 +260,22 @@ export function ResponseEditor({ rfpId, response, users }: ResponseEditorProps)
       setSections(sections.filter(s => s.id !== sectionId));
       queryClient.invalidateQueries({ queryKey: ["/api/rfps", rfpId.toString(), "response"] });
     },
+    onError: (error) => {
+      toast({ title: "Failed to delete section", description: getApiErrorMessage(error), variant: "destructive" });
+    },
   });
 
   const toggleLockMutation = useMutation({
     mutationFn: async ({ sectionId, isLocked }: { sectionId: number; isLocked: boolean }) => {
-      const res = await apiRequest("PATCH", `/api/response-sections/${sectionId}`, { 
-        isLocked,
-        lockedByPmId: isLocked ? currentUserId : null
-      });
+      const res = await apiRequest("PATCH", `/api/response-sections/${sectionId}`, { isLocked });
       return res.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/rfps", rfpId.toString(), "response"] });
     },
+    onError: (error) => {
+      toast({ title: "Failed to update lock", description: getApiErrorMessage(error), variant: "destructive" });
+    },
   });
 
   const assignUserMutation = useMutation({
@@ -202,6 +288,9 @@ export function ResponseEditor({ rfpId, response, users }: ResponseEditorProps)
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/rfps", rfpId.toString(), "response"] });
     },
+    onError: (error) => {
+      toast({ title: "Failed to assign section", description: getApiErrorMessage(error), variant: "destructive" });
+    },
   });
 
   const handleSectionContentChange = useCallback((sectionId: number, content: string) => {
@@ -226,9 +315,12 @@ export function ResponseEditor({ rfpId, response, users }: ResponseEditorProps)
       title: template.name,
       content: template.content,
       orderIndex: sections.length,
+      pageLimit: null,
       assignedUserId: null,
       isLocked: false,
       lockedByPmId: null,
+      collabState: null,
+      version: 1,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -236,6 +328,12 @@ export function ResponseEditor({ rfpId, response, users }: ResponseEditorProps)
     setTemplateDialogOpen(false);
   };
 
+  // Revisions are written by every save, so each opening fetches them afresh
+  const openHistory = (section: ResponseSection) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/response-sections", section.id.toString()] });
+    setHistorySection(section);
+  };
+
   const getAssignedUser = (userId: string | null) => {
     if (!userId) return null;
     return users.find(u => u.id === userId);
@@ -246,7 +344,7 @@ export function ResponseEditor({ rfpId, response, users }: ResponseEditorProps)
       <input
         ref={fileInputRef}
         type="file"
-        accept=".pdf,.doc,.docx"
+        accept={SUPPORTED_DOCUMENT_EXTENSIONS.join(",")}
         onChange={handleFileUpload}
         className="hidden"
         data-testid="input-file-upload"
@@ -258,11 +356,25 @@ export function ResponseEditor({ rfpId, response, users }: ResponseEditorProps)
           <Button 
             variant="outline" 
             onClick={() => fileInputRef.current?.click()}
+            disabled={!isPM || importDraftMutation.isPending}
             data-testid="button-upload-doc"
           >
-            <Upload className="h-4 w-4 mr-2" />
+            {importDraftMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Upload className="h-4 w-4 mr-2" />
+            )}
             Upload Doc
           </Button>
+          <Button
+            variant="outline"
+            onClick={() => setOutlineDialogOpen(true)}
+            disabled={!isPM}
+            data-testid="button-build-outline"
+          >
+            <ListTree className="h-4 w-4 mr-2" />
+            Build Outline
+          </Button>
           
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
@@ -324,6 +436,7 @@ export function ResponseEditor({ rfpId, response, users }: ResponseEditorProps)
           <Button
             variant="outline"
             onClick={() => addSectionMutation.mutate("New Section")}
+            disabled={!isPM}
             data-testid="button-add-section"
           >
             <Plus className="h-4 w-4 mr-2" />
@@ -354,7 +467,10 @@ export function ResponseEditor({ rfpId, response, users }: ResponseEditorProps)
             sections.map((section, index) => {
               const assignedUser = getAssignedUser(section.assignedUserId);
               const isLockedByOther = section.isLocked && section.lockedByPmId !== currentUserId;
-              const canEdit = isPM || (!section.isLocked && section.assignedUserId === currentUserId);
+              const canEdit = canEditSection(user, section);
+              const scoredBy = criteria.filter(c => c.sectionIds.includes(section.id));
+              const answers = requirements.filter(r => r.sectionIds.includes(section.id));
+              const isSaved = !!response?.sections.some(s => s.id === section.id);
 
               return (
                 <Card key={section.id} className={section.isLocked ? "ring-2 ring-primary/30" : ""}>
@@ -373,12 +489,51 @@ export function ResponseEditor({ rfpId, response, users }: ResponseEditorProps)
                         />
                       </div>
                       <div className="flex items-center gap-2 shrink-0">
+                        {section.pageLimit && (
+                          <Badge variant="outline" className="text-xs" data-testid={`badge-page-limit-${section.id}`}>
+                            {section.pageLimit} page limit
+                          </Badge>
+                        )}
                         {section.isLocked && (
                           <Badge variant="secondary" className="text-xs">
                             <Lock className="h-3 w-3 mr-1" />
                             Locked
                           </Badge>
                         )}
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="outline" size="sm" data-testid={`button-section-requirements-${section.id}`}>
+                              <ListChecks className="h-4 w-4 mr-1" />
+                              {answers.length}
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end" className="w-96 max-h-80 overflow-y-auto">
+                            <DropdownMenuLabel>Requirements answered here</DropdownMenuLabel>
+                            <DropdownMenuSeparator />
+                            {requirements.length === 0 ? (
+                              <p className="px-2 py-1.5 text-sm text-muted-foreground">No requirements yet</p>
+                            ) : (
+                              requirements.map(requirement => (
+                                <DropdownMenuCheckboxItem
+                                  key={requirement.id}
+                                  checked={requirement.sectionIds.includes(section.id)}
+                                  onCheckedChange={(checked) => linkRequirementMutation.mutate({
+                                    requirement,
+                                    sectionId: section.id,
+                                    linked: checked === true,
+                                  })}
+                                  onSelect={(e) => e.preventDefault()}
+                                  disabled={!isPM || linkRequirementMutation.isPending}
+                                >
+                                  <span className="line-clamp-2 text-xs">
+                                    {requirement.section && <span className="font-medium">{requirement.section} </span>}
+                                    {requirement.text}
+                                  </span>
+                                </DropdownMenuCheckboxItem>
+                              ))
+                            )}
+                          </DropdownMenuContent>
+                        </DropdownMenu>
                         <Select
                           value={section.assignedUserId || "unassigned"}
                           onValueChange={(value) => assignUserMutation.mutate({ 
@@ -393,13 +548,23 @@ export function ResponseEditor({ rfpId, response, users }: ResponseEditorProps)
                           </SelectTrigger>
                           <SelectContent>
                             <SelectItem value="unassigned">Unassigned</SelectItem>
-                            {users.map((user) => (
+                            {users.filter(u => u.isActive || u.id === section.assignedUserId).map((user) => (
                               <SelectItem key={user.id} value={user.id}>
                                 {user.fullName}
                               </SelectItem>
                             ))}
                           </SelectContent>
                         </Select>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => openHistory(section)}
+                          disabled={!isSaved}
+                          title="History"
+                          data-testid={`button-section-history-${section.id}`}
+                        >
+                          <History className="h-4 w-4 text-muted-foreground" />
+                        </Button>
                         {isPM && (
                           <Button
                             variant="ghost"
@@ -433,19 +598,45 @@ export function ResponseEditor({ rfpId, response, users }: ResponseEditorProps)
                         Assigned to {assignedUser.fullName} ({assignedUser.title || assignedUser.role})
                       </p>
                     )}
+                    {scoredBy.length > 0 && (
+                      <div className="flex items-center gap-1 flex-wrap" data-testid={`section-criteria-${section.id}`}>
+                        <Scale className="h-3 w-3 text-muted-foreground" />
+                        <span className="text-xs text-muted-foreground">Scored:</span>
+                        {scoredBy.map(criterion => {
+                          const weight = formatWeight(criterion);
+                          return (
+                            <Badge key={criterion.id} variant="outline" className="text-xs font-normal" title={criterion.description || undefined}>
+                              {criterion.title}{weight && ` (${weight})`}
+                            </Badge>
+                          );
+                        })}
+                      </div>
+                    )}
                   </CardHeader>
                   <CardContent>
                     <RichTextEditor
                       content={section.content || ""}
                       onChange={(content) => handleSectionContentChange(section.id, content)}
                       disabled={!canEdit}
+                      collaboration={isSaved && user
+                        ? {
+                            sectionId: section.id,
+                            user: { name: user.fullName, color: collaboratorColor(user.id) },
+                            onSaved: (saved) => handleSectionSaved(section.id, saved),
+                          }
+                        : undefined}
                       placeholder="Enter section content..."
                     />
-                    {isLockedByOther && (
+                    {isLockedByOther && !isPM && (
                       <p className="text-xs text-muted-foreground mt-2">
                         This section is locked and can only be edited by the Proposal Manager.
                       </p>
                     )}
+                    {!section.isLocked && !canEdit && (
+                      <p className="text-xs text-muted-foreground mt-2">
+                        Only the assigned consultant or the Proposal Manager can edit this section.
+                      </p>
+                    )}
                   </CardContent>
                 </Card>
               );
@@ -453,6 +644,26 @@ export function ResponseEditor({ rfpId, response, users }: ResponseEditorProps)
           )}
         </div>
       </ScrollArea>
+
+      <OutlineBuilderDialog rfpId={rfpId} open={outlineDialogOpen} onOpenChange={setOutlineDialogOpen} />
+      {historySection && (
+        <SectionHistory
+          rfpId={rfpId}
+          section={historySection}
+          users={users}
+          canRestore={canEditSection(user, sections.find(s => s.id === historySection.id) ?? historySection)}
+          onOpenChange={(open) => !open && setHistorySection(null)}
+        />
+      )}
+      {conflict && (
+        <SaveConflictDialog
+          mine={conflict.mine}
+          theirs={conflict.theirs}
+          onOpenChange={(open) => !open && setConflict(null)}
+          onDiscard={discardConflicting}
+          onResolve={resolveConflict}
+        />
+      )}
     </div>
   );
 }
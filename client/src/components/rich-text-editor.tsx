@@ -1,10 +1,9 @@
+import { useEffect, useRef, useState } from "react";
 import { useEditor, EditorContent } from "@tiptap/react";
-import StarterKit from "@tiptap/starter-kit";
-import Highlight from "@tiptap/extension-highlight";
-import TextAlign from "@tiptap/extension-text-align";
-import Underline from "@tiptap/extension-underline";
-import { TextStyle } from "@tiptap/extension-text-style";
-import Color from "@tiptap/extension-color";
+import Collaboration from "@tiptap/extension-collaboration";
+import CollaborationCaret from "@tiptap/extension-collaboration-caret";
+import * as Y from "yjs";
+import { WebsocketProvider } from "y-websocket";
 import {
   Bold,
   Italic,
@@ -40,12 +39,22 @@ import {
 } from "@/components/ui/popover";
 import { Separator } from "@/components/ui/separator";
 import { cn } from "@/lib/utils";
+import { COLLABORATION_FIELD, COLLABORATION_META, richTextExtensions } from "@shared/rich-text";
+
+// A saved section edited live with everyone else who has it open; `user` labels this editor's caret
+// and `onSaved` hears about every version the server saves
+export interface SectionCollaboration {
+  sectionId: number;
+  user: { name: string; color: string };
+  onSaved?: (saved: { version: number; title: string }) => void;
+}
 
 interface RichTextEditorProps {
   content: string;
   onChange: (content: string) => void;
   disabled?: boolean;
   placeholder?: string;
+  collaboration?: SectionCollaboration;
 }
 
 const highlightColors = [
@@ -74,25 +83,66 @@ const fonts = [
   { name: "Courier", value: "Courier New, monospace" },
 ];
 
-export function RichTextEditor({ content, onChange, disabled, placeholder }: RichTextEditorProps) {
+const caretColors = ["#dc2626", "#2563eb", "#16a34a", "#ea580c", "#9333ea", "#0891b2", "#db2777", "#ca8a04"];
+
+// Stable per user, so a collaborator's caret keeps its color across sections and reloads
+export function collaboratorColor(userId: string): string {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  return caretColors[Math.abs(hash) % caretColors.length];
+}
+
+interface CollaborationSession {
+  doc: Y.Doc;
+  provider: WebsocketProvider;
+}
+
+function useCollaborationSession(sectionId: number | undefined): CollaborationSession | null {
+  const [session, setSession] = useState<CollaborationSession | null>(null);
+
+  useEffect(() => {
+    if (sectionId === undefined) return;
+    const doc = new Y.Doc();
+    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+    const provider = new WebsocketProvider(`${protocol}//${window.location.host}/api/collab/sections`, sectionId.toString(), doc);
+    setSession({ doc, provider });
+    return () => {
+      setSession(null);
+      provider.destroy();
+      doc.destroy();
+    };
+  }, [sectionId]);
+
+  return session;
+}
+
+export function RichTextEditor({ content, onChange, disabled, placeholder, collaboration }: RichTextEditorProps) {
+  const session = useCollaborationSession(collaboration?.sectionId);
+  const onSavedRef = useRef(collaboration?.onSaved);
+  onSavedRef.current = collaboration?.onSaved;
+
+  useEffect(() => {
+    if (!session) return;
+    const meta = session.doc.getMap(COLLABORATION_META);
+    const handleChange = () => {
+      const version = meta.get("version");
+      const title = meta.get("title");
+      if (typeof version === "number" && typeof title === "string") onSavedRef.current?.({ version, title });
+    };
+    meta.observe(handleChange);
+    return () => meta.unobserve(handleChange);
+  }, [session]);
+
+  // With collaboration the document comes from the server, so `content` only seeds standalone editors
   const editor = useEditor({
-    extensions: [
-      StarterKit.configure({
-        heading: {
-          levels: [1, 2, 3],
-        },
-      }),
-      Highlight.configure({
-        multicolor: true,
-      }),
-      TextAlign.configure({
-        types: ["heading", "paragraph"],
-      }),
-      Underline,
-      TextStyle,
-      Color,
-    ],
-    content,
+    extensions: collaboration && session
+      ? [
+          ...richTextExtensions({ undoRedo: false }),
+          Collaboration.configure({ document: session.doc, field: COLLABORATION_FIELD }),
+          CollaborationCaret.configure({ provider: session.provider, user: collaboration.user }),
+        ]
+      : richTextExtensions(),
+    content: collaboration ? undefined : content,
     editable: !disabled,
     onUpdate: ({ editor }) => {
       onChange(editor.getHTML());
@@ -110,9 +160,9 @@ export function RichTextEditor({ content, onChange, disabled, placeholder }: Ric
         "data-placeholder": placeholder,
       },
     },
-  });
+  }, [session]);
 
-  if (!editor) return null;
+  if (!editor || (collaboration && !session)) return null;
 
   return (
     <div className={cn("border rounded-md", disabled && "opacity-50")}>
@@ -0,0 +1,99 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import type { ResponseSection } from "@shared/schema";
+
+interface SaveConflictDialogProps {
+  // The sections as this editor has them, and as the server returned them with the 409
+  mine: ResponseSection[];
+  theirs: ResponseSection[];
+  onOpenChange: (open: boolean) => void;
+  onDiscard: (theirs: ResponseSection[]) => void;
+  onResolve: (resolved: ResponseSection[]) => void;
+}
+
+// Section text merges live, so what a stale save can clash on is the title. The resolved sections
+// carry the server's version, so saving them goes through unless someone saved yet again.
+export function SaveConflictDialog({ mine, theirs, onOpenChange, onDiscard, onResolve }: SaveConflictDialogProps) {
+  const [titles, setTitles] = useState<Record<number, string>>(
+    () => Object.fromEntries(mine.map(section => [section.id, section.title])),
+  );
+
+  const conflicts = theirs.flatMap(saved => {
+    const local = mine.find(s => s.id === saved.id);
+    return local ? [{ local, saved }] : [];
+  });
+
+  const choice = (label: string, title: string, selected: boolean, onClick: () => void, testId: string) => (
+    <button
+      type="button"
+      onClick={onClick}
+      className={cn(
+        "flex-1 rounded-md border p-3 text-left hover-elevate",
+        selected && "ring-2 ring-primary",
+      )}
+      data-testid={testId}
+    >
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="text-sm font-medium break-words">{title || <span className="italic">Untitled</span>}</p>
+    </button>
+  );
+
+  return (
+    <Dialog open={conflicts.length > 0} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Sections changed by someone else</DialogTitle>
+          <DialogDescription>
+            {conflicts.length === 1 ? "This section was" : "These sections were"} saved by someone else after you
+            loaded {conflicts.length === 1 ? "it" : "them"}. Pick which title to keep, or edit it to combine both.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-6 max-h-[60vh] overflow-y-auto">
+          {conflicts.map(({ local, saved }) => {
+            const title = titles[local.id] ?? local.title;
+            return (
+              <div key={saved.id} className="space-y-2" data-testid={`conflict-section-${saved.id}`}>
+                <p className="text-xs text-muted-foreground">
+                  Saved {new Date(saved.updatedAt).toLocaleString([], { dateStyle: "medium", timeStyle: "short" })}
+                  {local.title === saved.title && " · same title, other changes were saved"}
+                </p>
+                <div className="flex gap-2">
+                  {choice("Your title", local.title, title === local.title, () => setTitles({ ...titles, [local.id]: local.title }), `button-keep-mine-${saved.id}`)}
+                  {choice("Saved title", saved.title, title === saved.title, () => setTitles({ ...titles, [local.id]: saved.title }), `button-keep-theirs-${saved.id}`)}
+                </div>
+                <Label htmlFor={`conflict-title-${saved.id}`} className="text-xs">Title to save</Label>
+                <Input
+                  id={`conflict-title-${saved.id}`}
+                  value={title}
+                  onChange={(e) => setTitles({ ...titles, [local.id]: e.target.value })}
+                  data-testid={`input-conflict-title-${saved.id}`}
+                />
+              </div>
+            );
+          })}
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onDiscard(theirs)} data-testid="button-discard-mine">
+            Discard my changes
+          </Button>
+          <Button
+            onClick={() => onResolve(conflicts.map(({ local, saved }) => ({ ...saved, title: titles[local.id] ?? local.title })))}
+            data-testid="button-save-merged"
+          >
+            Save
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,195 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { InlineDiff, SideBySideDiff } from "@/components/diff-view";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import type { DocumentDiff } from "@shared/text-diff";
+import type { ResponseSection, SectionRevisionSummary, User } from "@shared/schema";
+
+type DiffAgainst = "previous" | "current";
+type DiffLayout = "inline" | "side-by-side";
+
+const formatTime = (date: Date | string) =>
+  new Date(date).toLocaleString([], { dateStyle: "medium", timeStyle: "short" });
+
+interface SectionHistoryProps {
+  rfpId: number;
+  section: ResponseSection;
+  users: User[];
+  canRestore: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Lists a section's saved revisions and shows what each one changed, or how it differs from the
+// section now. Restoring puts the revision's content back through the live editing session.
+export function SectionHistory({ rfpId, section, users, canRestore, onOpenChange }: SectionHistoryProps) {
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [against, setAgainst] = useState<DiffAgainst>("previous");
+  const [layout, setLayout] = useState<DiffLayout>("inline");
+
+  const { data: revisions = [], isLoading } = useQuery<SectionRevisionSummary[]>({
+    queryKey: ["/api/response-sections", section.id.toString(), "revisions"],
+  });
+
+  const selected = revisions.find(r => r.id === selectedId) ?? revisions[0];
+  const isLatest = !!selected && selected.id === revisions[0]?.id;
+
+  const { data: diff, isLoading: diffLoading } = useQuery<DocumentDiff>({
+    queryKey: ["/api/response-sections", section.id.toString(), "revisions", selected?.id.toString(), "diff", against],
+    enabled: !!selected,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revision: SectionRevisionSummary) => {
+      const res = await apiRequest("POST", `/api/response-sections/${section.id}/revisions/${revision.id}/restore`);
+      return res.json() as Promise<ResponseSection>;
+    },
+    onSuccess: (_, revision) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/response-sections", section.id.toString()] });
+      queryClient.invalidateQueries({ queryKey: ["/api/rfps", rfpId.toString(), "response"] });
+      setSelectedId(null);
+      toast({ title: "Revision restored", description: `"${section.title}" is back to how it was ${formatTime(revision.updatedAt)}` });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to restore revision", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const authorName = (revision: SectionRevisionSummary) => {
+    if (!revision.authorId) return "Original content";
+    return users.find(u => u.id === revision.authorId)?.fullName ?? "Former user";
+  };
+
+  const restoredLabel = (restoredFromId: number) => {
+    const source = revisions.find(r => r.id === restoredFromId);
+    return source ? `Restored from ${formatTime(source.updatedAt)}` : "Restored an earlier revision";
+  };
+
+  const toggle = <T extends string>(value: T, current: T, onChange: (value: T) => void, label: string) => (
+    <Button
+      variant={value === current ? "secondary" : "ghost"}
+      size="sm"
+      onClick={() => onChange(value)}
+      data-testid={`button-history-${value}`}
+    >
+      {label}
+    </Button>
+  );
+
+  return (
+    <Sheet open onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-4xl flex flex-col">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            History of "{section.title}"
+          </SheetTitle>
+          <SheetDescription>
+            A revision is kept each time the section is saved. Quick successive saves by the same person are
+            grouped into one.
+          </SheetDescription>
+        </SheetHeader>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map(i => <Skeleton key={i} className="h-12 w-full" />)}
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No revisions yet. One is kept the next time this section's content is saved.
+          </p>
+        ) : (
+          <div className="flex gap-4 flex-1 min-h-0">
+            <ScrollArea className="w-60 shrink-0 border rounded-md">
+              <div className="p-1 space-y-1" data-testid="section-revisions">
+                {revisions.map((revision, index) => (
+                  <button
+                    key={revision.id}
+                    type="button"
+                    onClick={() => setSelectedId(revision.id)}
+                    className={cn(
+                      "w-full rounded-md p-2 text-left hover-elevate",
+                      revision.id === selected?.id && "bg-accent",
+                    )}
+                    data-testid={`button-revision-${revision.id}`}
+                  >
+                    <p className="text-sm font-medium flex items-center gap-2">
+                      <span className="truncate">{formatTime(revision.updatedAt)}</span>
+                      {index === 0 && <Badge variant="secondary" className="text-xs">Latest</Badge>}
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate">{authorName(revision)}</p>
+                    {revision.restoredFromId && (
+                      <p className="text-xs text-muted-foreground">{restoredLabel(revision.restoredFromId)}</p>
+                    )}
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+
+            <div className="flex-1 min-w-0 flex flex-col gap-3">
+              <div className="flex items-center gap-2 flex-wrap">
+                {toggle<DiffAgainst>("previous", against, setAgainst, "Changes made")}
+                {toggle<DiffAgainst>("current", against, setAgainst, "Compare with now")}
+                <div className="w-px h-5 bg-border" />
+                {toggle<DiffLayout>("inline", layout, setLayout, "Inline")}
+                {toggle<DiffLayout>("side-by-side", layout, setLayout, "Side by side")}
+                {diff && diff.hunks.length > 0 && (
+                  <>
+                    <Badge variant="outline" className="text-xs text-green-700 dark:text-green-300">+{diff.added}</Badge>
+                    <Badge variant="outline" className="text-xs text-red-700 dark:text-red-300">-{diff.removed}</Badge>
+                  </>
+                )}
+                <div className="flex-1" />
+                {canRestore && selected && (
+                  <Button
+                    size="sm"
+                    onClick={() => restoreMutation.mutate(selected)}
+                    disabled={isLatest || restoreMutation.isPending}
+                    data-testid="button-restore-revision"
+                  >
+                    {restoreMutation.isPending ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                    )}
+                    Restore
+                  </Button>
+                )}
+              </div>
+
+              <ScrollArea className="flex-1">
+                {diffLoading ? (
+                  <div className="space-y-2">
+                    {[1, 2, 3, 4].map(i => <Skeleton key={i} className="h-5 w-full" />)}
+                  </div>
+                ) : !diff || diff.hunks.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-8">
+                    {against === "current" ? "The section reads the same now" : "No text changes in this revision"}
+                  </p>
+                ) : layout === "inline" ? (
+                  <InlineDiff diff={diff} testId="section-revision-diff" />
+                ) : (
+                  <SideBySideDiff diff={diff} testId="section-revision-diff" />
+                )}
+              </ScrollArea>
+            </div>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,77 @@
+import { createContext, useContext, type ReactNode } from "react";
+import { useQuery, useMutation, type UseMutationResult } from "@tanstack/react-query";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { PublicUser } from "@shared/schema";
+
+type LoginData = {
+  username: string;
+  password: string;
+};
+
+type AuthContextType = {
+  user: PublicUser | null;
+  isLoading: boolean;
+  isPM: boolean;
+  loginMutation: UseMutationResult<PublicUser, Error, LoginData>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+};
+
+const AuthContext = createContext<AuthContextType | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ["/api/me"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginData) => {
+      const res = await apiRequest("POST", "/api/login", credentials);
+      return res.json();
+    },
+    onSuccess: (signedIn: PublicUser) => {
+      queryClient.setQueryData(["/api/me"], signedIn);
+    },
+    onError: () => {
+      toast({ title: "Sign in failed", description: "Invalid username or password", variant: "destructive" });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => {
+      queryClient.clear();
+      queryClient.setQueryData(["/api/me"], null);
+    },
+    onError: () => {
+      toast({ title: "Failed to sign out", variant: "destructive" });
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        isPM: user?.role === "pm",
+        loginMutation,
+        logoutMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
@@ -7,15 +7,42 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// apiRequest errors look like `403: {"error":"..."}`; pull out the server's message
+export function getApiErrorMessage(error: unknown): string | undefined {
+  if (!(error instanceof Error)) return undefined;
+  const match = error.message.match(/^\d{3}: ([\s\S]*)$/);
+  if (!match) return error.message;
+  try {
+    const body = JSON.parse(match[1]);
+    return body.error || body.message || match[1];
+  } catch {
+    return match[1];
+  }
+}
+
+// The status and JSON body of a failed apiRequest, for responses the UI acts on (e.g. 409 conflicts)
+export function getApiErrorResponse(error: unknown): { status: number; body: any } | undefined {
+  if (!(error instanceof Error)) return undefined;
+  const match = error.message.match(/^(\d{3}): ([\s\S]*)$/);
+  if (!match) return undefined;
+  try {
+    return { status: parseInt(match[1]), body: JSON.parse(match[2]) };
+  } catch {
+    return undefined;
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
+  // FormData bodies (file uploads) let the browser set the multipart boundary
+  const isFormData = data instanceof FormData;
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
-    body: data ? JSON.stringify(data) : undefined,
+    headers: data && !isFormData ? { "Content-Type": "application/json" } : {},
+    body: isFormData ? data : data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
 
@@ -17,7 +17,8 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import type { Rfp, Review } from "@shared/schema";
+import { deadlineLabel, formatDeadline } from "@/components/deadlines-panel";
+import type { RfpWithNextDeadline, Review } from "@shared/schema";
 
 const statusColors: Record<string, string> = {
   draft: "bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300",
@@ -69,8 +70,9 @@ function StatCard({
   );
 }
 
-function RfpCard({ rfp }: { rfp: Rfp }) {
-  const dueDate = rfp.dueDate ? new Date(rfp.dueDate) : null;
+function RfpCard({ rfp }: { rfp: RfpWithNextDeadline }) {
+  const next = rfp.nextDeadline;
+  const dueDate = next ? new Date(next.dueAt) : null;
   const isOverdue = dueDate && dueDate < new Date();
   const isDueSoon = dueDate && !isOverdue && (dueDate.getTime() - Date.now()) < 7 * 24 * 60 * 60 * 1000;
 
@@ -95,12 +97,18 @@ function RfpCard({ rfp }: { rfp: Rfp }) {
                 <p className="text-xs text-muted-foreground truncate">{rfp.agency}</p>
               )}
             </div>
-            {dueDate && (
-              <div className={`flex items-center gap-1 text-xs shrink-0 ${
-                isOverdue ? "text-destructive" : isDueSoon ? "text-amber-600 dark:text-amber-400" : "text-muted-foreground"
-              }`}>
-                <Calendar className="h-3 w-3" />
-                <span>{dueDate.toLocaleDateString()}</span>
+            {next && dueDate && (
+              <div
+                className={`flex flex-col items-end text-xs shrink-0 ${
+                  isOverdue ? "text-destructive" : isDueSoon ? "text-amber-600 dark:text-amber-400" : "text-muted-foreground"
+                }`}
+                data-testid={`rfp-next-deadline-${rfp.id}`}
+              >
+                <span className="flex items-center gap-1">
+                  <Calendar className="h-3 w-3" />
+                  {formatDeadline(dueDate)}
+                </span>
+                <span>{deadlineLabel(next)}</span>
               </div>
             )}
           </div>
@@ -113,7 +121,7 @@ function RfpCard({ rfp }: { rfp: Rfp }) {
 export default function Dashboard() {
   const [statusFilter, setStatusFilter] = useState<string>("all");
   
-  const { data: rfps, isLoading: rfpsLoading } = useQuery<Rfp[]>({
+  const { data: rfps, isLoading: rfpsLoading } = useQuery<RfpWithNextDeadline[]>({
     queryKey: ["/api/rfps"],
   });
 
@@ -24,7 +24,9 @@ import {
   DialogFooter,
 } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { canActOnReview } from "@shared/permissions";
 import type { Review, Rfp } from "@shared/schema";
 import { useState } from "react";
 
@@ -58,6 +60,7 @@ interface ReviewWithRfp extends Review {
 
 export default function Reviews() {
   const { toast } = useToast();
+  const { user } = useAuth();
   const [reviewDialogOpen, setReviewDialogOpen] = useState(false);
   const [selectedReview, setSelectedReview] = useState<ReviewWithRfp | null>(null);
   const [reviewComments, setReviewComments] = useState("");
@@ -78,8 +81,8 @@ export default function Reviews() {
       setReviewComments("");
       toast({ title: `Review ${status}` });
     },
-    onError: () => {
-      toast({ title: "Failed to update review", variant: "destructive" });
+    onError: (error) => {
+      toast({ title: "Failed to update review", description: getApiErrorMessage(error), variant: "destructive" });
     },
   });
 
@@ -145,7 +148,7 @@ export default function Reviews() {
                   View
                 </Button>
               </Link>
-              {review.status === "pending" && (
+              {review.status === "pending" && canActOnReview(user, review) && (
                 <Button 
                   size="sm" 
                   onClick={() => handleOpenReviewDialog(review)}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useParams, useLocation, Link } from "wouter";
 import { 
@@ -8,6 +8,8 @@ import {
   PenLine,
   DollarSign,
   Sparkles,
+  RefreshCw,
+  ChevronDown,
   Send,
   Clock,
   CheckCircle2,
@@ -15,19 +17,48 @@ import {
   ZoomIn,
   ZoomOut,
   RotateCcw,
+  CalendarClock,
+  Scale,
+  MessageCircleQuestion,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Progress } from "@/components/ui/progress";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
 import { DocumentViewer } from "@/components/document-viewer";
 import { RequirementsPanel } from "@/components/requirements-panel";
 import { ResponseEditor } from "@/components/response-editor";
 import { BudgetSheet } from "@/components/budget-sheet";
 import { InsightsPanel } from "@/components/insights-panel";
-import type { Rfp, Requirement, Response, ResponseSection, BudgetItem, Insight, User } from "@shared/schema";
+import { DeadlinesPanel } from "@/components/deadlines-panel";
+import { EvaluationCriteriaPanel } from "@/components/evaluation-criteria-panel";
+import { QuestionsPanel } from "@/components/questions-panel";
+import { RequirementDialog, type DocumentSelection } from "@/components/requirement-dialogs";
+import type {
+  Rfp,
+  Requirement,
+  Response,
+  ResponseSection,
+  BudgetItem,
+  Insight,
+  User,
+  AnalysisJob,
+  AnalysisMode,
+  RfpDeadline,
+  EvaluationCriterionWithSections,
+  RequirementWithSections,
+  RfpQuestion,
+} from "@shared/schema";
 
 const statusColors: Record<string, string> = {
   draft: "bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300",
@@ -37,21 +68,63 @@ const statusColors: Record<string, string> = {
   submitted: "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300",
 };
 
+const analysisModeOptions: { mode: AnalysisMode; label: string; description: string }[] = [
+  { mode: "llm", label: "AI extraction", description: "Model reads the document; falls back to rules if unavailable" },
+  { mode: "hybrid", label: "AI + rules cross-check", description: "Marks what both found, and adds rule matches the model missed" },
+  { mode: "rules", label: "Rules only", description: "Shall/must statements and submission instructions, no AI" },
+];
+
+function AnalysisModeItems({ onSelect }: { onSelect: (mode: AnalysisMode) => void }) {
+  return (
+    <DropdownMenuContent align="end" className="w-72">
+      {analysisModeOptions.map(option => (
+        <DropdownMenuItem
+          key={option.mode}
+          onClick={() => onSelect(option.mode)}
+          className="flex flex-col items-start"
+          data-testid={`menu-analyze-${option.mode}`}
+        >
+          <span className="font-medium">{option.label}</span>
+          <span className="text-xs text-muted-foreground">{option.description}</span>
+        </DropdownMenuItem>
+      ))}
+    </DropdownMenuContent>
+  );
+}
+
 export default function RfpDetail() {
   const { id } = useParams<{ id: string }>();
   const [, navigate] = useLocation();
   const { toast } = useToast();
+  const { isPM } = useAuth();
   const [activeTab, setActiveTab] = useState("document");
   const [highlightedRequirement, setHighlightedRequirement] = useState<number | null>(null);
+  const [documentSelection, setDocumentSelection] = useState<DocumentSelection | null>(null);
 
   const { data: rfp, isLoading: rfpLoading } = useQuery<Rfp>({
     queryKey: ["/api/rfps", id],
   });
 
-  const { data: requirements, isLoading: reqLoading } = useQuery<Requirement[]>({
+  const { data: requirements, isLoading: reqLoading } = useQuery<RequirementWithSections[]>({
     queryKey: ["/api/rfps", id, "requirements"],
   });
 
+  const { data: retiredRequirements } = useQuery<Requirement[]>({
+    queryKey: ["/api/rfps", id, "requirements", "retired"],
+  });
+
+  const { data: deadlines, isLoading: deadlinesLoading } = useQuery<RfpDeadline[]>({
+    queryKey: ["/api/rfps", id, "deadlines"],
+  });
+
+  const { data: criteria, isLoading: criteriaLoading } = useQuery<EvaluationCriterionWithSections[]>({
+    queryKey: ["/api/rfps", id, "evaluation-criteria"],
+  });
+
+  const { data: questions, isLoading: questionsLoading } = useQuery<RfpQuestion[]>({
+    queryKey: ["/api/rfps", id, "questions"],
+  });
+
   const { data: response } = useQuery<Response & { sections: ResponseSection[] }>({
     queryKey: ["/api/rfps", id, "response"],
   });
@@ -68,18 +141,52 @@ export default function RfpDetail() {
     queryKey: ["/api/users"],
   });
 
+  const { data: analysisJob } = useQuery<AnalysisJob | null>({
+    queryKey: ["/api/rfps", id, "analysis-job"],
+  });
+
+  const isAnalysisRunning = !!analysisJob && (analysisJob.status === "queued" || analysisJob.status === "running");
+
+  // Follow the running job over SSE; the stream closes itself once the job finishes
+  useEffect(() => {
+    if (!analysisJob || !isAnalysisRunning) return;
+
+    const source = new EventSource(`/api/analysis-jobs/${analysisJob.id}/events`);
+    source.onmessage = (event) => {
+      const job: AnalysisJob = JSON.parse(event.data);
+      queryClient.setQueryData(["/api/rfps", id, "analysis-job"], job);
+      if (job.status === "completed") {
+        source.close();
+        queryClient.invalidateQueries({ queryKey: ["/api/rfps", id] });
+        queryClient.invalidateQueries({ queryKey: ["/api/rfps", id, "requirements"] });
+        const summary = job.summary;
+        const counts = summary
+          ? `${summary.added.length} added, ${summary.changed.length} changed, ${summary.removed.length} retired, ${summary.unchanged} unchanged`
+          : `${job.requirementCount ?? 0} requirements extracted`;
+        toast({
+          title: job.notice ? "Analysis complete with warnings" : "Analysis complete",
+          description: job.notice ? `${job.notice}. ${counts}` : counts,
+        });
+      } else if (job.status === "failed") {
+        source.close();
+        queryClient.invalidateQueries({ queryKey: ["/api/rfps", id] });
+        toast({ title: "Analysis failed", description: job.error || undefined, variant: "destructive" });
+      }
+    };
+    return () => source.close();
+  }, [analysisJob?.id, isAnalysisRunning]);
+
   const analyzeMutation = useMutation({
-    mutationFn: async () => {
-      const res = await apiRequest("POST", `/api/rfps/${id}/analyze`);
-      return res.json();
+    mutationFn: async (mode: AnalysisMode) => {
+      const res = await apiRequest("POST", `/api/rfps/${id}/analyze`, { mode });
+      return res.json() as Promise<AnalysisJob>;
     },
-    onSuccess: () => {
+    onSuccess: (job) => {
+      queryClient.setQueryData(["/api/rfps", id, "analysis-job"], job);
       queryClient.invalidateQueries({ queryKey: ["/api/rfps", id] });
-      queryClient.invalidateQueries({ queryKey: ["/api/rfps", id, "requirements"] });
-      toast({ title: "Analysis complete" });
     },
-    onError: () => {
-      toast({ title: "Analysis failed", variant: "destructive" });
+    onError: (error) => {
+      toast({ title: "Analysis failed", description: getApiErrorMessage(error), variant: "destructive" });
     },
   });
 
@@ -92,8 +199,8 @@ export default function RfpDetail() {
       queryClient.invalidateQueries({ queryKey: ["/api/rfps", id] });
       toast({ title: `Sent for ${type === "copy_editing" ? "Copy Editing" : "Budget"} review` });
     },
-    onError: () => {
-      toast({ title: "Failed to submit for review", variant: "destructive" });
+    onError: (error) => {
+      toast({ title: "Failed to submit for review", description: getApiErrorMessage(error), variant: "destructive" });
     },
   });
 
@@ -142,21 +249,51 @@ export default function RfpDetail() {
           </div>
         </div>
         <div className="flex items-center gap-2 shrink-0">
-          {rfp.status === "draft" && (
-            <Button
-              onClick={() => analyzeMutation.mutate()}
-              disabled={analyzeMutation.isPending}
-              data-testid="button-analyze"
-            >
-              {analyzeMutation.isPending ? (
-                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-              ) : (
-                <Sparkles className="h-4 w-4 mr-2" />
-              )}
-              Analyze with AI
-            </Button>
+          {isAnalysisRunning && (
+            <div className="flex items-center gap-2 w-48" data-testid="analysis-progress">
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground shrink-0" />
+              <Progress value={analysisJob.progress} className="h-2" />
+              <span className="text-xs text-muted-foreground tabular-nums">{analysisJob.progress}%</span>
+            </div>
+          )}
+          {isPM && rfp.status === "draft" && !isAnalysisRunning && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button disabled={analyzeMutation.isPending} data-testid="button-analyze">
+                  {analyzeMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Sparkles className="h-4 w-4 mr-2" />
+                  )}
+                  Analyze
+                  <ChevronDown className="h-4 w-4 ml-2" />
+                </Button>
+              </DropdownMenuTrigger>
+              <AnalysisModeItems onSelect={(mode) => analyzeMutation.mutate(mode)} />
+            </DropdownMenu>
+          )}
+          {isPM && rfp.status !== "draft" && rfp.status !== "analyzing" && !isAnalysisRunning && rfp.documentContent && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="outline"
+                  disabled={analyzeMutation.isPending}
+                  title="Re-run extraction; statuses are kept and requirements no longer found are retired"
+                  data-testid="button-reanalyze"
+                >
+                  {analyzeMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <RefreshCw className="h-4 w-4 mr-2" />
+                  )}
+                  Re-analyze
+                  <ChevronDown className="h-4 w-4 ml-2" />
+                </Button>
+              </DropdownMenuTrigger>
+              <AnalysisModeItems onSelect={(mode) => analyzeMutation.mutate(mode)} />
+            </DropdownMenu>
           )}
-          {rfp.status === "in_progress" && (
+          {isPM && rfp.status === "in_progress" && (
             <>
               <Button
                 variant="outline"
@@ -205,6 +342,45 @@ export default function RfpDetail() {
                 </Badge>
               )}
             </TabsTrigger>
+            <TabsTrigger
+              value="dates"
+              className="data-[state=active]:border-b-2 data-[state=active]:border-primary rounded-none bg-transparent px-0 pb-3"
+              data-testid="tab-dates"
+            >
+              <CalendarClock className="h-4 w-4 mr-2" />
+              Key Dates
+              {deadlines && deadlines.length > 0 && (
+                <Badge variant="secondary" className="ml-2 text-xs">
+                  {deadlines.length}
+                </Badge>
+              )}
+            </TabsTrigger>
+            <TabsTrigger
+              value="evaluation"
+              className="data-[state=active]:border-b-2 data-[state=active]:border-primary rounded-none bg-transparent px-0 pb-3"
+              data-testid="tab-evaluation"
+            >
+              <Scale className="h-4 w-4 mr-2" />
+              Evaluation
+              {criteria && criteria.length > 0 && (
+                <Badge variant="secondary" className="ml-2 text-xs">
+                  {criteria.filter(c => c.parentId === null).length}
+                </Badge>
+              )}
+            </TabsTrigger>
+            <TabsTrigger
+              value="questions"
+              className="data-[state=active]:border-b-2 data-[state=active]:border-primary rounded-none bg-transparent px-0 pb-3"
+              data-testid="tab-questions"
+            >
+              <MessageCircleQuestion className="h-4 w-4 mr-2" />
+              Q&amp;A
+              {questions && questions.filter(q => q.status !== "answered").length > 0 && (
+                <Badge variant="secondary" className="ml-2 text-xs">
+                  {questions.filter(q => q.status !== "answered").length}
+                </Badge>
+              )}
+            </TabsTrigger>
             <TabsTrigger
               value="response"
               className="data-[state=active]:border-b-2 data-[state=active]:border-primary rounded-none bg-transparent px-0 pb-3"
@@ -240,26 +416,70 @@ export default function RfpDetail() {
         <div className="flex-1 overflow-hidden">
           <TabsContent value="document" className="h-full m-0 p-6">
             <DocumentViewer
+              rfpId={parseInt(id)}
               content={rfp.documentContent || ""}
+              documentUrl={rfp.documentUrl}
+              documentName={rfp.documentName}
               requirements={requirements || []}
               highlightedRequirementId={highlightedRequirement}
               onClearHighlight={() => setHighlightedRequirement(null)}
+              onCreateFromSelection={isPM ? setDocumentSelection : undefined}
+              canUploadAmendment={isPM}
+              canManageAttachments={isPM}
+            />
+            <RequirementDialog
+              rfpId={parseInt(id)}
+              open={!!documentSelection}
+              onOpenChange={(open) => !open && setDocumentSelection(null)}
+              selection={documentSelection}
             />
           </TabsContent>
 
           <TabsContent value="requirements" className="h-full m-0 p-6 overflow-auto">
             <RequirementsPanel
+              rfpId={parseInt(id)}
               requirements={requirements || []}
+              sections={response?.sections || []}
+              retiredRequirements={retiredRequirements || []}
+              questions={questions || []}
               isLoading={reqLoading}
               onRequirementClick={handleRequirementClick}
             />
           </TabsContent>
 
+          <TabsContent value="dates" className="h-full m-0 p-6 overflow-auto">
+            <DeadlinesPanel
+              rfpId={parseInt(id)}
+              deadlines={deadlines || []}
+              isLoading={deadlinesLoading}
+            />
+          </TabsContent>
+
+          <TabsContent value="evaluation" className="h-full m-0 p-6 overflow-auto">
+            <EvaluationCriteriaPanel
+              rfpId={parseInt(id)}
+              criteria={criteria || []}
+              sections={response?.sections || []}
+              isLoading={criteriaLoading}
+            />
+          </TabsContent>
+
+          <TabsContent value="questions" className="h-full m-0 p-6 overflow-auto">
+            <QuestionsPanel
+              rfpId={parseInt(id)}
+              questions={questions || []}
+              requirements={requirements || []}
+              isLoading={questionsLoading}
+            />
+          </TabsContent>
+
           <TabsContent value="response" className="h-full m-0 overflow-hidden">
             <ResponseEditor
               rfpId={parseInt(id)}
               response={response}
               users={users || []}
+              criteria={criteria || []}
+              requirements={requirements || []}
             />
           </TabsContent>
 
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Link } from "wouter";
 import { 
   Plus,
@@ -30,7 +30,11 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import type { Rfp } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
+import { deadlineLabel, formatDeadline } from "@/components/deadlines-panel";
+import type { RfpWithNextDeadline } from "@shared/schema";
 
 const statusColors: Record<string, string> = {
   draft: "bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300",
@@ -44,11 +48,26 @@ export default function RfpList() {
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [sourceFilter, setSourceFilter] = useState<string>("all");
+  const { toast } = useToast();
+  const { isPM } = useAuth();
 
-  const { data: rfps, isLoading } = useQuery<Rfp[]>({
+  const { data: rfps, isLoading } = useQuery<RfpWithNextDeadline[]>({
     queryKey: ["/api/rfps"],
   });
 
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/rfps/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rfps"] });
+      toast({ title: "RFP deleted" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to delete RFP", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
   const filteredRfps = rfps?.filter((rfp) => {
     const matchesSearch = rfp.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
       rfp.agency?.toLowerCase().includes(searchQuery.toLowerCase());
@@ -156,9 +175,14 @@ export default function RfpList() {
                           {rfp.agency}
                         </span>
                       )}
-                      {rfp.dueDate && (
-                        <span className="flex items-center gap-1">
+                      {rfp.nextDeadline && (
+                        <span className="flex items-center gap-1" data-testid={`rfp-next-deadline-${rfp.id}`}>
                           <Calendar className="h-3 w-3" />
+                          {deadlineLabel(rfp.nextDeadline)}: {formatDeadline(rfp.nextDeadline.dueAt)}
+                        </span>
+                      )}
+                      {rfp.dueDate && rfp.nextDeadline?.type !== "proposal_due" && (
+                        <span className="flex items-center gap-1">
                           Due: {new Date(rfp.dueDate).toLocaleDateString()}
                         </span>
                       )}
@@ -178,7 +202,12 @@ export default function RfpList() {
                         </Button>
                       </DropdownMenuTrigger>
                       <DropdownMenuContent align="end">
-                        <DropdownMenuItem className="text-destructive">
+                        <DropdownMenuItem
+                          className="text-destructive"
+                          disabled={!isPM || deleteMutation.isPending}
+                          onClick={() => deleteMutation.mutate(rfp.id)}
+                          data-testid={`menu-delete-rfp-${rfp.id}`}
+                        >
                           <Trash2 className="h-4 w-4 mr-2" />
                           Delete
                         </DropdownMenuItem>
@@ -13,6 +13,7 @@ import {
   MapPin,
   ArrowLeft,
   Loader2,
+  X,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -35,7 +36,9 @@ import {
 } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
+import { SUPPORTED_DOCUMENT_EXTENSIONS } from "@shared/documents";
+import type { Rfp } from "@shared/schema";
 
 const rfpFormSchema = z.object({
   title: z.string().min(1, "Title is required"),
@@ -54,6 +57,7 @@ export default function RfpNew() {
   const { toast } = useToast();
   const [uploadMethod, setUploadMethod] = useState<"upload" | "email" | "paste">("upload");
   const [isDragging, setIsDragging] = useState(false);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
 
   const form = useForm<RfpFormData>({
     resolver: zodResolver(rfpFormSchema),
@@ -76,15 +80,59 @@ export default function RfpNew() {
         dueDate: data.dueDate ? new Date(data.dueDate) : null,
       };
       const res = await apiRequest("POST", "/api/rfps", payload);
-      return res.json();
+      const rfp = await res.json();
+
+      // The server extracts the text and keeps the original file
+      if (uploadMethod === "upload" && selectedFile) {
+        const formData = new FormData();
+        formData.append("file", selectedFile);
+        try {
+          const uploadRes = await apiRequest("POST", `/api/rfps/${rfp.id}/document`, formData);
+          const { pageCount } = await uploadRes.json();
+          return { rfp, pageCount, uploadError: null };
+        } catch (error) {
+          return { rfp, pageCount: 0, uploadError: getApiErrorMessage(error) };
+        }
+      }
+      return { rfp, pageCount: 0, uploadError: null };
+    },
+    onSuccess: ({ rfp, pageCount, uploadError }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rfps"] });
+      if (uploadError) {
+        toast({ title: "RFP created, but the document could not be processed", description: uploadError, variant: "destructive" });
+      } else {
+        toast({
+          title: "RFP created successfully",
+          description: pageCount > 0 ? `Extracted text from ${pageCount} page${pageCount === 1 ? "" : "s"}` : undefined,
+        });
+      }
+      navigate(`/rfps/${rfp.id}`);
     },
-    onSuccess: (data) => {
+    onError: (error) => {
+      toast({ title: "Failed to create RFP", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const importEmailMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("file", file);
+      const res = await apiRequest("POST", "/api/rfps/email", formData);
+      return res.json() as Promise<{ rfp: Rfp; attachments: { name: string; error?: string }[] }>;
+    },
+    onSuccess: ({ rfp, attachments }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/rfps"] });
-      toast({ title: "RFP created successfully" });
-      navigate(`/rfps/${data.id}`);
+      const failed = attachments.filter(a => a.error);
+      toast({
+        title: "RFP created from email",
+        description: failed.length > 0
+          ? `Skipped ${failed.map(a => `${a.name} (${a.error})`).join(", ")}`
+          : `${attachments.length} attachment${attachments.length === 1 ? "" : "s"} processed`,
+      });
+      navigate(`/rfps/${rfp.id}`);
     },
-    onError: () => {
-      toast({ title: "Failed to create RFP", variant: "destructive" });
+    onError: (error) => {
+      toast({ title: "Failed to import email", description: getApiErrorMessage(error), variant: "destructive" });
     },
   });
 
@@ -106,16 +154,16 @@ export default function RfpNew() {
     }
   };
 
-  const handleFileUpload = async (file: File) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const content = e.target?.result as string;
-      form.setValue("documentContent", content);
-      if (!form.getValues("title")) {
-        form.setValue("title", file.name.replace(/\.[^/.]+$/, ""));
-      }
-    };
-    reader.readAsText(file);
+  const handleFileUpload = (file: File) => {
+    const ext = file.name.slice(file.name.lastIndexOf(".")).toLowerCase();
+    if (!SUPPORTED_DOCUMENT_EXTENSIONS.includes(ext)) {
+      toast({ title: "Unsupported file type", description: "Please upload a PDF, DOCX or TXT file", variant: "destructive" });
+      return;
+    }
+    setSelectedFile(file);
+    if (!form.getValues("title")) {
+      form.setValue("title", file.name.replace(/\.[^/.]+$/, ""));
+    }
   };
 
   return (
@@ -166,12 +214,28 @@ export default function RfpNew() {
                   >
                     <Upload className="h-10 w-10 mx-auto mb-3 text-muted-foreground" />
                     <p className="font-medium mb-1">Drag & drop your RFP document here</p>
-                    <p className="text-sm text-muted-foreground mb-4">Supports PDF, DOC, DOCX, TXT files</p>
+                    <p className="text-sm text-muted-foreground mb-4">Supports PDF, DOCX, TXT files</p>
+                    {selectedFile && (
+                      <div className="flex items-center justify-center gap-2 mb-4 text-sm" data-testid="selected-file">
+                        <FileText className="h-4 w-4 text-primary" />
+                        <span className="font-medium">{selectedFile.name}</span>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          onClick={() => setSelectedFile(null)}
+                          data-testid="button-clear-file"
+                        >
+                          <X className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    )}
                     <label>
                       <input
                         type="file"
                         className="hidden"
-                        accept=".pdf,.doc,.docx,.txt"
+                        accept={SUPPORTED_DOCUMENT_EXTENSIONS.join(",")}
                         onChange={(e) => e.target.files?.[0] && handleFileUpload(e.target.files[0])}
                       />
                       <Button type="button" variant="outline" asChild>
@@ -183,9 +247,31 @@ export default function RfpNew() {
                 <TabsContent value="email" className="mt-4">
                   <div className="text-center py-8 text-muted-foreground">
                     <Mail className="h-10 w-10 mx-auto mb-3 opacity-50" />
-                    <p className="font-medium mb-1">Email Integration</p>
-                    <p className="text-sm">Forward RFPs to <span className="font-mono text-primary">rfp@pmcc.company.com</span></p>
-                    <p className="text-sm mt-2">Or connect your Outlook account in Settings</p>
+                    <p className="font-medium mb-1">Import an RFP email</p>
+                    <p className="text-sm mb-4">
+                      Save the message from your mail client as an .eml file. The subject, agency, due date
+                      and attachments are read into a new draft RFP.
+                    </p>
+                    <label>
+                      <input
+                        type="file"
+                        className="hidden"
+                        accept=".eml,message/rfc822"
+                        disabled={importEmailMutation.isPending}
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          e.target.value = "";
+                          if (file) importEmailMutation.mutate(file);
+                        }}
+                        data-testid="input-email-file"
+                      />
+                      <Button type="button" variant="outline" disabled={importEmailMutation.isPending} asChild>
+                        <span>
+                          {importEmailMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                          Choose .eml File
+                        </span>
+                      </Button>
+                    </label>
                   </div>
                 </TabsContent>
                 <TabsContent value="paste" className="mt-4">
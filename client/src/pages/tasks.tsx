@@ -156,7 +156,7 @@ export default function Tasks() {
                     <SelectValue placeholder="Select team member" />
                   </SelectTrigger>
                   <SelectContent>
-                    {users?.map((user) => (
+                    {users?.filter(u => u.isActive).map((user) => (
                       <SelectItem key={user.id} value={user.id}>
                         {user.fullName}
                       </SelectItem>
@@ -1,17 +1,51 @@
-import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
 import { 
   Users, 
   Mail,
   DollarSign,
   Briefcase,
   UserPlus,
+  Edit,
+  UserX,
+  UserCheck,
+  Loader2,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Skeleton } from "@/components/ui/skeleton";
-import type { User } from "@shared/schema";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
+import { userRoles, type PublicUser, type ResponseSection, type BudgetItem } from "@shared/schema";
 
 const roleColors: Record<string, string> = {
   pm: "bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300",
@@ -27,6 +61,24 @@ const roleLabels: Record<string, string> = {
   managing_director: "Managing Director",
 };
 
+// Password is required when adding someone and optional (keep current) when editing
+const memberFormSchema = z.object({
+  username: z.string().min(3, "Username must be at least 3 characters"),
+  fullName: z.string().min(1, "Name is required"),
+  email: z.string().email("Enter a valid email"),
+  role: z.enum(userRoles),
+  title: z.string().optional(),
+  hourlyRate: z.string().optional(),
+  password: z.string().optional(),
+});
+
+type MemberFormData = z.infer<typeof memberFormSchema>;
+
+interface UserAssignments {
+  sections: (ResponseSection & { rfpId?: number; rfpTitle?: string })[];
+  budgetItems: (BudgetItem & { rfpTitle?: string })[];
+}
+
 function getInitials(name: string): string {
   return name
     .split(" ")
@@ -37,24 +89,166 @@ function getInitials(name: string): string {
 }
 
 export default function Team() {
-  const { data: users, isLoading } = useQuery<User[]>({
+  const { toast } = useToast();
+  const { user: currentUser, isPM } = useAuth();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingUser, setEditingUser] = useState<PublicUser | null>(null);
+  const [deactivatingUser, setDeactivatingUser] = useState<PublicUser | null>(null);
+  const [reassignToUserId, setReassignToUserId] = useState<string>("none");
+
+  const { data: users, isLoading } = useQuery<PublicUser[]>({
     queryKey: ["/api/users"],
   });
 
-  const groupedUsers = users?.reduce((acc, user) => {
+  const { data: assignments, isLoading: assignmentsLoading } = useQuery<UserAssignments>({
+    queryKey: ["/api/users", deactivatingUser?.id, "assignments"],
+    enabled: !!deactivatingUser,
+  });
+
+  const form = useForm<MemberFormData>({
+    resolver: zodResolver(memberFormSchema),
+    defaultValues: {
+      username: "",
+      fullName: "",
+      email: "",
+      role: "consultant",
+      title: "",
+      hourlyRate: "",
+      password: "",
+    },
+  });
+
+  const toPayload = (data: MemberFormData) => ({
+    fullName: data.fullName,
+    email: data.email,
+    role: data.role,
+    title: data.title || null,
+    hourlyRate: data.hourlyRate || null,
+    ...(data.password ? { password: data.password } : {}),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: MemberFormData) => {
+      const res = await apiRequest("POST", "/api/users", { ...toPayload(data), username: data.username });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setDialogOpen(false);
+      form.reset();
+      toast({ title: "Team member added" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to add team member", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: Record<string, unknown> }) => {
+      const res = await apiRequest("PATCH", `/api/users/${id}`, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setDialogOpen(false);
+      setEditingUser(null);
+      form.reset();
+      toast({ title: "Team member updated" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to update team member", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const deactivateMutation = useMutation({
+    mutationFn: async ({ id, reassignTo }: { id: string; reassignTo: string | null }) => {
+      const res = await apiRequest("POST", `/api/users/${id}/deactivate`, { reassignToUserId: reassignTo });
+      return res.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/rfps"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+      setDeactivatingUser(null);
+      const kept = result.remainingBudgetItems?.length || 0;
+      toast({
+        title: "Team member deactivated",
+        description: `${result.reassigned.sections} sections and ${result.reassigned.budgetItems} budget rows reassigned` +
+          (kept > 0 ? `; ${kept} budget rows still reference this member` : ""),
+      });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to deactivate team member", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const reactivateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/users/${id}/reactivate`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({ title: "Team member reactivated" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to reactivate team member", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const handleOpenDialog = (member?: PublicUser) => {
+    setEditingUser(member || null);
+    form.reset({
+      username: member?.username || "",
+      fullName: member?.fullName || "",
+      email: member?.email || "",
+      role: (member?.role as MemberFormData["role"]) || "consultant",
+      title: member?.title || "",
+      hourlyRate: member?.hourlyRate ? parseFloat(member.hourlyRate.toString()).toString() : "",
+      password: "",
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = (data: MemberFormData) => {
+    if (editingUser) {
+      updateMutation.mutate({ id: editingUser.id, data: toPayload(data) });
+      return;
+    }
+    if (!data.password || data.password.length < 8) {
+      form.setError("password", { message: "Password must be at least 8 characters" });
+      return;
+    }
+    createMutation.mutate(data);
+  };
+
+  const handleOpenDeactivate = (member: PublicUser) => {
+    setReassignToUserId("none");
+    setDeactivatingUser(member);
+  };
+
+  const activeUsers = users?.filter(u => u.isActive) || [];
+  const inactiveUsers = users?.filter(u => !u.isActive) || [];
+
+  const groupedUsers = activeUsers.reduce((acc, user) => {
     const role = user.role || "consultant";
     if (!acc[role]) acc[role] = [];
     acc[role].push(user);
     return acc;
-  }, {} as Record<string, User[]>) || {};
+  }, {} as Record<string, PublicUser[]>);
+  if (inactiveUsers.length > 0) {
+    groupedUsers.inactive = inactiveUsers;
+  }
 
   const stats = {
-    total: users?.length || 0,
-    pms: users?.filter(u => u.role === "pm").length || 0,
-    consultants: users?.filter(u => u.role === "consultant").length || 0,
-    editors: users?.filter(u => u.role === "copy_editor").length || 0,
+    total: activeUsers.length,
+    pms: activeUsers.filter(u => u.role === "pm").length,
+    consultants: activeUsers.filter(u => u.role === "consultant").length,
+    editors: activeUsers.filter(u => u.role === "copy_editor").length,
   };
 
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
   return (
     <div className="p-6 space-y-6">
       <div className="flex items-center justify-between">
@@ -62,7 +256,7 @@ export default function Team() {
           <h1 className="text-2xl font-bold" data-testid="page-title">Team</h1>
           <p className="text-muted-foreground">Manage team members and assignments</p>
         </div>
-        <Button data-testid="button-add-member">
+        <Button onClick={() => handleOpenDialog()} disabled={!isPM} data-testid="button-add-member">
           <UserPlus className="h-4 w-4 mr-2" />
           Add Team Member
         </Button>
@@ -107,14 +301,14 @@ export default function Team() {
             <div key={role} className="space-y-3">
               <h2 className="font-semibold text-lg flex items-center gap-2">
                 <Users className="h-5 w-5" />
-                {roleLabels[role] || role}
+                {role === "inactive" ? "Inactive" : roleLabels[role] || role}
                 <Badge variant="secondary" className="text-xs">
                   {roleUsers.length}
                 </Badge>
               </h2>
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                 {roleUsers.map((user) => (
-                  <Card key={user.id} className="hover-elevate">
+                  <Card key={user.id} className={`hover-elevate ${user.isActive ? "" : "opacity-60"}`}>
                     <CardContent className="p-4">
                       <div className="flex items-start gap-4">
                         <Avatar className="h-12 w-12">
@@ -148,6 +342,39 @@ export default function Team() {
                             </div>
                           )}
                         </div>
+                        {isPM && (
+                          <div className="flex items-center gap-1 shrink-0">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleOpenDialog(user)}
+                              data-testid={`button-edit-user-${user.id}`}
+                            >
+                              <Edit className="h-4 w-4 text-muted-foreground" />
+                            </Button>
+                            {user.isActive ? (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleOpenDeactivate(user)}
+                                disabled={user.id === currentUser?.id}
+                                data-testid={`button-deactivate-user-${user.id}`}
+                              >
+                                <UserX className="h-4 w-4 text-muted-foreground hover:text-destructive" />
+                              </Button>
+                            ) : (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => reactivateMutation.mutate(user.id)}
+                                disabled={reactivateMutation.isPending}
+                                data-testid={`button-reactivate-user-${user.id}`}
+                              >
+                                <UserCheck className="h-4 w-4 text-muted-foreground" />
+                              </Button>
+                            )}
+                          </div>
+                        )}
                       </div>
                     </CardContent>
                   </Card>
@@ -165,6 +392,225 @@ export default function Team() {
           </CardContent>
         </Card>
       )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingUser ? "Edit Team Member" : "Add Team Member"}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="fullName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Full Name</FormLabel>
+                      <FormControl>
+                        <Input data-testid="input-member-name" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="username"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Username</FormLabel>
+                      <FormControl>
+                        <Input disabled={!!editingUser} data-testid="input-member-username" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" data-testid="input-member-email" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="role"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Role</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-member-role">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {userRoles.map((role) => (
+                            <SelectItem key={role} value={role}>
+                              {roleLabels[role]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="title"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Title</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., Principal" data-testid="input-member-title" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="hourlyRate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Hourly Rate ($)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="0" step="0.01" data-testid="input-member-rate" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{editingUser ? "New Password" : "Password"}</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="password"
+                          autoComplete="new-password"
+                          placeholder={editingUser ? "Leave blank to keep" : ""}
+                          data-testid="input-member-password"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isSaving} data-testid="button-save-member">
+                  {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {editingUser ? "Update" : "Add"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!deactivatingUser} onOpenChange={(open) => !open && setDeactivatingUser(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Deactivate {deactivatingUser?.fullName}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            {assignmentsLoading ? (
+              <Skeleton className="h-24 w-full" />
+            ) : (
+              <>
+                <div>
+                  <p className="text-sm font-medium mb-1">
+                    Assigned sections ({assignments?.sections.length || 0})
+                  </p>
+                  {assignments && assignments.sections.length > 0 ? (
+                    <ul className="text-sm text-muted-foreground space-y-1 max-h-32 overflow-y-auto">
+                      {assignments.sections.map((section) => (
+                        <li key={section.id} data-testid={`assigned-section-${section.id}`}>
+                          {section.title}
+                          {section.rfpTitle && <span className="text-xs"> — {section.rfpTitle}</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">None</p>
+                  )}
+                </div>
+                <div>
+                  <p className="text-sm font-medium mb-1">
+                    Budget rows ({assignments?.budgetItems.length || 0})
+                  </p>
+                  {assignments && assignments.budgetItems.length > 0 ? (
+                    <ul className="text-sm text-muted-foreground space-y-1 max-h-32 overflow-y-auto">
+                      {assignments.budgetItems.map((item) => (
+                        <li key={item.id} data-testid={`assigned-budget-${item.id}`}>
+                          {item.rfpTitle || `RFP #${item.rfpId}`} — Year {item.year}: {parseFloat(item.hours)} hrs
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">None</p>
+                  )}
+                </div>
+              </>
+            )}
+            <div>
+              <p className="text-sm font-medium mb-1">Reassign work to</p>
+              <Select value={reassignToUserId} onValueChange={setReassignToUserId}>
+                <SelectTrigger data-testid="select-reassign-to">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Nobody (unassign sections, keep budget rows)</SelectItem>
+                  {activeUsers
+                    .filter(u => u.id !== deactivatingUser?.id)
+                    .map((u) => (
+                      <SelectItem key={u.id} value={u.id}>
+                        {u.fullName}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setDeactivatingUser(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => deactivatingUser && deactivateMutation.mutate({
+                id: deactivatingUser.id,
+                reassignTo: reassignToUserId === "none" ? null : reassignToUserId,
+              })}
+              disabled={deactivateMutation.isPending}
+              data-testid="button-confirm-deactivate"
+            >
+              {deactivateMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Deactivate
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
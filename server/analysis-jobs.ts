@@ -0,0 +1,164 @@
+import { EventEmitter } from "events";
+import { storage } from "./storage";
+import { log } from "./log";
+import { analyzeDocument, splitIntoChunks, type AnalysisResult, type SourcedRequirement } from "./analysis";
+import { syncRequirements } from "./requirement-sync";
+import { refreshRequirementOutline } from "./requirement-outline";
+import { extractDeadlines, syncExtractedDeadlines } from "./deadlines";
+import { extractEvaluationCriteria, syncExtractedCriteria } from "./evaluation-criteria";
+import type { AnalysisJob, AnalysisMode, InsertAnalysisJob } from "@shared/schema";
+
+// Job updates fan out in-process to any SSE subscribers for that job id
+const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+
+// Jobs currently executing in this process, so a resume never runs one twice
+const runningJobs = new Set<number>();
+
+export function isJobFinished(job: Pick<AnalysisJob, "status">): boolean {
+  return job.status === "completed" || job.status === "failed";
+}
+
+export function subscribeToJob(jobId: number, listener: (job: AnalysisJob) => void): () => void {
+  const eventName = `job:${jobId}`;
+  jobEvents.on(eventName, listener);
+  return () => {
+    jobEvents.off(eventName, listener);
+  };
+}
+
+async function publish(jobId: number, update: Partial<InsertAnalysisJob>) {
+  const job = await storage.updateAnalysisJob(jobId, update);
+  if (job) jobEvents.emit(`job:${jobId}`, job);
+  return job;
+}
+
+async function runAnalysisJob(jobId: number): Promise<void> {
+  if (runningJobs.has(jobId)) return;
+  runningJobs.add(jobId);
+
+  let job: AnalysisJob | undefined;
+  let restoreStatus = "draft";
+  try {
+    job = await storage.getAnalysisJob(jobId);
+    if (!job) return;
+    const rfp = await storage.getRfp(job.rfpId);
+    if (!rfp) {
+      await publish(jobId, { status: "failed", error: "RFP not found", finishedAt: new Date() });
+      return;
+    }
+
+    // A re-analysis of an RFP already in review shouldn't drag it back to in_progress. An RFP
+    // still marked "analyzing" was interrupted, so fall back on whether it has requirements yet.
+    if (rfp.status === "analyzing") {
+      const existing = await storage.getRequirementsByRfp(rfp.id);
+      restoreStatus = existing.length > 0 ? "in_progress" : "draft";
+    } else {
+      restoreStatus = rfp.status;
+    }
+
+    await storage.updateRfp(rfp.id, { status: "analyzing" });
+    await publish(jobId, {
+      status: "running",
+      progress: 0,
+      completedChunks: 0,
+      error: null,
+      notice: null,
+      startedAt: new Date(),
+    });
+
+    // The main document and every attachment with text are analyzed one after another; progress
+    // counts chunks across all of them, estimated up front and corrected as each file reports
+    const mode = job.mode as AnalysisMode;
+    const attachments = (await storage.getAttachmentsByRfp(rfp.id)).filter(a => a.documentContent);
+    const documents = [
+      { attachmentId: null, content: rfp.documentContent || "" },
+      ...attachments.map(a => ({ attachmentId: a.id, content: a.documentContent })),
+    ];
+    const chunkCounts = documents.map(d => (mode === "rules" ? 1 : splitIntoChunks(d.content).length));
+    const doneCounts = documents.map(() => 0);
+
+    // Each chunk report is persisted so a reconnecting client sees where the job got to. A failed
+    // progress write is only logged; the job's final state is written separately.
+    let lastWrite = Promise.resolve<unknown>(undefined);
+    const requirements: SourcedRequirement[] = [];
+    let fallback: AnalysisResult | null = null;
+    for (let i = 0; i < documents.length; i++) {
+      const result = await analyzeDocument(documents[i].content, {
+        mode,
+        onProgress: (completed, total) => {
+          chunkCounts[i] = total;
+          doneCounts[i] = completed;
+          const allCompleted = doneCounts.reduce((sum, n) => sum + n, 0);
+          const allTotal = chunkCounts.reduce((sum, n) => sum + n, 0);
+          lastWrite = lastWrite.then(() => publish(jobId, {
+            completedChunks: allCompleted,
+            totalChunks: allTotal,
+            progress: allTotal > 0 ? Math.floor((allCompleted / allTotal) * 100) : 0,
+          })).catch(error => console.error(`Error saving progress of analysis job ${jobId}:`, error));
+        },
+      });
+      requirements.push(...result.requirements.map(r => ({ ...r, attachmentId: documents[i].attachmentId })));
+      if (result.notice && !fallback) fallback = result;
+    }
+    await lastWrite;
+
+    const summary = await syncRequirements(rfp.id, requirements);
+    await refreshRequirementOutline(rfp.id);
+    // Key dates and evaluation criteria are found by pattern in every mode; they don't depend on the model.
+    // They come from the main document only: attachments such as wage determinations are full of dates.
+    await syncExtractedDeadlines(rfp, extractDeadlines(rfp.documentContent || ""));
+    await syncExtractedCriteria(rfp.id, extractEvaluationCriteria(rfp.documentContent || ""));
+
+    await storage.updateRfp(rfp.id, { status: restoreStatus === "draft" ? "in_progress" : restoreStatus });
+    await publish(jobId, {
+      status: "completed",
+      progress: 100,
+      requirementCount: requirements.length,
+      summary,
+      mode: fallback?.mode ?? mode,
+      notice: fallback?.notice ?? null,
+      finishedAt: new Date(),
+    });
+  } catch (error) {
+    console.error(`Error running analysis job ${jobId}:`, error);
+    // The database may be what failed, so recording the failure can fail too
+    try {
+      if (job) await storage.updateRfp(job.rfpId, { status: restoreStatus });
+      await publish(jobId, {
+        status: "failed",
+        error: error instanceof Error ? error.message : "Analysis failed",
+        finishedAt: new Date(),
+      });
+    } catch (recordError) {
+      console.error(`Error recording failure of analysis job ${jobId}:`, recordError);
+    }
+  } finally {
+    runningJobs.delete(jobId);
+  }
+}
+
+// Jobs run in the background; anything they fail to record is logged rather than left unhandled
+function startJob(jobId: number) {
+  runAnalysisJob(jobId).catch(error => console.error(`Error running analysis job ${jobId}:`, error));
+}
+
+// Queues an analysis for the RFP, or returns the one already queued or running
+export async function startAnalysisJob(
+  rfpId: number,
+  requestedById: string | null,
+  mode: AnalysisMode = "llm",
+): Promise<AnalysisJob> {
+  const { job, created } = await storage.queueAnalysisJob({ rfpId, status: "queued", mode, requestedById });
+  if (created) startJob(job.id);
+  return job;
+}
+
+// Jobs left queued or running by a previous process restart from the first chunk
+export async function resumeAnalysisJobs(): Promise<void> {
+  const jobs = await storage.getUnfinishedAnalysisJobs();
+  for (const job of jobs) {
+    log(`Resuming analysis job ${job.id} for RFP ${job.rfpId}`, "analysis");
+    startJob(job.id);
+  }
+}
@@ -0,0 +1,164 @@
+import { afterEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import {
+  analyzeDocument,
+  crossCheckRequirements,
+  mergeRequirements,
+  splitIntoChunks,
+  type ExtractedRequirement,
+} from "./analysis";
+import { FixtureProvider, setLlmProvider, type LlmProvider } from "./llm";
+
+const content = [
+  "SECTION C - STATEMENT OF WORK",
+  "The Contractor shall provide help desk support on business days.",
+  "",
+  "The Contractor shall deliver a monthly status report.",
+].join("\n");
+
+function requirement(text: string, overrides: Partial<ExtractedRequirement> = {}): ExtractedRequirement {
+  const start = content.indexOf(text);
+  return {
+    text,
+    section: null,
+    priority: "medium",
+    highlightStart: start >= 0 ? start : null,
+    highlightEnd: start >= 0 ? start + text.length : null,
+    matchQuality: null,
+    source: "ai",
+    crossCheck: null,
+    ...overrides,
+  };
+}
+
+// A provider whose analysis reply is fixed, so tests control what "the model" found
+function replying(requirements: unknown[]): LlmProvider {
+  return { name: "stub", complete: async () => JSON.stringify({ requirements }) };
+}
+
+afterEach(() => setLlmProvider(null));
+
+describe("splitIntoChunks", () => {
+  it("covers the whole document with overlapping chunks that end on paragraph breaks", () => {
+    const paragraphs = Array.from({ length: 40 }, (_, i) => `Paragraph ${i} `.repeat(10).trim());
+    const document = paragraphs.join("\n\n");
+    const chunks = splitIntoChunks(document, 1000, 200);
+
+    assert.ok(chunks.length > 1);
+    assert.equal(chunks[0].start, 0);
+    assert.equal(chunks[chunks.length - 1].end, document.length);
+    for (let i = 1; i < chunks.length; i++) {
+      assert.ok(chunks[i].start < chunks[i - 1].end, "chunks overlap");
+      assert.equal(document[chunks[i - 1].end - 1], "\n");
+    }
+  });
+});
+
+describe("mergeRequirements", () => {
+  it("keeps the fuller text of duplicates and the higher priority", () => {
+    const merged = mergeRequirements([
+      requirement("The Contractor shall deliver a monthly status", { priority: "high" }),
+      requirement("The Contractor shall deliver a monthly status report.", { priority: "low" }),
+    ]);
+    assert.equal(merged.length, 1);
+    assert.equal(merged[0].text, "The Contractor shall deliver a monthly status report.");
+    assert.equal(merged[0].priority, "high");
+  });
+
+  it("orders requirements by where they are in the document", () => {
+    const merged = mergeRequirements([
+      requirement("The Contractor shall deliver a monthly status report."),
+      requirement("The Contractor shall provide help desk support on business days."),
+    ]);
+    assert.deepEqual(merged.map(r => r.text), [
+      "The Contractor shall provide help desk support on business days.",
+      "The Contractor shall deliver a monthly status report.",
+    ]);
+  });
+});
+
+describe("crossCheckRequirements", () => {
+  it("marks what both found and what only one of them found", () => {
+    const checked = crossCheckRequirements(
+      [
+        requirement("The Contractor shall provide help desk support on business days."),
+        requirement("Offerors must be registered in SAM."),
+      ],
+      [
+        requirement("The Contractor shall provide help desk support on business days.", { source: "rules" }),
+        requirement("The Contractor shall deliver a monthly status report.", { source: "rules" }),
+      ],
+    );
+    assert.deepEqual(checked.map(r => [r.text, r.source, r.crossCheck]), [
+      ["The Contractor shall provide help desk support on business days.", "ai", "both"],
+      ["The Contractor shall deliver a monthly status report.", "rules", "rules_only"],
+      ["Offerors must be registered in SAM.", "ai", "llm_only"],
+    ]);
+  });
+
+  it("does not count duplicates within one list as a match", () => {
+    const text = "The Contractor shall deliver a monthly status report.";
+    const checked = crossCheckRequirements([requirement(text), requirement(text)], []);
+    assert.deepEqual(checked.map(r => r.crossCheck), ["llm_only"]);
+  });
+});
+
+describe("analyzeDocument", () => {
+  it("extracts offline through the fixture provider", async () => {
+    setLlmProvider(new FixtureProvider());
+    const result = await analyzeDocument(content);
+
+    assert.equal(result.mode, "llm");
+    assert.equal(result.notice, null);
+    assert.deepEqual(result.requirements.map(r => [r.text, r.source, r.matchQuality]), [
+      ["The Contractor shall provide help desk support on business days.", "ai", "exact"],
+      ["The Contractor shall deliver a monthly status report.", "ai", "exact"],
+    ]);
+  });
+
+  it("re-anchors the model's text and flags text missing from the document", async () => {
+    setLlmProvider(replying([
+      { text: "the contractor shall deliver a monthly  status report.", priority: "urgent", highlightStart: "x" },
+      { text: "Offerors must be registered in SAM." },
+      { section: "No text" },
+    ]));
+    const { requirements } = await analyzeDocument(content);
+
+    assert.deepEqual(requirements.map(r => [r.text, r.priority, r.matchQuality]), [
+      ["the contractor shall deliver a monthly  status report.", "medium", "normalized"],
+      ["Offerors must be registered in SAM.", "medium", "not_found"],
+    ]);
+    assert.equal(requirements[0].highlightStart, content.indexOf("The Contractor shall deliver"));
+  });
+
+  it("uses the rules alone in rules mode", async () => {
+    const complete = mock.fn(async () => "{}");
+    setLlmProvider({ name: "stub", complete });
+    const result = await analyzeDocument(content, { mode: "rules" });
+
+    assert.equal(complete.mock.callCount(), 0);
+    assert.equal(result.requirements.length, 2);
+    assert.ok(result.requirements.every(r => r.source === "rules" && r.crossCheck === null));
+  });
+
+  it("cross-checks the model against the rules in hybrid mode", async () => {
+    setLlmProvider(replying([{ text: "The Contractor shall provide help desk support on business days." }]));
+    const result = await analyzeDocument(content, { mode: "hybrid" });
+
+    assert.equal(result.mode, "hybrid");
+    assert.deepEqual(result.requirements.map(r => [r.source, r.crossCheck]), [
+      ["ai", "both"],
+      ["rules", "rules_only"],
+    ]);
+  });
+
+  it("falls back to the rules with a notice when the model fails", async (t) => {
+    t.mock.method(console, "error", () => {});
+    setLlmProvider({ name: "stub", complete: async () => { throw new Error("connection refused"); } });
+    const result = await analyzeDocument(content);
+
+    assert.equal(result.mode, "rules");
+    assert.match(result.notice ?? "", /connection refused/);
+    assert.equal(result.requirements.length, 2);
+  });
+});
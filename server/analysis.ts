@@ -0,0 +1,260 @@
+import { z } from "zod";
+import { completeJson } from "./llm";
+import { batchProcess } from "./replit_integrations/batch";
+import { anchorText, indexDocument, type MatchQuality } from "./anchoring";
+import { extractRequirementsByRules } from "./rule-extractor";
+import { PAGE_BREAK } from "@shared/documents";
+import type { AnalysisMode, CrossCheckResult } from "@shared/schema";
+
+// Roughly 3k tokens of input per chunk leaves the 4096-token completion room for a full requirement list
+const CHUNK_SIZE = 12000;
+// Requirements straddling a boundary appear whole in at least one chunk as long as they are shorter than this
+const CHUNK_OVERLAP = 1500;
+
+export interface DocumentChunk {
+  index: number;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface ExtractedRequirement {
+  text: string;
+  section: string | null;
+  priority: "high" | "medium" | "low";
+  highlightStart: number | null;
+  highlightEnd: number | null;
+  matchQuality: MatchQuality | null;
+  source: "ai" | "rules";
+  crossCheck: CrossCheckResult | null;
+}
+
+// An extracted requirement tagged with the file it came from; null for the RFP's main document
+export type SourcedRequirement = ExtractedRequirement & { attachmentId: number | null };
+
+export interface AnalyzeOptions {
+  mode?: AnalysisMode;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+export interface AnalysisResult {
+  requirements: ExtractedRequirement[];
+  mode: AnalysisMode;
+  notice: string | null;
+}
+
+const PRIORITY_RANK = { high: 3, medium: 2, low: 1 } as const;
+
+// The shape the model is asked for. Items without text are dropped; other fields it gets wrong
+// fall back to nothing rather than discarding the requirement.
+const modelRequirementSchema = z.object({
+  text: z.string().trim().min(1),
+  section: z.string().nullable().catch(null),
+  priority: z.enum(["high", "medium", "low"]).catch("medium"),
+  highlightStart: z.number().nullable().catch(null),
+  highlightEnd: z.number().nullable().catch(null),
+});
+
+type ModelRequirement = z.infer<typeof modelRequirementSchema>;
+
+// Some replies are the bare array instead of { requirements: [...] }
+function modelRequirements(result: unknown): ModelRequirement[] {
+  const items = Array.isArray(result)
+    ? result
+    : z.object({ requirements: z.array(z.unknown()) }).safeParse(result).data?.requirements ?? [];
+  return items.flatMap(item => {
+    const parsed = modelRequirementSchema.safeParse(item);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+// Splits on paragraph or page boundaries near the window end so a requirement is rarely cut mid-sentence
+export function splitIntoChunks(content: string, size = CHUNK_SIZE, overlap = CHUNK_OVERLAP): DocumentChunk[] {
+  const chunks: DocumentChunk[] = [];
+  let start = 0;
+
+  while (start < content.length) {
+    let end = Math.min(start + size, content.length);
+    if (end < content.length) {
+      const window = content.slice(start + Math.floor(size / 2), end);
+      const breakAt = Math.max(window.lastIndexOf("\n\n"), window.lastIndexOf(PAGE_BREAK));
+      if (breakAt >= 0) end = start + Math.floor(size / 2) + breakAt + 1;
+    }
+    chunks.push({ index: chunks.length, start, end, text: content.slice(start, end) });
+    if (end >= content.length) break;
+    start = Math.max(end - overlap, start + 1);
+  }
+
+  return chunks;
+}
+
+// Offsets come back relative to the chunk; clamp them to it before shifting into document space
+function toDocumentOffsets(chunk: DocumentChunk, start: number | null, end: number | null) {
+  if (start === null || end === null || end <= start) {
+    return { highlightStart: null, highlightEnd: null };
+  }
+  const length = chunk.text.length;
+  return {
+    highlightStart: chunk.start + Math.max(0, Math.min(start, length)),
+    highlightEnd: chunk.start + Math.max(0, Math.min(end, length)),
+  };
+}
+
+async function analyzeChunk(chunk: DocumentChunk, totalChunks: number): Promise<ExtractedRequirement[]> {
+  const analysisResult = await completeJson<unknown>({
+    feature: "analysis",
+    input: chunk.text,
+    messages: [
+      {
+        role: "system",
+        content: `You are an expert RFP analyst. Extract key requirements from the given excerpt of an RFP document.
+        For each requirement:
+        - Provide the exact text of the requirement
+        - Categorize it into a section (e.g., "Technical Requirements", "Qualifications", "Budget", "Timeline", "Deliverables")
+        - Assign a priority: high, medium, or low
+        - Provide the character position within this excerpt (start and end), counting from 0
+
+        Return your response as a JSON object with a "requirements" array containing objects with these fields:
+        { "requirements": [{ "text": "...", "section": "...", "priority": "high|medium|low", "highlightStart": number, "highlightEnd": number }] }
+
+        Only return valid JSON.`
+      },
+      {
+        role: "user",
+        content: `Analyze part ${chunk.index + 1} of ${totalChunks} of this RFP document and extract all key requirements:\n\n${chunk.text}`
+      }
+    ],
+    maxTokens: 4096,
+  });
+
+  return modelRequirements(analysisResult).map(r => ({
+    text: r.text,
+    section: r.section,
+    priority: r.priority,
+    ...toDocumentOffsets(chunk, r.highlightStart, r.highlightEnd),
+    matchQuality: null,
+    source: "ai" as const,
+    crossCheck: null,
+  }));
+}
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+function rangesOverlap(a: ExtractedRequirement, b: ExtractedRequirement): boolean {
+  if (a.highlightStart === null || a.highlightEnd === null || b.highlightStart === null || b.highlightEnd === null) {
+    return false;
+  }
+  const overlap = Math.min(a.highlightEnd, b.highlightEnd) - Math.max(a.highlightStart, b.highlightStart);
+  const shorter = Math.min(a.highlightEnd - a.highlightStart, b.highlightEnd - b.highlightStart);
+  return shorter > 0 && overlap / shorter >= 0.5;
+}
+
+function isDuplicate(a: ExtractedRequirement, b: ExtractedRequirement): boolean {
+  const textA = normalizeText(a.text);
+  const textB = normalizeText(b.text);
+  if (textA === textB) return true;
+  // A chunk cut can leave a truncated copy of a requirement another chunk saw whole
+  if (textA.length >= 20 && textB.length >= 20 && (textA.includes(textB) || textB.includes(textA))) return true;
+  return rangesOverlap(a, b) && (textA.startsWith(textB.slice(0, 40)) || textB.startsWith(textA.slice(0, 40)));
+}
+
+// Keeps the fuller text of each duplicate pair and the higher of their priorities
+export function mergeRequirements(requirements: ExtractedRequirement[]): ExtractedRequirement[] {
+  const merged: ExtractedRequirement[] = [];
+
+  for (const requirement of requirements) {
+    const index = merged.findIndex(existing => isDuplicate(existing, requirement));
+    if (index === -1) {
+      merged.push(requirement);
+      continue;
+    }
+    const existing = merged[index];
+    const keep = requirement.text.length > existing.text.length ? requirement : existing;
+    merged[index] = {
+      ...keep,
+      // Found by both the model and the rules counts as an AI requirement the rules confirmed
+      source: existing.source === requirement.source ? existing.source : "ai",
+      crossCheck: existing.crossCheck === requirement.crossCheck ? existing.crossCheck : "both",
+      section: keep.section ?? existing.section ?? requirement.section,
+      priority: PRIORITY_RANK[requirement.priority] > PRIORITY_RANK[existing.priority]
+        ? requirement.priority
+        : existing.priority,
+    };
+  }
+
+  return merged.sort((a, b) => (a.highlightStart ?? Infinity) - (b.highlightStart ?? Infinity));
+}
+
+// Each list is merged on its own first, so only a match across the two marks a requirement as found by both
+export function crossCheckRequirements(
+  llmRequirements: ExtractedRequirement[],
+  ruleRequirements: ExtractedRequirement[],
+): ExtractedRequirement[] {
+  return mergeRequirements([
+    ...mergeRequirements(llmRequirements).map(r => ({ ...r, crossCheck: "llm_only" as const })),
+    ...mergeRequirements(ruleRequirements).map(r => ({ ...r, crossCheck: "rules_only" as const })),
+  ]);
+}
+
+async function analyzeWithLlm(content: string, options: AnalyzeOptions): Promise<ExtractedRequirement[]> {
+  const chunks = splitIntoChunks(content);
+  options.onProgress?.(0, chunks.length);
+  const results = await batchProcess(
+    chunks,
+    chunk => analyzeChunk(chunk, chunks.length),
+    {
+      concurrency: 2,
+      onProgress: (completed, total) => options.onProgress?.(completed, total),
+    },
+  );
+
+  // Replace the model's approximate offsets with where the text really is before merging,
+  // so duplicates from overlapping chunks collapse onto the same range
+  const index = indexDocument(content);
+  return results.flat().map(r => ({
+    ...r,
+    ...anchorText(index, r.text, r.highlightStart),
+  }));
+}
+
+/**
+ * Extracts requirements in one of three modes:
+ * - llm: chunked model extraction; falls back to rules if the model can't be reached
+ * - rules: deterministic extraction only
+ * - hybrid: model and rule extraction cross-checked; each requirement is marked as found by both, the model only
+ *   or the rules only, and what only one of them found is kept
+ */
+export async function analyzeDocument(content: string, options: AnalyzeOptions = {}): Promise<AnalysisResult> {
+  const mode = options.mode ?? "llm";
+
+  if (mode === "rules") {
+    options.onProgress?.(0, 1);
+    const requirements = mergeRequirements(extractRequirementsByRules(content));
+    options.onProgress?.(1, 1);
+    return { requirements, mode, notice: null };
+  }
+
+  let llmRequirements: ExtractedRequirement[];
+  try {
+    llmRequirements = await analyzeWithLlm(content, options);
+  } catch (error) {
+    console.error("LLM analysis failed, falling back to rule-based extraction:", error);
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      requirements: mergeRequirements(extractRequirementsByRules(content)),
+      mode: "rules",
+      notice: `AI extraction failed (${message}); used rule-based extraction instead`,
+    };
+  }
+
+  if (mode === "hybrid") {
+    return {
+      requirements: crossCheckRequirements(llmRequirements, extractRequirementsByRules(content)),
+      mode,
+      notice: null,
+    };
+  }
+  return { requirements: mergeRequirements(llmRequirements), mode, notice: null };
+}
@@ -0,0 +1,53 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { anchorText, indexDocument } from "./anchoring";
+
+const content = [
+  "1. Scope. The Contractor shall provide help desk support from 8 a.m. to 6 p.m. on business days.",
+  "2. Reporting. The Contractor’s monthly report shall list every ticket opened.",
+  "3. Staffing. The Contractor shall provide help desk support from 8 a.m. to 6 p.m. on business days.",
+].join("\n");
+const index = indexDocument(content);
+
+const highlighted = (anchor: { highlightStart: number | null; highlightEnd: number | null }) =>
+  content.slice(anchor.highlightStart!, anchor.highlightEnd!);
+
+describe("anchorText", () => {
+  it("matches text that appears verbatim", () => {
+    const anchor = anchorText(index, "The Contractor shall provide help desk support");
+    assert.equal(anchor.matchQuality, "exact");
+    assert.equal(anchor.highlightStart, content.indexOf("The Contractor shall provide help desk support"));
+  });
+
+  it("uses the offset hint to choose between repeated text", () => {
+    const text = "The Contractor shall provide help desk support";
+    const second = content.lastIndexOf(text);
+    assert.equal(anchorText(index, text, second - 10).highlightStart, second);
+    assert.equal(anchorText(index, text, 0).highlightStart, content.indexOf(text));
+  });
+
+  it("ignores case, spacing and typographic quotes", () => {
+    const anchor = anchorText(index, "the contractor's  MONTHLY report shall list every ticket opened.");
+    assert.equal(anchor.matchQuality, "normalized");
+    assert.equal(highlighted(anchor), "The Contractor’s monthly report shall list every ticket opened.");
+  });
+
+  it("falls back to the window sharing most of the words", () => {
+    const anchor = anchorText(index, "The Contractor's monthly report shall list each ticket opened");
+    assert.equal(anchor.matchQuality, "fuzzy");
+    assert.equal(highlighted(anchor), "The Contractor’s monthly report shall list every ticket opened");
+  });
+
+  it("reports text that is not in the document", () => {
+    assert.deepEqual(anchorText(index, "Offerors must provide three past performance references."), {
+      highlightStart: null,
+      highlightEnd: null,
+      matchQuality: "not_found",
+    });
+    assert.equal(anchorText(index, "   ").matchQuality, "not_found");
+  });
+
+  it("does not fuzzy-match short phrases", () => {
+    assert.equal(anchorText(index, "business hours support").matchQuality, "not_found");
+  });
+});
@@ -0,0 +1,175 @@
+// Locates requirement text in the RFP document so highlights point at the right sentence.
+// Model-reported offsets are only used to break ties between several candidate matches.
+
+export type MatchQuality = "exact" | "normalized" | "fuzzy" | "not_found";
+
+export interface TextAnchor {
+  highlightStart: number | null;
+  highlightEnd: number | null;
+  matchQuality: MatchQuality;
+}
+
+interface Token {
+  word: string;
+  start: number;
+  end: number;
+}
+
+// Share of the requirement's words that must appear in a window for a fuzzy match
+const FUZZY_THRESHOLD = 0.7;
+// Fuzzy matching on a handful of words finds generic phrases all over the document
+const MIN_FUZZY_WORDS = 4;
+
+function closestTo<T extends { start: number }>(candidates: T[], hint: number | null): T | undefined {
+  if (hint === null || candidates.length === 0) return candidates[0];
+  return candidates.reduce((best, c) => (Math.abs(c.start - hint) < Math.abs(best.start - hint) ? c : best));
+}
+
+function findExact(content: string, text: string, hint: number | null) {
+  const matches: { start: number }[] = [];
+  let index = content.indexOf(text);
+  while (index !== -1) {
+    matches.push({ start: index });
+    index = content.indexOf(text, index + 1);
+  }
+  const match = closestTo(matches, hint);
+  return match ? { start: match.start, end: match.start + text.length } : null;
+}
+
+function normalizeChar(ch: string): string {
+  if (/[\u2018\u2019\u201B\u2032]/.test(ch)) return "'";
+  if (/[\u201C\u201D\u201F\u2033]/.test(ch)) return "\"";
+  if (/[\u2010-\u2015\u2212]/.test(ch)) return "-";
+  return ch.toLowerCase();
+}
+
+// Collapses whitespace, case and typographic quotes, remembering where each normalized char came from
+function normalizeWithMap(text: string): { normalized: string; offsets: number[] } {
+  let normalized = "";
+  const offsets: number[] = [];
+  let inSpace = false;
+
+  for (let i = 0; i < text.length; i++) {
+    if (/\s/.test(text[i])) {
+      if (!inSpace && normalized.length > 0) {
+        normalized += " ";
+        offsets.push(i);
+      }
+      inSpace = true;
+      continue;
+    }
+    inSpace = false;
+    normalized += normalizeChar(text[i]);
+    offsets.push(i);
+  }
+
+  return { normalized: normalized.trimEnd(), offsets };
+}
+
+function findNormalized(
+  normalizedContent: { normalized: string; offsets: number[] },
+  text: string,
+  hint: number | null,
+) {
+  const needle = normalizeWithMap(text).normalized;
+  if (!needle) return null;
+
+  const matches: { start: number; end: number }[] = [];
+  let index = normalizedContent.normalized.indexOf(needle);
+  while (index !== -1) {
+    matches.push({
+      start: normalizedContent.offsets[index],
+      end: normalizedContent.offsets[index + needle.length - 1] + 1,
+    });
+    index = normalizedContent.normalized.indexOf(needle, index + 1);
+  }
+  return closestTo(matches, hint) ?? null;
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /[A-Za-z0-9]+/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    tokens.push({ word: match[0].toLowerCase(), start: match.index, end: match.index + match[0].length });
+  }
+  return tokens;
+}
+
+// Slides a window the length of the requirement over the document and keeps the one sharing the most words
+function findFuzzy(documentTokens: Token[], text: string, hint: number | null) {
+  const needle = tokenize(text).map(t => t.word);
+  const size = needle.length;
+  if (size < MIN_FUZZY_WORDS || documentTokens.length < size) return null;
+
+  const wanted = new Map<string, number>();
+  for (const word of needle) wanted.set(word, (wanted.get(word) || 0) + 1);
+
+  const inWindow = new Map<string, number>();
+  let matched = 0;
+  const add = (word: string) => {
+    const need = wanted.get(word);
+    if (need === undefined) return;
+    const have = (inWindow.get(word) || 0) + 1;
+    inWindow.set(word, have);
+    if (have <= need) matched++;
+  };
+  const remove = (word: string) => {
+    const need = wanted.get(word);
+    if (need === undefined) return;
+    const have = inWindow.get(word)! - 1;
+    inWindow.set(word, have);
+    if (have < need) matched--;
+  };
+
+  let best: { index: number; score: number; start: number } | null = null;
+  for (let i = 0; i < documentTokens.length; i++) {
+    add(documentTokens[i].word);
+    if (i >= size) remove(documentTokens[i - size].word);
+    if (i < size - 1) continue;
+
+    const index = i - size + 1;
+    const score = matched / size;
+    const start = documentTokens[index].start;
+    const closer = best && hint !== null && Math.abs(start - hint) < Math.abs(best.start - hint);
+    if (!best || score > best.score || (score === best.score && closer)) {
+      best = { index, score, start };
+    }
+  }
+
+  if (!best || best.score < FUZZY_THRESHOLD) return null;
+
+  // Trim window edges that aren't part of the requirement so the highlight hugs the text
+  let first = best.index;
+  let last = best.index + size - 1;
+  while (first < last && !wanted.has(documentTokens[first].word)) first++;
+  while (last > first && !wanted.has(documentTokens[last].word)) last--;
+  return { start: documentTokens[first].start, end: documentTokens[last].end };
+}
+
+export interface DocumentIndex {
+  content: string;
+  normalized: { normalized: string; offsets: number[] };
+  tokens: Token[];
+}
+
+// Builds the normalized and tokenized views once so many requirements can be anchored cheaply
+export function indexDocument(content: string): DocumentIndex {
+  return { content, normalized: normalizeWithMap(content), tokens: tokenize(content) };
+}
+
+export function anchorText(index: DocumentIndex, text: string, hint: number | null = null): TextAnchor {
+  const trimmed = text.trim();
+  if (!trimmed) return { highlightStart: null, highlightEnd: null, matchQuality: "not_found" };
+
+  const exact = findExact(index.content, trimmed, hint);
+  if (exact) return { highlightStart: exact.start, highlightEnd: exact.end, matchQuality: "exact" };
+
+  const normalized = findNormalized(index.normalized, trimmed, hint);
+  if (normalized) return { highlightStart: normalized.start, highlightEnd: normalized.end, matchQuality: "normalized" };
+
+  const fuzzy = findFuzzy(index.tokens, trimmed, hint);
+  if (fuzzy) return { highlightStart: fuzzy.start, highlightEnd: fuzzy.end, matchQuality: "fuzzy" };
+
+  return { highlightStart: null, highlightEnd: null, matchQuality: "not_found" };
+}
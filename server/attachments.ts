@@ -0,0 +1,50 @@
+import path from "path";
+import { storage } from "./storage";
+import { extractAttachmentText, saveOriginalDocument, type UploadedFile } from "./documents";
+import type { AttachmentRole, Rfp, RfpAttachment } from "@shared/schema";
+
+// Solicitation attachments, and looking up the text a requirement's offsets point into.
+
+const ROLE_PATTERNS: [AttachmentRole, RegExp][] = [
+  ["sow", /\b(sow|pws|soo|statement[\s_-]+of[\s_-]+(work|objectives)|performance[\s_-]+work)\b/i],
+  ["pricing", /\b(pric(e|ing)|cost|clin|bid[\s_-]+schedule|rate[\s_-]+sheet)/i],
+  ["wage_determination", /\b(wage|wd[\s_-]*\d|determination)/i],
+  ["forms", /\b(forms?|sf[\s_-]*\d+|certifications?|representations?)\b/i],
+];
+
+// A first guess from the file name; the PM can change it
+export function guessAttachmentRole(filename: string): AttachmentRole {
+  const name = path.basename(filename, path.extname(filename)).replace(/_/g, " ");
+  const match = ROLE_PATTERNS.find(([, pattern]) => pattern.test(name));
+  return match ? match[0] : "other";
+}
+
+export async function createAttachment(
+  rfpId: number,
+  file: UploadedFile,
+  role: AttachmentRole | null,
+  uploadedById: string | null,
+): Promise<RfpAttachment> {
+  const extracted = await extractAttachmentText(file);
+  const storedPath = await saveOriginalDocument(file);
+  return storage.createAttachment({
+    rfpId,
+    role: role ?? guessAttachmentRole(file.originalname),
+    documentName: file.originalname,
+    documentPath: storedPath,
+    documentMimeType: file.mimetype,
+    format: extracted.format,
+    documentContent: extracted.text,
+    pageCount: extracted.pageCount,
+    uploadedById,
+  });
+}
+
+// The RFP's main document for a null id, otherwise the attachment's text
+export type SourceContent = (attachmentId: number | null) => string;
+
+export async function loadSourceContent(rfp: Rfp): Promise<SourceContent> {
+  const attachments = await storage.getAttachmentsByRfp(rfp.id);
+  const contents = new Map(attachments.map(a => [a.id, a.documentContent]));
+  return attachmentId => (attachmentId === null ? rfp.documentContent || "" : contents.get(attachmentId) ?? "");
+}
@@ -0,0 +1,155 @@
+import type { Express, Request, RequestHandler, Response, NextFunction } from "express";
+import type { IncomingMessage } from "http";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { pool } from "./db";
+import { storage } from "./storage";
+import type { User as SelectUser, PublicUser } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+let sessionMiddleware: RequestHandler | undefined;
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+// Never send password hashes to the client
+export function toPublicUser(user: SelectUser): PublicUser {
+  const { password: _password, ...publicUser } = user;
+  return publicUser;
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Not authenticated" });
+  }
+  next();
+}
+
+// Gate a route on a rule from @shared/permissions; 403 carries a message the UI can show
+export function requirePermission(check: (user: SelectUser) => boolean, message: string) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user || !check(req.user)) {
+      return res.status(403).json({ error: message });
+    }
+    next();
+  };
+}
+
+// WebSocket upgrades skip the Express stack, so their session cookie is read here instead
+export function getSessionUser(req: IncomingMessage): Promise<SelectUser | null> {
+  return new Promise((resolve, reject) => {
+    if (!sessionMiddleware) return resolve(null);
+    const request = req as Request;
+    sessionMiddleware(request, {} as Response, async (error?: unknown) => {
+      if (error) return reject(error);
+      const userId = (request.session as { passport?: { user?: string } } | undefined)?.passport?.user;
+      if (!userId) return resolve(null);
+      try {
+        const user = await storage.getUser(userId);
+        resolve(user?.isActive ? user : null);
+      } catch (lookupError) {
+        reject(lookupError);
+      }
+    });
+  });
+}
+
+export function setupAuth(app: Express) {
+  const PgSession = connectPg(session);
+
+  app.set("trust proxy", 1);
+  sessionMiddleware = session({
+    store: new PgSession({ pool, createTableIfMissing: true }),
+    secret: process.env.SESSION_SECRET || "pmcc-dev-session-secret",
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: 7 * 24 * 60 * 60 * 1000,
+    },
+  });
+  app.use(sessionMiddleware);
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !user.isActive || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user?.isActive ? user : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/login", (req: Request, res: Response, next: NextFunction) => {
+    passport.authenticate("local", (error: unknown, user: SelectUser | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ error: "Invalid username or password" });
+      }
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req: Request, res: Response, next: NextFunction) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.status(204).send();
+      });
+    });
+  });
+
+  app.get("/api/me", (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    res.json(toPublicUser(req.user));
+  });
+
+  // Everything else under /api needs a signed-in user
+  app.use("/api", requireAuth);
+}
@@ -0,0 +1,384 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import { WebSocketServer, WebSocket } from "ws";
+import * as Y from "yjs";
+import * as syncProtocol from "y-protocols/sync";
+import * as awarenessProtocol from "y-protocols/awareness";
+import * as encoding from "lib0/encoding";
+import * as decoding from "lib0/decoding";
+import { getSchema } from "@tiptap/core";
+import { generateHTML, generateJSON } from "@tiptap/html/server";
+import { prosemirrorJSONToYXmlFragment, yXmlFragmentToProseMirrorRootNode } from "@tiptap/y-tiptap";
+import { storage } from "./storage";
+import { getSessionUser } from "./auth";
+import { recordRevision } from "./section-revisions";
+import { canEditSection } from "@shared/permissions";
+import { COLLABORATION_FIELD, COLLABORATION_META, richTextExtensions } from "@shared/rich-text";
+import type { InsertResponseSection, ResponseSection, User } from "@shared/schema";
+
+// Live co-editing of response sections. Every section open in an editor has a room holding one
+// Y.Doc; browsers speak the y-websocket protocol (document sync plus awareness for cursors) and
+// the room writes the merged document back to the section as HTML. The Yjs state is saved with
+// it so an editor that reconnects merges into the same document instead of duplicating its text.
+
+const SECTION_PATH = /^\/api\/collab\/sections\/(\d+)$/;
+const MESSAGE_SYNC = 0;
+const MESSAGE_AWARENESS = 1;
+const PERSIST_DELAY_MS = 2000;
+const PING_INTERVAL_MS = 30000;
+// Origin of the room's own bookkeeping changes, which aren't edits and don't need saving
+const SERVER_ORIGIN = "server";
+
+const extensions = richTextExtensions();
+const schema = getSchema(extensions);
+
+interface Connection {
+  user: User;
+  // Awareness client ids this socket announced, cleared when it goes away
+  awarenessIds: Set<number>;
+}
+
+interface SectionRoom {
+  sectionId: number;
+  section: ResponseSection;
+  doc: Y.Doc;
+  awareness: awarenessProtocol.Awareness;
+  connections: Map<WebSocket, Connection>;
+  persistTimer: NodeJS.Timeout | null;
+  // Whoever made the latest live edit, credited with the revision the next save writes
+  lastEditorId: string | null;
+}
+
+interface SaveSectionOptions {
+  expectedVersion?: number;
+  authorId?: string | null;
+  restoredFromId?: number;
+}
+
+// Keyed by section id; rooms load asynchronously, so concurrent joins share the pending promise
+const rooms = new Map<number, Promise<SectionRoom | null>>();
+
+function htmlToFragment(content: string, fragment: Y.XmlFragment) {
+  prosemirrorJSONToYXmlFragment(schema, generateJSON(content, extensions), fragment);
+}
+
+function fragmentToHtml(fragment: Y.XmlFragment): string {
+  return generateHTML(yXmlFragmentToProseMirrorRootNode(fragment, schema).toJSON(), extensions);
+}
+
+function send(ws: WebSocket, message: Uint8Array) {
+  if (ws.readyState === WebSocket.OPEN) ws.send(message);
+}
+
+function broadcast(room: SectionRoom, message: Uint8Array) {
+  room.connections.forEach((_, ws) => send(ws, message));
+}
+
+// Editors send the version with their next save, so it has to follow every write; the title comes
+// along so they can tell whether a new version touched the title they may be editing
+function publishVersion(room: SectionRoom) {
+  const meta = room.doc.getMap(COLLABORATION_META);
+  room.doc.transact(() => {
+    meta.set("version", room.section.version);
+    meta.set("title", room.section.title);
+  }, SERVER_ORIGIN);
+}
+
+async function persistRoom(room: SectionRoom, authorId = room.lastEditorId, restoredFromId?: number) {
+  if (room.persistTimer) {
+    clearTimeout(room.persistTimer);
+    room.persistTimer = null;
+  }
+  const previous = room.section;
+  const section = await storage.updateResponseSection(room.sectionId, {
+    content: fragmentToHtml(room.doc.getXmlFragment(COLLABORATION_FIELD)),
+    collabState: Buffer.from(Y.encodeStateAsUpdate(room.doc)).toString("base64"),
+  });
+  if (section) {
+    room.section = section;
+    publishVersion(room);
+    await recordRevision(previous, section, authorId, restoredFromId);
+  }
+}
+
+function schedulePersist(room: SectionRoom) {
+  if (room.persistTimer) return;
+  room.persistTimer = setTimeout(() => {
+    room.persistTimer = null;
+    persistRoom(room).catch(error => console.error("Error saving section content:", error));
+  }, PERSIST_DELAY_MS);
+}
+
+async function loadRoom(sectionId: number): Promise<SectionRoom | null> {
+  const section = await storage.getResponseSection(sectionId);
+  if (!section) return null;
+
+  const doc = new Y.Doc();
+  if (section.collabState) {
+    Y.applyUpdate(doc, Buffer.from(section.collabState, "base64"));
+  } else if (section.content) {
+    htmlToFragment(section.content, doc.getXmlFragment(COLLABORATION_FIELD));
+  }
+  const awareness = new awarenessProtocol.Awareness(doc);
+  awareness.setLocalState(null);
+
+  const room: SectionRoom = { sectionId, section, doc, awareness, connections: new Map(), persistTimer: null, lastEditorId: null };
+  publishVersion(room);
+
+  doc.on("update", (update: Uint8Array, origin: unknown) => {
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    syncProtocol.writeUpdate(encoder, update);
+    broadcast(room, encoding.toUint8Array(encoder));
+    if (origin instanceof WebSocket) room.lastEditorId = room.connections.get(origin)?.user.id ?? room.lastEditorId;
+    if (origin !== SERVER_ORIGIN) schedulePersist(room);
+  });
+
+  awareness.on("update", (
+    { added, updated, removed }: { added: number[]; updated: number[]; removed: number[] },
+    origin: unknown,
+  ) => {
+    const connection = origin instanceof WebSocket ? room.connections.get(origin) : undefined;
+    if (connection) {
+      added.forEach(id => connection.awarenessIds.add(id));
+      removed.forEach(id => connection.awarenessIds.delete(id));
+    }
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+    encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(awareness, added.concat(updated, removed)));
+    broadcast(room, encoding.toUint8Array(encoder));
+  });
+
+  return room;
+}
+
+function getRoom(sectionId: number): Promise<SectionRoom | null> {
+  let room = rooms.get(sectionId);
+  if (!room) {
+    room = loadRoom(sectionId);
+    rooms.set(sectionId, room);
+    room.then(loaded => {
+      if (!loaded) rooms.delete(sectionId);
+    }, () => rooms.delete(sectionId));
+  }
+  return room;
+}
+
+function closeRoom(room: SectionRoom) {
+  if (room.persistTimer) clearTimeout(room.persistTimer);
+  rooms.delete(room.sectionId);
+  room.awareness.destroy();
+  room.doc.destroy();
+}
+
+// Sockets whose user may not edit the section still receive the document, but their updates are dropped
+function handleSyncMessage(room: SectionRoom, ws: WebSocket, decoder: decoding.Decoder, encoder: encoding.Encoder) {
+  const connection = room.connections.get(ws);
+  if (!connection) return;
+  const messageType = decoding.readVarUint(decoder);
+  if (messageType === syncProtocol.messageYjsSyncStep1) {
+    syncProtocol.readSyncStep1(decoder, encoder, room.doc);
+  } else if (canEditSection(connection.user, room.section)) {
+    if (messageType === syncProtocol.messageYjsSyncStep2) {
+      syncProtocol.readSyncStep2(decoder, room.doc, ws);
+    } else if (messageType === syncProtocol.messageYjsUpdate) {
+      syncProtocol.readUpdate(decoder, room.doc, ws);
+    }
+  }
+}
+
+function handleMessage(room: SectionRoom, ws: WebSocket, message: Uint8Array) {
+  const decoder = decoding.createDecoder(message);
+  const encoder = encoding.createEncoder();
+  switch (decoding.readVarUint(decoder)) {
+    case MESSAGE_SYNC:
+      encoding.writeVarUint(encoder, MESSAGE_SYNC);
+      handleSyncMessage(room, ws, decoder, encoder);
+      // Only a sync step 1 needs an answer
+      if (encoding.length(encoder) > 1) send(ws, encoding.toUint8Array(encoder));
+      break;
+    case MESSAGE_AWARENESS:
+      awarenessProtocol.applyAwarenessUpdate(room.awareness, decoding.readVarUint8Array(decoder), ws);
+      break;
+  }
+}
+
+async function disconnect(room: SectionRoom, ws: WebSocket) {
+  const connection = room.connections.get(ws);
+  if (!connection) return;
+  room.connections.delete(ws);
+  awarenessProtocol.removeAwarenessStates(room.awareness, Array.from(connection.awarenessIds), null);
+  if (room.connections.size > 0) return;
+
+  // A pending timer means unsaved changes. The room stays registered while it saves, so an editor
+  // joining meanwhile doesn't load stale content
+  if (room.persistTimer) {
+    try {
+      await persistRoom(room);
+    } catch (error) {
+      console.error("Error saving section content:", error);
+    }
+  }
+  if (room.connections.size === 0 && rooms.has(room.sectionId)) closeRoom(room);
+}
+
+function join(room: SectionRoom, ws: WebSocket, user: User) {
+  ws.binaryType = "arraybuffer";
+  room.connections.set(ws, { user, awarenessIds: new Set() });
+
+  ws.on("message", (data: ArrayBuffer) => {
+    try {
+      handleMessage(room, ws, new Uint8Array(data));
+    } catch (error) {
+      console.error("Error handling collaboration message:", error);
+    }
+  });
+
+  // Browsers that vanish without closing the socket would otherwise keep the room open
+  let alive = true;
+  ws.on("pong", () => {
+    alive = true;
+  });
+  const pingTimer = setInterval(() => {
+    if (!alive) return ws.terminate();
+    alive = false;
+    ws.ping();
+  }, PING_INTERVAL_MS);
+
+  ws.on("close", () => {
+    clearInterval(pingTimer);
+    disconnect(room, ws);
+  });
+
+  const encoder = encoding.createEncoder();
+  encoding.writeVarUint(encoder, MESSAGE_SYNC);
+  syncProtocol.writeSyncStep1(encoder, room.doc);
+  send(ws, encoding.toUint8Array(encoder));
+
+  const states = room.awareness.getStates();
+  if (states.size > 0) {
+    const awarenessEncoder = encoding.createEncoder();
+    encoding.writeVarUint(awarenessEncoder, MESSAGE_AWARENESS);
+    encoding.writeVarUint8Array(awarenessEncoder, awarenessProtocol.encodeAwarenessUpdate(room.awareness, Array.from(states.keys())));
+    send(ws, encoding.toUint8Array(awarenessEncoder));
+  }
+}
+
+function reject(socket: Duplex, status: string) {
+  socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+async function handleUpgrade(wss: WebSocketServer, req: IncomingMessage, socket: Duplex, head: Buffer, sectionId: number) {
+  const user = await getSessionUser(req);
+  if (!user) return reject(socket, "401 Unauthorized");
+  const room = await getRoom(sectionId);
+  if (!room) return reject(socket, "404 Not Found");
+  wss.handleUpgrade(req, socket, head, ws => join(room, ws, user));
+}
+
+// Serves /api/collab/sections/:id on the app's HTTP server, next to Vite's HMR socket in development
+export function setupCollaboration(httpServer: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+  httpServer.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const match = SECTION_PATH.exec(new URL(req.url || "/", "http://localhost").pathname);
+    if (!match) return;
+    handleUpgrade(wss, req, socket, head, parseInt(match[1])).catch(error => {
+      console.error("Error opening collaboration session:", error);
+      reject(socket, "500 Internal Server Error");
+    });
+  });
+}
+
+// Section writes from outside the editor (API saves, locking, assignment) go through here. New
+// content goes into the live document when the section is open, so connected editors see it and
+// the room doesn't save over it. Returns undefined when the section moved past expectedVersion.
+export async function saveSection(
+  sectionId: number,
+  { content, ...fields }: Partial<InsertResponseSection>,
+  { expectedVersion, authorId = null, restoredFromId }: SaveSectionOptions = {},
+): Promise<ResponseSection | undefined> {
+  const room = await rooms.get(sectionId);
+  if (!room) {
+    if (content === undefined) return storage.updateResponseSection(sectionId, fields, expectedVersion);
+    const previous = await storage.getResponseSection(sectionId);
+    const section = await storage.updateResponseSection(sectionId, { ...fields, content, collabState: null }, expectedVersion);
+    if (previous && section) await recordRevision(previous, section, authorId, restoredFromId);
+    return section;
+  }
+
+  const section = await storage.updateResponseSection(sectionId, fields, expectedVersion);
+  if (!section) return undefined;
+  await applyToRoom(room, section, content, authorId, restoredFromId);
+  return room.section;
+}
+
+// Saves several sections as one: the version checks and field writes share a transaction, so when
+// any section conflicts nothing is saved and the conflicting ids come back instead
+export async function saveSections(
+  saves: { sectionId: number; fields: Partial<InsertResponseSection>; expectedVersion?: number }[],
+  authorId: string | null = null,
+): Promise<{ sections: ResponseSection[]; conflicts: number[] }> {
+  const openRooms = new Map<number, SectionRoom>();
+  const previous = new Map<number, ResponseSection>();
+  for (const { sectionId, fields } of saves) {
+    const room = await rooms.get(sectionId);
+    if (room) {
+      openRooms.set(sectionId, room);
+    } else if (fields.content !== undefined) {
+      const section = await storage.getResponseSection(sectionId);
+      if (section) previous.set(sectionId, section);
+    }
+  }
+
+  // Content for an open section waits until the transaction has gone through, then goes into its live document
+  const result = await storage.updateResponseSections(saves.map(({ sectionId, fields: { content, ...fields }, expectedVersion }) => ({
+    id: sectionId,
+    changes: openRooms.has(sectionId) || content === undefined ? fields : { ...fields, content, collabState: null },
+    expectedVersion,
+  })));
+  if (result.conflicts.length > 0) return result;
+
+  const sections: ResponseSection[] = [];
+  for (const section of result.sections) {
+    const content = saves.find(s => s.sectionId === section.id)?.fields.content;
+    const room = openRooms.get(section.id);
+    if (room) {
+      await applyToRoom(room, section, content, authorId);
+      sections.push(room.section);
+      continue;
+    }
+    const before = previous.get(section.id);
+    if (before) await recordRevision(before, section, authorId);
+    sections.push(section);
+  }
+  return { sections, conflicts: [] };
+}
+
+// Follows a write to an open section's row; new content replaces the live document and is saved from it
+async function applyToRoom(
+  room: SectionRoom,
+  section: ResponseSection,
+  content: string | undefined,
+  authorId: string | null,
+  restoredFromId?: number,
+) {
+  // Lock and assignment changes decide who may keep editing
+  room.section = section;
+  if (content === undefined) {
+    publishVersion(room);
+    return;
+  }
+  // Live edits not saved yet become their author's revision before the new content replaces them
+  if (room.persistTimer) await persistRoom(room);
+  htmlToFragment(content, room.doc.getXmlFragment(COLLABORATION_FIELD));
+  await persistRoom(room, authorId, restoredFromId);
+}
+
+export async function closeSection(sectionId: number): Promise<void> {
+  const room = await rooms.get(sectionId);
+  if (!room) return;
+  closeRoom(room);
+  room.connections.forEach((_, ws) => ws.close());
+  room.connections.clear();
+}
@@ -0,0 +1,62 @@
+import * as XLSX from "xlsx";
+import { storage } from "./storage";
+import { loadSourceContent } from "./attachments";
+import { pageAtOffset } from "@shared/documents";
+import { buildOutline, flattenOutline } from "@shared/outline";
+import type { Requirement, RequirementWithSections, Rfp } from "@shared/schema";
+
+export type ComplianceMatrixFormat = "csv" | "xlsx";
+
+const COLUMNS = ["#", "Requirement", "RFP Reference", "RFP Document", "RFP Page", "Response Section", "Status"];
+
+export async function withRequirementSections(requirements: Requirement[]): Promise<RequirementWithSections[]> {
+  const links = await storage.getRequirementSections(requirements.map(r => r.id));
+  return requirements.map(requirement => ({
+    ...requirement,
+    sectionIds: links.filter(l => l.requirementId === requirement.id).map(l => l.sectionId),
+  }));
+}
+
+// One row per active requirement in solicitation outline order: each paragraph is followed by
+// the requirements nested under it. Requirements without a reference number go last.
+async function buildRows(rfp: Rfp): Promise<(string | number)[][]> {
+  const requirements = await withRequirementSections(await storage.getRequirementsByRfp(rfp.id));
+  const response = await storage.getResponseByRfp(rfp.id);
+  const sections = response?.sections || [];
+  // Pages are counted in the file each requirement came from
+  const contentOf = await loadSourceContent(rfp);
+  const attachments = await storage.getAttachmentSummaries(rfp.id);
+  const documentName = (attachmentId: number | null) =>
+    (attachmentId === null ? rfp.documentName : attachments.find(a => a.id === attachmentId)?.documentName) || "";
+
+  const ordered = flattenOutline(buildOutline(requirements)).map(node => node.item);
+
+  return ordered.map((requirement, i) => [
+    i + 1,
+    requirement.text,
+    requirement.referenceNumber || requirement.section || "",
+    documentName(requirement.attachmentId),
+    requirement.highlightStart === null ? "" : pageAtOffset(contentOf(requirement.attachmentId), requirement.highlightStart),
+    sections.filter(s => requirement.sectionIds.includes(s.id)).map(s => s.title).join("; "),
+    requirement.status || "pending",
+  ]);
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export async function exportComplianceMatrix(rfp: Rfp, format: ComplianceMatrixFormat): Promise<Buffer> {
+  const rows = [COLUMNS, ...(await buildRows(rfp))];
+
+  if (format === "csv") {
+    return Buffer.from(rows.map(row => row.map(csvCell).join(",")).join("\r\n"), "utf-8");
+  }
+
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  sheet["!cols"] = [{ wch: 5 }, { wch: 80 }, { wch: 18 }, { wch: 30 }, { wch: 9 }, { wch: 40 }, { wch: 12 }];
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, "Compliance Matrix");
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+}
@@ -0,0 +1,134 @@
+import { z } from "zod";
+import { completeJson } from "./llm";
+import { batchProcess } from "./replit_integrations/batch";
+import { htmlToPlainText } from "./documents";
+import { checkCoverageByKeywords, type CoverageRequirement, type CoverageSection } from "./keyword-coverage";
+import type { CoverageCheckResult, CoverageFinding, CoverageMode, Requirement, ResponseSection } from "@shared/schema";
+
+// Keeps each prompt to the response plus a manageable list of requirements to judge
+const REQUIREMENTS_PER_BATCH = 15;
+const MAX_SECTION_CHARS = 8000;
+
+function normalizeQuote(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+// The shape the model is asked for; ids may come back as strings, and fields it gets wrong count as missing
+const modelFindingSchema = z.object({
+  requirementId: z.coerce.number(),
+  status: z.string().nullable().catch(null),
+  sectionId: z.coerce.number().nullable().catch(null),
+  quote: z.string().trim().nullable().catch(null),
+  gap: z.string().trim().nullable().catch(null),
+  confidence: z.number().nullable().catch(null),
+});
+
+type ModelFinding = z.infer<typeof modelFindingSchema>;
+
+function modelFindings(result: unknown): ModelFinding[] {
+  const items = z.object({ results: z.array(z.unknown()) }).safeParse(result).data?.results ?? [];
+  return items.flatMap(item => {
+    const parsed = modelFindingSchema.safeParse(item);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+// The model's findings are only trusted as far as they can be checked: the section must exist
+// and the quote must really be in it
+function toFinding(raw: ModelFinding | undefined, requirement: CoverageRequirement, sections: CoverageSection[]): CoverageFinding {
+  const section = sections.find(s => s.id === raw?.sectionId);
+  const quote = raw?.quote || null;
+  const verifiedQuote = section && quote && normalizeQuote(section.text).includes(normalizeQuote(quote)) ? quote : null;
+  const confidence = typeof raw?.confidence === "number" ? Math.max(0, Math.min(1, raw.confidence)) : 0.5;
+
+  if (raw?.status === "addressed" && section) {
+    return { requirementId: requirement.id, status: "addressed", sectionId: section.id, quote: verifiedQuote, gap: null, confidence };
+  }
+  return {
+    requirementId: requirement.id,
+    status: "pending",
+    sectionId: null,
+    quote: null,
+    gap: raw?.gap || (raw?.status === "addressed" ? "The model did not cite a section of this response" : "Not assessed"),
+    confidence: raw?.status === "addressed" ? 0 : confidence,
+  };
+}
+
+async function checkBatch(batch: CoverageRequirement[], sections: CoverageSection[]): Promise<CoverageFinding[]> {
+  const responseText = sections.map(s => `[Section ${s.id}] ${s.title}\n${s.text}`).join("\n\n");
+  const requirementText = batch.map(r => `[Requirement ${r.id}] ${r.text}`).join("\n");
+
+  const result = await completeJson<unknown>({
+    feature: "coverage",
+    input: JSON.stringify({ requirements: batch, sections }),
+    messages: [
+      {
+        role: "system",
+        content: `You are a proposal compliance reviewer. Decide whether each RFP requirement is answered by the proposal response.
+        A requirement is addressed only if a section explicitly responds to it; a passing mention of the topic is not enough.
+        For each requirement return:
+        - requirementId: the number in [Requirement N]
+        - status: "addressed" or "pending"
+        - sectionId: the number in [Section N] of the section that answers it (addressed only)
+        - quote: a sentence copied exactly from that section showing it is answered (addressed only)
+        - gap: for pending requirements, one sentence on what the response is missing
+        - confidence: 0 to 1
+
+        Return a JSON object: { "results": [{ "requirementId": number, "status": "addressed|pending", "sectionId": number|null, "quote": string|null, "gap": string|null, "confidence": number }] }
+
+        Only return valid JSON.`
+      },
+      {
+        role: "user",
+        content: `Proposal response:\n\n${responseText}\n\nRequirements to check:\n${requirementText}`
+      }
+    ],
+    maxTokens: 4096,
+  });
+
+  const results = modelFindings(result);
+  return batch.map(requirement =>
+    toFinding(results.find(r => r.requirementId === requirement.id), requirement, sections));
+}
+
+async function checkWithLlm(requirements: CoverageRequirement[], sections: CoverageSection[]): Promise<CoverageFinding[]> {
+  const batches: CoverageRequirement[][] = [];
+  for (let i = 0; i < requirements.length; i += REQUIREMENTS_PER_BATCH) {
+    batches.push(requirements.slice(i, i + REQUIREMENTS_PER_BATCH));
+  }
+  const results = await batchProcess(batches, batch => checkBatch(batch, sections), { concurrency: 2 });
+  return results.flat();
+}
+
+/**
+ * Proposes a status for every pending requirement from the current response sections.
+ * The llm mode falls back to keyword overlap if the model can't be reached.
+ */
+export async function checkCoverage(
+  requirements: Requirement[],
+  responseSections: ResponseSection[],
+  mode: CoverageMode = "llm",
+): Promise<CoverageCheckResult> {
+  const pending = requirements
+    .filter(r => !r.status || r.status === "pending")
+    .map(r => ({ id: r.id, text: r.text }));
+  const sections = responseSections
+    .map(s => ({ id: s.id, title: s.title, text: htmlToPlainText(s.content || "").slice(0, MAX_SECTION_CHARS) }))
+    .filter(s => s.text);
+
+  if (mode === "keywords" || pending.length === 0 || sections.length === 0) {
+    return { mode, notice: null, findings: checkCoverageByKeywords(pending, sections) };
+  }
+
+  try {
+    return { mode, notice: null, findings: await checkWithLlm(pending, sections) };
+  } catch (error) {
+    console.error("LLM coverage check failed, falling back to keyword overlap:", error);
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      mode: "keywords",
+      notice: `AI coverage check failed (${message}); used keyword overlap instead`,
+      findings: checkCoverageByKeywords(pending, sections),
+    };
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { extractDeadlines, nextDeadline, parseDate } from "./deadlines";
+import type { Rfp, RfpDeadline } from "@shared/schema";
+
+const summary = (content: string) => extractDeadlines(content).map(d => [d.type, d.dueAt]);
+
+describe("parseDate", () => {
+  it("reads the date formats solicitations use, in local time", () => {
+    const expected = new Date(2026, 3, 15).getTime();
+    for (const text of ["April 15, 2026", "Apr. 15th 2026", "15 April 2026", "04/15/2026", "2026-04-15"]) {
+      assert.equal(parseDate(text)?.getTime(), expected, text);
+    }
+  });
+
+  it("rejects dates that don't exist", () => {
+    assert.equal(parseDate("February 30, 2026"), null);
+    assert.equal(parseDate("13/01/2026"), null);
+  });
+});
+
+describe("extractDeadlines", () => {
+  it("labels each date by the words before it, with any time of day", () => {
+    assert.deepEqual(summary(
+      "Questions are due March 3, 2026 at 2:00 p.m.; proposals are due April 15, 2026 at noon.",
+    ), [
+      ["questions_due", new Date(2026, 2, 3, 14, 0)],
+      ["proposal_due", new Date(2026, 3, 15, 12, 0)],
+    ]);
+  });
+
+  it("reads schedule tables with the date on the line after its label", () => {
+    assert.deepEqual(summary([
+      "SCHEDULE OF EVENTS",
+      "Pre-proposal conference",
+      "February 20, 2026",
+      "Oral presentations",
+      "05/04/2026",
+      "Contract start July 1, 2026",
+    ].join("\n")), [
+      ["pre_proposal_conference", new Date(2026, 1, 20)],
+      ["oral_presentation", new Date(2026, 4, 4)],
+    ]);
+  });
+
+  it("records each date once and keeps the line it came from", () => {
+    const deadlines = extractDeadlines([
+      "Proposals must be received by April 15, 2026.",
+      "Late proposals received after April 15, 2026 will not be considered.",
+    ].join("\n"));
+    assert.equal(deadlines.length, 1);
+    assert.equal(deadlines[0].sourceText, "Proposals must be received by April 15, 2026.");
+  });
+});
+
+describe("nextDeadline", () => {
+  const now = new Date(2026, 2, 1);
+  const rfp = { dueDate: new Date(2026, 3, 15) } as Rfp;
+  const deadline = (type: RfpDeadline["type"], dueAt: Date) => ({ type, label: null, dueAt }) as RfpDeadline;
+
+  it("picks the soonest upcoming key date", () => {
+    const next = nextDeadline(rfp, [
+      deadline("questions_due", new Date(2026, 1, 1)),
+      deadline("site_visit", new Date(2026, 2, 10)),
+    ], now);
+    assert.deepEqual(next, { type: "site_visit", label: null, dueAt: new Date(2026, 2, 10) });
+  });
+
+  it("lets a proposal_due key date supersede the RFP's due date", () => {
+    const next = nextDeadline(rfp, [deadline("proposal_due", new Date(2026, 3, 20))], now);
+    assert.deepEqual(next?.dueAt, new Date(2026, 3, 20));
+  });
+
+  it("falls back to the RFP's due date once every date has passed", () => {
+    const late = new Date(2026, 5, 1);
+    assert.deepEqual(nextDeadline(rfp, [deadline("site_visit", new Date(2026, 2, 10))], late)?.dueAt, rfp.dueDate);
+    assert.equal(nextDeadline({ dueDate: null } as Rfp, [], late), null);
+  });
+});
@@ -0,0 +1,167 @@
+import { storage } from "./storage";
+import { PAGE_BREAK } from "@shared/documents";
+import type { DeadlineType, NextDeadline, Rfp, RfpDeadline, RfpWithNextDeadline } from "@shared/schema";
+
+const MONTHS = "January|February|March|April|May|June|July|August|September|October|November|December|Jan|Feb|Mar|Apr|Jun|Jul|Aug|Sept?|Oct|Nov|Dec";
+export const DATE_PATTERN = `(?:(?:${MONTHS})\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4}|\\d{1,2}(?:st|nd|rd|th)?\\s+(?:${MONTHS})\\.?,?\\s+\\d{4}|\\d{1,2}/\\d{1,2}/\\d{4}|\\d{4}-\\d{2}-\\d{2})`;
+const TIME_PATTERN = /\b(\d{1,2})(?::(\d{2}))?\s*([ap])\.?\s?m\.?(?![a-z])|\b(noon)\b/i;
+
+// Checked in order: "questions regarding proposals are due" is a question deadline, not the proposal's
+const DEADLINE_KEYWORDS: { type: DeadlineType; pattern: RegExp }[] = [
+  { type: "questions_due", pattern: /\b(questions?|inquiries|clarifications?|RFIs?)\b/i },
+  { type: "intent_to_bid", pattern: /\b(intent to (bid|propose|respond|submit|offer)|letter of intent)\b/i },
+  { type: "pre_proposal_conference", pattern: /\bpre-?\s?(proposal|bid|offeror'?s?|submittal)\s+(conference|meeting)\b/i },
+  { type: "site_visit", pattern: /\bsite (visit|walk|walkthrough|inspection|tour)\b/i },
+  { type: "oral_presentation", pattern: /\boral (presentations?|interviews?|demonstrations?)\b/i },
+  {
+    type: "proposal_due",
+    pattern: /\b((proposals?|responses?|offers?|bids?|quotes?|quotations?|submissions?)\b.{0,30}\b(due|received|submitted|deadline)|closing date|submission deadline|due date|closes)\b/i,
+  },
+];
+
+export interface ExtractedDeadline {
+  type: DeadlineType;
+  dueAt: Date;
+  sourceText: string;
+}
+
+function monthIndex(name: string): number {
+  return MONTHS.split("|").findIndex(m => m.slice(0, 3).toLowerCase() === name.slice(0, 3).toLowerCase()) % 12;
+}
+
+// Builds the date in server-local time; Date parsing would read ISO dates as UTC midnight
+export function parseDate(text: string): Date | null {
+  const clean = text.replace(/(\d)(st|nd|rd|th)/, "$1").replace(/[.,]/g, " ").trim();
+  let year: number, month: number, day: number;
+  let match: RegExpMatchArray | null;
+  if ((match = clean.match(/^(\d{4})-(\d{2})-(\d{2})$/))) {
+    [year, month, day] = [Number(match[1]), Number(match[2]) - 1, Number(match[3])];
+  } else if ((match = clean.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/))) {
+    [year, month, day] = [Number(match[3]), Number(match[1]) - 1, Number(match[2])];
+  } else if ((match = clean.match(/^([A-Za-z]+)\s+(\d{1,2})\s+(\d{4})$/))) {
+    [year, month, day] = [Number(match[3]), monthIndex(match[1]), Number(match[2])];
+  } else if ((match = clean.match(/^(\d{1,2})\s+([A-Za-z]+)\s+(\d{4})$/))) {
+    [year, month, day] = [Number(match[3]), monthIndex(match[2]), Number(match[1])];
+  } else {
+    return null;
+  }
+  const date = new Date(year, month, day);
+  return month >= 0 && date.getMonth() === month && date.getDate() === day ? date : null;
+}
+
+// Applies a time of day written near the date ("2:00 p.m.", "noon"); dates without one stay at midnight
+function applyTime(date: Date, text: string): Date {
+  const match = text.match(TIME_PATTERN);
+  if (!match) return date;
+  const withTime = new Date(date);
+  if (match[4]) {
+    withTime.setHours(12, 0);
+    return withTime;
+  }
+  let hours = Number(match[1]) % 12;
+  if (match[3].toLowerCase() === "p") hours += 12;
+  withTime.setHours(hours, Number(match[2] || 0));
+  return withTime;
+}
+
+function classifyDeadline(text: string): DeadlineType | null {
+  return DEADLINE_KEYWORDS.find(k => k.pattern.test(text))?.type ?? null;
+}
+
+/**
+ * Finds key dates by pairing each date with a deadline phrase on the same line. Schedule
+ * tables often put the label on one line and the date on the next, so a labelled line
+ * without a date borrows the date from the line that follows.
+ */
+export function extractDeadlines(content: string): ExtractedDeadline[] {
+  const lines = content
+    .split(/\n/)
+    .map(line => line.replace(new RegExp(PAGE_BREAK, "g"), "").replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+  const datePattern = new RegExp(DATE_PATTERN, "gi");
+  const deadlines: ExtractedDeadline[] = [];
+  const seen = new Set<string>();
+
+  for (let i = 0; i < lines.length; i++) {
+    let line = lines[i];
+    if (line.length > 400) continue;
+    if (!line.match(datePattern) && i + 1 < lines.length && classifyDeadline(line) && lines[i + 1].length < 80) {
+      line = `${line} ${lines[i + 1]}`;
+    }
+
+    let match: RegExpExecArray | null;
+    datePattern.lastIndex = 0;
+    while ((match = datePattern.exec(line)) !== null) {
+      // Only the words leading up to this date label it, so "questions due May 1; proposals due June 1" splits cleanly
+      const label = line.slice(0, match.index).split(/[;•]|\.\s/).pop() || "";
+      const type = classifyDeadline(label) ?? classifyDeadline(line);
+      const date = parseDate(match[0]);
+      if (!type || !date) continue;
+
+      // "March 3, 2025 at 2:00 p.m." is more common than "2:00 p.m. on March 3, 2025", so look after the date first
+      const after = line.slice(match.index + match[0].length, match.index + match[0].length + 30).split(/[;•]|\.\s/)[0];
+      const dueAt = applyTime(date, TIME_PATTERN.test(after) ? after : label.slice(-30));
+      const key = `${type}:${dueAt.toDateString()}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      deadlines.push({ type, dueAt, sourceText: line.slice(0, 300) });
+    }
+  }
+
+  return deadlines.sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+}
+
+// Replaces the previous run's extracted dates. Dates a PM added or edited are kept, and
+// extraction won't add a second date of a type the PM has already set. An RFP due date that was
+// unset or taken from the previous run's proposal_due date follows the new one, and is cleared
+// when the document no longer has one; a due date set by hand is left alone.
+export async function syncExtractedDeadlines(rfp: Rfp, extracted: ExtractedDeadline[]): Promise<RfpDeadline[]> {
+  const existing = await storage.getDeadlinesByRfp(rfp.id);
+  const manualTypes = new Set(existing.filter(d => d.source === "manual").map(d => d.type));
+  const previousDue = existing.find(d => d.type === "proposal_due" && d.source === "extracted");
+  const saved = await storage.replaceExtractedDeadlines(
+    rfp.id,
+    extracted
+      .filter(d => !manualTypes.has(d.type))
+      .map(d => ({ rfpId: rfp.id, type: d.type, dueAt: d.dueAt, source: "extracted", sourceText: d.sourceText })),
+  );
+
+  const followsExtracted = !rfp.dueDate || previousDue?.dueAt.getTime() === rfp.dueDate.getTime();
+  if (followsExtracted) {
+    const proposalDue = [...existing.filter(d => d.source === "manual"), ...saved].find(d => d.type === "proposal_due");
+    const dueDate = proposalDue?.dueAt ?? null;
+    if (dueDate?.getTime() !== rfp.dueDate?.getTime()) {
+      await storage.updateRfp(rfp.id, { dueDate });
+    }
+  }
+  return saved;
+}
+
+// For when a proposal_due key date is deleted or retyped: the RFP's due date follows the
+// proposal_due date that is left, or is cleared when none is
+export async function refreshRfpDueDate(rfpId: number): Promise<void> {
+  const proposalDue = (await storage.getDeadlinesByRfp(rfpId)).find(d => d.type === "proposal_due");
+  await storage.updateRfp(rfpId, { dueDate: proposalDue?.dueAt ?? null });
+}
+
+// The RFP's own due date counts unless a proposal_due key date supersedes it. Once every
+// date has passed the RFP's due date is still shown so overdue RFPs stand out.
+export function nextDeadline(rfp: Rfp, deadlines: RfpDeadline[], now = new Date()): NextDeadline | null {
+  const candidates: NextDeadline[] = deadlines.map(d => ({ type: d.type, label: d.label, dueAt: d.dueAt }));
+  if (rfp.dueDate && !deadlines.some(d => d.type === "proposal_due")) {
+    candidates.push({ type: "proposal_due", label: null, dueAt: rfp.dueDate });
+  }
+  const upcoming = candidates
+    .filter(d => d.dueAt.getTime() >= now.getTime())
+    .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+  if (upcoming.length > 0) return upcoming[0];
+  return rfp.dueDate ? { type: "proposal_due", label: null, dueAt: rfp.dueDate } : null;
+}
+
+export async function withNextDeadlines(rfps: Rfp[]): Promise<RfpWithNextDeadline[]> {
+  const byRfp = new Map<number, RfpDeadline[]>();
+  for (const deadline of await storage.getDeadlinesByRfps(rfps.map(r => r.id))) {
+    byRfp.set(deadline.rfpId, [...(byRfp.get(deadline.rfpId) || []), deadline]);
+  }
+  return rfps.map(rfp => ({ ...rfp, nextDeadline: nextDeadline(rfp, byRfp.get(rfp.id) || []) }));
+}
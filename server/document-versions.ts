@@ -0,0 +1,75 @@
+import { storage } from "./storage";
+import { anchorText, indexDocument } from "./anchoring";
+import { refreshRequirementOutline } from "./requirement-outline";
+import type { DocumentChangeSummary, InsertRequirement, Requirement } from "@shared/schema";
+
+// Carries requirements over to a new document version (usually an amendment). Each requirement's
+// source text in the old version is looked for in the new one: found as is, it just moves;
+// found reworded, it moves and is flagged as changed; not found, it is flagged as removed.
+
+export interface RequirementDocumentUpdate {
+  id: number;
+  changes: Partial<InsertRequirement>;
+}
+
+export function planDocumentChanges(
+  previousContent: string,
+  content: string,
+  requirements: Requirement[],
+  version: number,
+): { updates: RequirementDocumentUpdate[]; summary: DocumentChangeSummary } {
+  const index = indexDocument(content);
+  const summary: DocumentChangeSummary = { version, unchanged: 0, changed: 0, removed: 0 };
+  const updates: RequirementDocumentUpdate[] = [];
+
+  for (const req of requirements) {
+    // Requirements that never matched the old text have nothing to compare
+    if (req.highlightStart === null || req.highlightEnd === null) continue;
+    const sourceText = previousContent.slice(req.highlightStart, req.highlightEnd);
+    const anchor = anchorText(index, sourceText, req.highlightStart);
+
+    if (anchor.matchQuality === "exact" || anchor.matchQuality === "normalized") {
+      summary.unchanged++;
+      updates.push({ id: req.id, changes: { highlightStart: anchor.highlightStart, highlightEnd: anchor.highlightEnd } });
+    } else if (anchor.matchQuality === "fuzzy") {
+      summary.changed++;
+      updates.push({
+        id: req.id,
+        changes: {
+          highlightStart: anchor.highlightStart,
+          highlightEnd: anchor.highlightEnd,
+          documentChange: "changed",
+          documentChangeVersion: version,
+        },
+      });
+    } else {
+      summary.removed++;
+      updates.push({
+        id: req.id,
+        changes: {
+          highlightStart: null,
+          highlightEnd: null,
+          matchQuality: "not_found",
+          documentChange: "removed",
+          documentChangeVersion: version,
+        },
+      });
+    }
+  }
+
+  return { updates, summary };
+}
+
+export async function carryRequirementsToVersion(
+  rfpId: number,
+  previousContent: string,
+  content: string,
+  version: number,
+): Promise<DocumentChangeSummary> {
+  // Requirements from attachments point into their own files, which a new main document doesn't touch
+  const requirements = (await storage.getRequirementsByRfp(rfpId)).filter(r => r.attachmentId === null);
+  const { updates, summary } = planDocumentChanges(previousContent, content, requirements, version);
+  await storage.applyRequirementDocumentUpdates(updates);
+  await refreshRequirementOutline(rfpId);
+  return summary;
+}
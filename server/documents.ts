@@ -0,0 +1,240 @@
+import multer from "multer";
+import mammoth from "mammoth";
+import * as XLSX from "xlsx";
+import { PDFParse } from "pdf-parse";
+import { randomUUID } from "crypto";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { PAGE_BREAK, SUPPORTED_ATTACHMENT_EXTENSIONS, SUPPORTED_DOCUMENT_EXTENSIONS } from "@shared/documents";
+
+const UPLOAD_DIR = process.env.UPLOAD_DIR || path.resolve(process.cwd(), "uploads");
+const MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+
+export type DocumentFormat = "pdf" | "docx" | "txt";
+export type AttachmentFormat = DocumentFormat | "spreadsheet";
+
+const SPREADSHEET_EXTENSIONS = [".xlsx", ".xls", ".csv"];
+
+export interface ExtractedDocument<F extends AttachmentFormat = DocumentFormat> {
+  format: F;
+  text: string;
+  pageCount: number;
+}
+
+export interface UploadedFile {
+  buffer: Buffer;
+  originalname: string;
+  mimetype: string;
+}
+
+export class UnsupportedDocumentError extends Error {
+  status = 415;
+}
+
+// Files are kept in memory just long enough to extract text and write the original to disk
+export const documentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_BYTES },
+});
+
+export function detectDocumentFormat(file: UploadedFile): DocumentFormat | null {
+  const ext = path.extname(file.originalname).toLowerCase();
+  if (ext === ".pdf" || file.mimetype === "application/pdf") return "pdf";
+  if (ext === ".docx" || file.mimetype === "application/vnd.openxmlformats-officedocument.wordprocessingml.document") {
+    return "docx";
+  }
+  if (ext === ".txt" || file.mimetype.startsWith("text/plain")) return "txt";
+  return null;
+}
+
+// Normalizes line endings and whitespace without touching page breaks
+export function cleanExtractedText(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[\u0000-\u0008\u000B\u000E-\u001F\u007F]/g, "")
+    .replace(/\u00A0/g, " ")
+    .replace(/[ \t]+$/gm, "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+async function extractPdfPages(buffer: Buffer): Promise<string[]> {
+  const parser = new PDFParse({ data: new Uint8Array(buffer) });
+  try {
+    const result = await parser.getText();
+    return result.pages.sort((a, b) => a.num - b.num).map(page => page.text);
+  } finally {
+    await parser.destroy();
+  }
+}
+
+export async function extractDocumentText(file: UploadedFile): Promise<ExtractedDocument> {
+  const format = detectDocumentFormat(file);
+  if (!format) {
+    throw new UnsupportedDocumentError(
+      `Unsupported file type. Upload one of: ${SUPPORTED_DOCUMENT_EXTENSIONS.join(", ")}`,
+    );
+  }
+
+  if (format === "pdf") {
+    const pages = (await extractPdfPages(file.buffer)).map(cleanExtractedText);
+    return { format, text: pages.join(`\n${PAGE_BREAK}\n`), pageCount: pages.length };
+  }
+
+  if (format === "docx") {
+    const result = await mammoth.extractRawText({ buffer: file.buffer });
+    return { format, text: cleanExtractedText(result.value), pageCount: 1 };
+  }
+
+  const text = cleanExtractedText(file.buffer.toString("utf-8"));
+  return { format, text, pageCount: text.split(PAGE_BREAK).length };
+}
+
+// Spreadsheets are read one sheet per page, as comma-separated rows under the sheet name
+export async function extractAttachmentText(file: UploadedFile): Promise<ExtractedDocument<AttachmentFormat>> {
+  if (SPREADSHEET_EXTENSIONS.includes(path.extname(file.originalname).toLowerCase())) {
+    const workbook = XLSX.read(file.buffer, { type: "buffer" });
+    const pages = workbook.SheetNames
+      .map(name => cleanExtractedText(`${name}\n${XLSX.utils.sheet_to_csv(workbook.Sheets[name], { blankrows: false })}`));
+    return { format: "spreadsheet", text: pages.join(`\n${PAGE_BREAK}\n`), pageCount: pages.length };
+  }
+  if (!detectDocumentFormat(file)) {
+    throw new UnsupportedDocumentError(
+      `Unsupported file type. Upload one of: ${SUPPORTED_ATTACHMENT_EXTENSIONS.join(", ")}`,
+    );
+  }
+  return extractDocumentText(file);
+}
+
+// Writes the original upload to UPLOAD_DIR and returns the stored path
+export async function saveOriginalDocument(file: UploadedFile): Promise<string> {
+  await mkdir(UPLOAD_DIR, { recursive: true });
+  const ext = path.extname(file.originalname).toLowerCase();
+  const storedPath = path.join(UPLOAD_DIR, `${randomUUID()}${ext}`);
+  await writeFile(storedPath, file.buffer);
+  return storedPath;
+}
+
+// Stored paths are read back from the database, so downloads only serve files inside UPLOAD_DIR
+export function storedDocumentPath(documentPath: string | null): string | null {
+  if (!documentPath) return null;
+  const uploadDir = path.resolve(UPLOAD_DIR);
+  const resolved = path.resolve(uploadDir, documentPath);
+  const relative = path.relative(uploadDir, resolved);
+  if (!relative || relative.startsWith("..") || path.isAbsolute(relative)) return null;
+  return resolved;
+}
+
+export interface DraftSection {
+  title: string;
+  content: string;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export function htmlToPlainText(html: string): string {
+  return html
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function draftTitleFromFile(file: UploadedFile): string {
+  return path.basename(file.originalname, path.extname(file.originalname)) || "Imported Draft";
+}
+
+// Splits mammoth HTML at the highest heading level the document actually uses
+function splitHtmlAtHeadings(html: string, fallbackTitle: string): DraftSection[] {
+  const levels = [1, 2, 3].filter(level => new RegExp(`<h${level}[\\s>]`, "i").test(html));
+  if (levels.length === 0) {
+    return html.trim() ? [{ title: fallbackTitle, content: html.trim() }] : [];
+  }
+
+  const level = levels[0];
+  const headingPattern = new RegExp(`<h${level}[^>]*>([\\s\\S]*?)</h${level}>`, "gi");
+  const sections: DraftSection[] = [];
+  let title = fallbackTitle;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = headingPattern.exec(html)) !== null) {
+    const body = html.slice(lastIndex, match.index).trim();
+    if (body || lastIndex > 0) {
+      sections.push({ title, content: body });
+    }
+    title = htmlToPlainText(match[1]) || fallbackTitle;
+    lastIndex = headingPattern.lastIndex;
+  }
+  sections.push({ title, content: html.slice(lastIndex).trim() });
+
+  return sections.filter(section => section.content || section.title !== fallbackTitle);
+}
+
+// Numbered ("3.", "3.2 Staffing", "A. Scope") or short all-caps lines read as headings in plain text
+function isPlainTextHeading(line: string): boolean {
+  if (line.length > 100 || /[.,;:]$/.test(line)) return false;
+  if (/^(\d+(\.\d+)*\.?|[A-Z]\.)\s+\S/.test(line)) return true;
+  return line.length >= 3 && line.length <= 80 && /[A-Z]/.test(line) && line === line.toUpperCase();
+}
+
+function splitTextAtHeadings(text: string, fallbackTitle: string): DraftSection[] {
+  const sections: DraftSection[] = [];
+  let title = fallbackTitle;
+  let paragraphs: string[] = [];
+  let current: string[] = [];
+
+  const endParagraph = () => {
+    if (current.length > 0) paragraphs.push(`<p>${escapeHtml(current.join(" "))}</p>`);
+    current = [];
+  };
+  const endSection = () => {
+    endParagraph();
+    if (paragraphs.length > 0 || title !== fallbackTitle) {
+      sections.push({ title, content: paragraphs.join("") });
+    }
+    paragraphs = [];
+  };
+
+  for (const rawLine of text.split("\n")) {
+    const line = rawLine.replace(new RegExp(PAGE_BREAK, "g"), "").trim();
+    if (!line) {
+      endParagraph();
+    } else if (isPlainTextHeading(line)) {
+      endSection();
+      title = line;
+    } else {
+      current.push(line);
+    }
+  }
+  endSection();
+
+  return sections;
+}
+
+// Converts an offline draft into editor-ready HTML sections, one per top-level heading
+export async function extractDraftSections(file: UploadedFile): Promise<DraftSection[]> {
+  const format = detectDocumentFormat(file);
+  const fallbackTitle = draftTitleFromFile(file);
+
+  if (format === "docx") {
+    const result = await mammoth.convertToHtml({ buffer: file.buffer });
+    // The editor has no image extension, and inlined base64 images would bloat every save
+    const html = result.value.replace(/<img[^>]*>/gi, "");
+    return splitHtmlAtHeadings(html, fallbackTitle);
+  }
+
+  const { text } = await extractDocumentText(file);
+  return splitTextAtHeadings(text, fallbackTitle);
+}
@@ -0,0 +1,212 @@
+import { simpleParser, type AddressObject } from "mailparser";
+import { SMTPServer } from "smtp-server";
+import { storage } from "./storage";
+import { log } from "./log";
+import {
+  cleanExtractedText,
+  detectDocumentFormat,
+  extractAttachmentText,
+  saveOriginalDocument,
+  UnsupportedDocumentError,
+  type AttachmentFormat,
+  type ExtractedDocument,
+  type UploadedFile,
+} from "./documents";
+import { guessAttachmentRole } from "./attachments";
+import { DATE_PATTERN, parseDate } from "./deadlines";
+import type { Rfp } from "@shared/schema";
+
+const MAX_MESSAGE_BYTES = 50 * 1024 * 1024;
+
+export interface ParsedRfpEmail {
+  subject: string;
+  from: string | null;
+  agency: string | null;
+  source: "federal" | "state";
+  state: string | null;
+  dueDate: Date | null;
+  body: string;
+  attachments: UploadedFile[];
+}
+
+export interface IngestedAttachment {
+  name: string;
+  format?: string;
+  pageCount?: number;
+  error?: string;
+}
+
+export interface IngestedEmail {
+  rfp: Rfp;
+  attachments: IngestedAttachment[];
+}
+
+const DUE_KEYWORDS = "due|deadline|closing date|closes|submit(?:ted)? by|must be received|no later than|response date";
+
+function stripReplyPrefixes(subject: string): string {
+  return subject.replace(/^\s*((re|fw|fwd)\s*:\s*)+/i, "").trim();
+}
+
+// Picks the first date that follows a due-date phrase, so issue dates in the header don't win
+export function findDueDate(text: string): Date | null {
+  const pattern = new RegExp(`(?:${DUE_KEYWORDS})[^\\n]{0,60}?(${DATE_PATTERN})`, "gi");
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const date = parseDate(match[1]);
+    if (date) return date;
+  }
+  return null;
+}
+
+function firstAddress(address: AddressObject | AddressObject[] | undefined) {
+  const list = Array.isArray(address) ? address : address ? [address] : [];
+  return list.flatMap(a => a.value)[0];
+}
+
+// An explicit "Agency:" line wins over the sender's display name, which wins over the mail domain
+function findAgency(body: string, senderName: string | undefined, senderDomain: string | null): string | null {
+  const labelled = body.match(/^\s*(?:issuing\s+)?(?:agency|department|organization)\s*:\s*(.+)$/im);
+  if (labelled) return labelled[1].trim();
+  if (senderName && !senderName.includes("@")) return senderName.trim();
+  return senderDomain;
+}
+
+// State procurement mail comes from <agency>.<st>.gov or <agency>.state.<st>.us
+function classifySender(domain: string | null): { source: "federal" | "state"; state: string | null } {
+  const match = domain?.match(/\.(?:state\.)?([a-z]{2})\.(?:gov|us)$/i);
+  if (match) return { source: "state", state: match[1].toUpperCase() };
+  return { source: "federal", state: null };
+}
+
+export async function parseRfpEmail(raw: Buffer): Promise<ParsedRfpEmail> {
+  const parsed = await simpleParser(raw);
+  const sender = firstAddress(parsed.from);
+  const senderDomain = sender?.address?.split("@")[1]?.toLowerCase() || null;
+  const subject = stripReplyPrefixes(parsed.subject || "");
+  const body = cleanExtractedText(parsed.text || "");
+
+  return {
+    subject,
+    from: sender?.address || null,
+    agency: findAgency(body, sender?.name, senderDomain),
+    ...classifySender(senderDomain),
+    dueDate: findDueDate(`${subject}\n${body}`),
+    body,
+    // Related parts are inline images referenced from the HTML body (logos, signatures)
+    attachments: parsed.attachments
+      .filter(a => !a.related)
+      .map(a => ({
+        buffer: a.content,
+        originalname: a.filename || "attachment",
+        mimetype: a.contentType,
+      })),
+  };
+}
+
+// Creates a draft RFP from a raw MIME message. The first readable document becomes the RFP's
+// main document; every other readable file (spreadsheets included) is kept as an attachment,
+// with a role guessed from its name.
+export async function ingestRfpEmail(raw: Buffer, assignedPmId: string | null = null): Promise<IngestedEmail> {
+  const email = await parseRfpEmail(raw);
+  const results: IngestedAttachment[] = [];
+  let original: { file: UploadedFile; path: string; text: string } | null = null;
+  const extras: { file: UploadedFile; extracted: ExtractedDocument<AttachmentFormat> }[] = [];
+
+  for (const file of email.attachments) {
+    try {
+      const extracted = await extractAttachmentText(file);
+      if (!extracted.text) {
+        results.push({ name: file.originalname, format: extracted.format, error: "No text could be extracted" });
+        continue;
+      }
+      if (!original && detectDocumentFormat(file)) {
+        original = { file, path: await saveOriginalDocument(file), text: extracted.text };
+      } else {
+        extras.push({ file, extracted });
+      }
+      results.push({ name: file.originalname, format: extracted.format, pageCount: extracted.pageCount });
+    } catch (error) {
+      if (error instanceof UnsupportedDocumentError) {
+        results.push({ name: file.originalname, error: "Unsupported file type" });
+        continue;
+      }
+      console.error(`Error extracting email attachment ${file.originalname}:`, error);
+      results.push({ name: file.originalname, error: "Failed to extract text" });
+    }
+  }
+
+  const rfp = await storage.createRfp({
+    title: email.subject || original?.file.originalname || "RFP from email",
+    source: email.source,
+    agency: email.agency,
+    state: email.state,
+    dueDate: email.dueDate,
+    status: "draft",
+    documentContent: original?.text ?? email.body,
+    documentName: original?.file.originalname ?? null,
+    documentPath: original?.path ?? null,
+    documentMimeType: original?.file.mimetype ?? null,
+    intakeEmailFrom: email.from,
+    assignedPmId,
+  });
+
+  for (const { file, extracted } of extras) {
+    await storage.createAttachment({
+      rfpId: rfp.id,
+      role: guessAttachmentRole(file.originalname),
+      documentName: file.originalname,
+      documentPath: await saveOriginalDocument(file),
+      documentMimeType: file.mimetype,
+      format: extracted.format,
+      documentContent: extracted.text,
+      pageCount: extracted.pageCount,
+      uploadedById: null,
+    });
+  }
+
+  if (original) {
+    const updated = await storage.updateRfp(rfp.id, { documentUrl: `/api/rfps/${rfp.id}/document` });
+    return { rfp: updated ?? rfp, attachments: results };
+  }
+  return { rfp, attachments: results };
+}
+
+// Local SMTP inbox for development: point a mail client or `swaks` at it and every
+// delivered message becomes a draft RFP. No auth or TLS, so bind it to localhost only.
+export function startEmailIngestListener(port: number, host = "127.0.0.1"): SMTPServer {
+  const server = new SMTPServer({
+    authOptional: true,
+    disabledCommands: ["AUTH", "STARTTLS"],
+    size: MAX_MESSAGE_BYTES,
+    onData(stream, _session, callback) {
+      // The advertised size only asks clients to stay under it, so the rest of an oversized
+      // message is read and dropped instead of buffered
+      const chunks: Buffer[] = [];
+      let received = 0;
+      stream.on("data", (chunk: Buffer) => {
+        received += chunk.length;
+        if (received <= MAX_MESSAGE_BYTES) chunks.push(chunk);
+      });
+      stream.on("error", callback);
+      stream.on("end", () => {
+        if (stream.sizeExceeded || received > MAX_MESSAGE_BYTES) {
+          chunks.length = 0;
+          return callback(Object.assign(new Error("Message exceeds the maximum size"), { responseCode: 552 }));
+        }
+        ingestRfpEmail(Buffer.concat(chunks))
+          .then(({ rfp }) => {
+            log(`Created RFP ${rfp.id} from inbound email "${rfp.title}"`, "email");
+            callback();
+          })
+          .catch(error => {
+            console.error("Error ingesting inbound email:", error);
+            callback(new Error("Failed to ingest message"));
+          });
+      });
+    },
+  });
+
+  server.on("error", error => console.error("SMTP ingest listener error:", error));
+  server.listen(port, host, () => log(`SMTP ingest listening on ${host}:${port}`, "email"));
+  return server;
+}
@@ -0,0 +1,83 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { extractEvaluationCriteria, planCriteriaSync } from "./evaluation-criteria";
+import type { EvaluationCriterion } from "@shared/schema";
+
+const sectionM = [
+  "SECTION L - INSTRUCTIONS TO OFFERORS",
+  "Factor 1 is addressed in Volume I.",
+  "SECTION M - EVALUATION FACTORS FOR AWARD",
+  "Factor 1: Technical Approach (40 points)",
+  "The offeror's understanding of the work.",
+  "Subfactor 1.1: Staffing Plan (15 points)",
+  "Factor 2: Past Performance (30 points)",
+  "Factor 3: Price (30 points)",
+  "Technical Approach is more important than Past Performance.",
+  "SECTION N - OTHER",
+  "Factor 4: Transition (10 points)",
+].join("\n");
+
+describe("extractEvaluationCriteria", () => {
+  it("reads factors, subfactors and weights from the evaluation section only", () => {
+    const factors = extractEvaluationCriteria(sectionM);
+
+    assert.deepEqual(factors.map(f => [f.label, f.title, f.weight, f.weightUnit]), [
+      ["Factor 1", "Technical Approach", 40, "points"],
+      ["Factor 2", "Past Performance", 30, "points"],
+      ["Factor 3", "Price", 30, "points"],
+    ]);
+    assert.deepEqual(factors[0].subfactors.map(s => [s.label, s.title, s.weight]), [["Subfactor 1.1", "Staffing Plan", 15]]);
+    assert.equal(factors[0].description, "The offeror's understanding of the work.");
+    assert.equal(factors[0].sourceText, "Factor 1: Technical Approach (40 points)");
+  });
+
+  it("attaches importance statements to the factors they name", () => {
+    const [technical, pastPerformance] = extractEvaluationCriteria(sectionM);
+    assert.equal(technical.importance, "Technical Approach is more important than Past Performance.");
+    assert.equal(pastPerformance.importance, "Technical Approach is more important than Past Performance.");
+  });
+
+  it("reads weighted numbered lines inside the evaluation section", () => {
+    const factors = extractEvaluationCriteria([
+      "SECTION M - EVALUATION CRITERIA",
+      "M.1 Management Plan (60%)",
+      "M.1.1 Key Personnel (20%)",
+      "M.2 Cost (40%)",
+    ].join("\n"));
+
+    assert.deepEqual(factors.map(f => [f.label, f.title, f.weight, f.weightUnit]), [
+      ["M.1", "Management Plan", 60, "percent"],
+      ["M.2", "Cost", 40, "percent"],
+    ]);
+    assert.deepEqual(factors[0].subfactors.map(s => s.title), ["Key Personnel"]);
+  });
+
+  it("uses lines that start with a factor anywhere when there is no evaluation section", () => {
+    const factors = extractEvaluationCriteria("Proposals are scored on Factor A: Experience (50 points) alone.\nFactor B: Price (50 points)");
+    assert.deepEqual(factors.map(f => f.title), ["Price"]);
+  });
+});
+
+describe("planCriteriaSync", () => {
+  const row = (id: number, title: string, overrides: Partial<EvaluationCriterion> = {}) =>
+    ({ id, title, parentId: null, source: "extracted", ...overrides }) as EvaluationCriterion;
+
+  it("matches by title, keeps hand-edited criteria and removes factors no longer found", () => {
+    const changes = planCriteriaSync(
+      [
+        row(1, "Technical approach"),
+        row(2, "Staffing plan", { parentId: 1, source: "manual" }),
+        row(3, "Past Performance", { source: "manual" }),
+        row(4, "Small Business Participation"),
+      ],
+      extractEvaluationCriteria(sectionM),
+    );
+
+    assert.deepEqual(changes.factors.map(f => [f.id, f.fields?.title ?? null, f.subfactors.map(s => s.id)]), [
+      [1, "Technical Approach", []],
+      [3, null, []],
+      [null, "Price", []],
+    ]);
+    assert.deepEqual(changes.remove, [4]);
+  });
+});
@@ -0,0 +1,233 @@
+import { storage, type CriteriaChanges } from "./storage";
+import { PAGE_BREAK } from "@shared/documents";
+import type { EvaluationCriterion, EvaluationCriterionWithSections } from "@shared/schema";
+
+// Reads Section M style evaluation factors: "Factor 1: Technical Approach (40 points)",
+// "Subfactor 1.1 ...", or numbered/lettered lines carrying a weight inside the evaluation section
+
+export interface ExtractedCriterion {
+  label: string | null; // "Factor 1", "M.2.1"; importance statements often refer to factors this way
+  title: string;
+  description: string | null;
+  weight: number | null;
+  weightUnit: "points" | "percent" | null;
+  importance: string | null;
+  sourceText: string;
+  subfactors: ExtractedCriterion[];
+}
+
+const EVALUATION_HEADING = /\b(section\s+M\b|evaluation (criteria|factors)|basis (for|of) (award|evaluation)|proposal evaluation)\b/i;
+const OTHER_SECTION = /^SECTION\s+(?!M\b)[A-Z]\b/i;
+const FACTOR = /^(?:evaluation\s+)?factor\s+(\d+|[A-Z]|[IVX]+)\b\s*[:.)\-–—]?\s*(.*)$/i;
+const SUBFACTOR = /^sub-?factor\s+(\d+(?:\.\d+)*[a-z]?|[A-Z]|[IVX]+)\b\s*[:.)\-–—]?\s*(.*)$/i;
+const NUMBERED = /^((?:[A-Z]\.)?\d+(?:\.\d+)*)[.)]?\s+(.+)$/;
+const LETTERED = /^\(?([a-z])[.)]\s+(.+)$/;
+const WEIGHT = /\(?\s*(?:up to\s+|maximum of\s+|max\.?\s+)?(\d{1,4}(?:\.\d+)?)\s*(points?|pts\.?|%|percent)\s*\)?/i;
+// "Factor 1 is more important than Factor 2" talks about a factor rather than defining one
+const STATEMENT = /^(is|are|and|or|will|shall|has|have|when|combined|through|in)\b/i;
+const MAX_DESCRIPTION = 600;
+
+function isHeadingLine(line: string): boolean {
+  return line.length <= 100 && !/[.;:,]$/.test(line);
+}
+
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Splits "Technical Approach (40 points): The offeror's..." into title, weight and description
+function parseCriterion(label: string | null, rest: string, line: string): ExtractedCriterion | null {
+  const weightMatch = rest.slice(0, 150).match(WEIGHT);
+  const text = (weightMatch ? rest.replace(weightMatch[0], " ") : rest)
+    .replace(/\(\s*\)/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  const split = text.match(/^(.{2,100}?)(?:\s*[:–—]\s+|\s+-\s+|\.\s+)(.+)$/);
+  let title = (split ? split[1] : text).replace(/[\s.:;,\-–—]+$/, "").trim();
+  let description = split ? split[2].trim() : null;
+  if (!split && title.length > 100) {
+    description = title;
+    title = title.slice(0, title.lastIndexOf(" ", 100)).trim();
+  }
+  if (!title) return null;
+
+  return {
+    label,
+    title,
+    description: description?.slice(0, MAX_DESCRIPTION) || null,
+    weight: weightMatch ? Number(weightMatch[1]) : null,
+    weightUnit: weightMatch ? (/%|percent/i.test(weightMatch[2]) ? "percent" : "points") : null,
+    importance: null,
+    sourceText: line.slice(0, 300),
+    subfactors: [],
+  };
+}
+
+// A factor restated later (summary table, then detail) fills in what the first mention lacked
+function mergeInto(existing: ExtractedCriterion, repeat: ExtractedCriterion) {
+  existing.weight ??= repeat.weight;
+  existing.weightUnit ??= repeat.weightUnit;
+  existing.description ??= repeat.description;
+}
+
+function applyImportance(factors: ExtractedCriterion[], regionText: string) {
+  const sentences = (regionText.match(/[^.!?]+[.!?]?/g) || [])
+    .map(s => s.trim())
+    .filter(s => /\bimportan(t|ce)\b|\bequally weighted\b|\bweighted equally\b/i.test(s));
+
+  if (sentences.some(s => /\b(descending|decreasing) order of (relative )?importance\b|\blisted in order of (relative )?importance\b/i.test(s))) {
+    factors.forEach((factor, i) => {
+      factor.importance = `Ranked ${i + 1} of ${factors.length}`;
+    });
+    return;
+  }
+
+  for (const factor of factors) {
+    const label = factor.label ? new RegExp(`\\b${escapeRegExp(factor.label)}\\b`, "i") : null;
+    const statement = sentences.find(s => s.toLowerCase().includes(factor.title.toLowerCase()))
+      ?? (label ? sentences.find(s => label.test(s)) : undefined);
+    if (statement) factor.importance = statement.slice(0, 200);
+  }
+
+  if (factors.every(f => !f.importance)) {
+    const equal = sentences.find(s => /\bequal(ly)?\b/i.test(s));
+    if (equal) factors.forEach(f => { f.importance = "Equal importance"; });
+  }
+}
+
+/**
+ * Looks for an evaluation section (Section M, "Evaluation Factors", "Basis for Award") and reads
+ * factors and subfactors from it, up to the next lettered SECTION heading. Without one, only
+ * explicit "Factor N" lines anywhere in the document are used.
+ */
+export function extractEvaluationCriteria(content: string): ExtractedCriterion[] {
+  const lines = content
+    .split(/\n/)
+    .map(line => line.replace(new RegExp(PAGE_BREAK, "g"), "").replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+
+  const start = lines.findIndex(line => isHeadingLine(line) && EVALUATION_HEADING.test(line));
+  const inSection = start !== -1;
+  let end = lines.length;
+  if (inSection) {
+    const next = lines.slice(start + 1).findIndex(line => OTHER_SECTION.test(line));
+    if (next !== -1) end = start + 1 + next;
+  }
+  const region = lines.slice(inSection ? start + 1 : 0, end);
+
+  const factors: ExtractedCriterion[] = [];
+  let current: ExtractedCriterion | null = null;
+  let factorDepth: number | null = null;
+
+  for (const line of region) {
+    let criterion: ExtractedCriterion | null = null;
+    let isSubfactor = false;
+    let match: RegExpMatchArray | null;
+
+    const mention = line.match(SUBFACTOR) ?? line.match(FACTOR);
+    const isStatement = !!mention && STATEMENT.test(mention[2]);
+    if (isStatement) {
+      current = null;
+    } else if ((match = line.match(SUBFACTOR))) {
+      criterion = parseCriterion(`Subfactor ${match[1]}`, match[2], line);
+      isSubfactor = true;
+    } else if ((match = line.match(FACTOR))) {
+      criterion = parseCriterion(`Factor ${match[1]}`, match[2], line);
+    } else if (inSection && (match = line.match(NUMBERED)) && WEIGHT.test(match[2].slice(0, 150))) {
+      // The first weighted numbered line sets the factor level; deeper numbering is a subfactor
+      const depth = match[1].split(".").length;
+      factorDepth ??= depth;
+      isSubfactor = depth > factorDepth;
+      // A bare "2" would match every number in the importance statements, so only "M.2"-style numbers are labels
+      criterion = parseCriterion(/[A-Z]/i.test(match[1]) ? match[1] : null, match[2], line);
+    } else if (inSection && (match = line.match(LETTERED)) && WEIGHT.test(match[2].slice(0, 150))) {
+      criterion = parseCriterion(null, match[2], line);
+      isSubfactor = true;
+    }
+
+    if (criterion) {
+      const parent = isSubfactor ? factors[factors.length - 1] : undefined;
+      const siblings = parent ? parent.subfactors : factors;
+      const repeat = siblings.find(c => normalizeTitle(c.title) === normalizeTitle(criterion!.title));
+      if (repeat) {
+        mergeInto(repeat, criterion);
+        current = repeat;
+      } else {
+        siblings.push(criterion);
+        current = criterion;
+      }
+      continue;
+    }
+
+    // Body text under a criterion describes it, up to the next numbered heading
+    if (current && !isStatement && !(isHeadingLine(line) && NUMBERED.test(line))) {
+      const description = current.description ? `${current.description} ${line}` : line;
+      current.description = description.slice(0, MAX_DESCRIPTION);
+    } else {
+      current = null;
+    }
+  }
+
+  // Headings and table rows rarely end in a full stop; give them one so they don't run into the next sentence
+  applyImportance(factors, region.map(line => (isHeadingLine(line) ? `${line}.` : line)).join(" "));
+  return factors;
+}
+
+// Matches extracted criteria to the previous run's by title so their section links survive
+// a re-analysis. Criteria a PM added or edited are never overwritten or removed.
+export function planCriteriaSync(existing: EvaluationCriterion[], extracted: ExtractedCriterion[]): CriteriaChanges {
+  const claimed = new Set<number>();
+  const find = (title: string, parentId: number | null) => existing.find(e =>
+    !claimed.has(e.id) && e.parentId === parentId && normalizeTitle(e.title) === normalizeTitle(title));
+  const fieldsOf = (criterion: ExtractedCriterion, orderIndex: number) => ({
+    title: criterion.title,
+    description: criterion.description,
+    weight: criterion.weight === null ? null : String(criterion.weight),
+    weightUnit: criterion.weightUnit,
+    importance: criterion.importance,
+    orderIndex,
+    source: "extracted",
+    sourceText: criterion.sourceText,
+  });
+
+  const factors = extracted.map((factor, i) => {
+    const match = find(factor.title, null);
+    if (match) claimed.add(match.id);
+    const factorId = match?.id ?? null;
+
+    const subfactors = factor.subfactors.flatMap((subfactor, j) => {
+      const subMatch = factorId === null ? undefined : find(subfactor.title, factorId);
+      if (subMatch) claimed.add(subMatch.id);
+      if (subMatch?.source === "manual") return [];
+      return [{ id: subMatch?.id ?? null, fields: fieldsOf(subfactor, j) }];
+    });
+
+    return { id: factorId, fields: match?.source === "manual" ? null : fieldsOf(factor, i), subfactors };
+  });
+
+  // An extracted factor that no longer appears goes, unless a PM hung their own subfactor under it
+  const remove = existing
+    .filter(e => e.source === "extracted" && !claimed.has(e.id))
+    .filter(e => !existing.some(child => child.parentId === e.id && child.source === "manual"))
+    .map(e => e.id);
+
+  return { factors, remove };
+}
+
+export async function syncExtractedCriteria(rfpId: number, extracted: ExtractedCriterion[]): Promise<void> {
+  const existing = await storage.getEvaluationCriteriaByRfp(rfpId);
+  await storage.applyCriteriaChanges(rfpId, planCriteriaSync(existing, extracted));
+}
+
+export async function withSectionIds(criteria: EvaluationCriterion[]): Promise<EvaluationCriterionWithSections[]> {
+  const links = await storage.getSectionCriteria(criteria.map(c => c.id));
+  return criteria.map(criterion => ({
+    ...criterion,
+    sectionIds: links.filter(l => l.criterionId === criterion.id).map(l => l.sectionId),
+  }));
+}
@@ -1,6 +1,9 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
+import { startEmailIngestListener } from "./email";
+import { resumeAnalysisJobs } from "./analysis-jobs";
+import { log } from "./log";
 import { createServer } from "http";
 
 const app = express();
@@ -22,17 +25,6 @@ app.use(
 
 app.use(express.urlencoded({ extended: false }));
 
-export function log(message: string, source = "express") {
-  const formattedTime = new Date().toLocaleTimeString("en-US", {
-    hour: "numeric",
-    minute: "2-digit",
-    second: "2-digit",
-    hour12: true,
-  });
-
-  console.log(`${formattedTime} [${source}] ${message}`);
-}
-
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -100,4 +92,12 @@ app.use((req, res, next) => {
       log(`serving on port ${port}`);
     },
   );
+
+  // Pick up analysis jobs that were interrupted by the last shutdown
+  resumeAnalysisJobs().catch(error => console.error("Error resuming analysis jobs:", error));
+
+  // Optional local SMTP inbox so forwarded RFP emails can be tested without a mail provider
+  if (process.env.SMTP_INGEST_PORT) {
+    startEmailIngestListener(parseInt(process.env.SMTP_INGEST_PORT, 10));
+  }
 })();
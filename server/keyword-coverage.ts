@@ -0,0 +1,127 @@
+import type { CoverageFinding } from "@shared/schema";
+
+// Deterministic coverage check: a requirement counts as addressed when one response section
+// uses most of its key terms. The best-matching sentence in that section is the quote.
+
+export interface CoverageRequirement {
+  id: number;
+  text: string;
+}
+
+export interface CoverageSection {
+  id: number;
+  title: string;
+  text: string;
+}
+
+const ADDRESSED_THRESHOLD = 0.6;
+const MIN_MATCHED_TERMS = 2;
+const MAX_QUOTE = 300;
+
+// Function words plus the solicitation boilerplate that appears in nearly every requirement
+const STOPWORDS = new Set([
+  "a", "an", "and", "any", "are", "as", "at", "be", "been", "by", "can", "each", "for", "from", "has", "have",
+  "if", "in", "into", "is", "it", "its", "may", "no", "not", "of", "on", "or", "other", "our", "such", "than",
+  "that", "the", "their", "them", "there", "these", "this", "those", "to", "under", "upon", "was", "we", "were",
+  "which", "while", "who", "will", "with", "within", "would", "all", "also", "must", "shall", "should",
+  "required", "require", "requirement", "requirements", "offeror", "offerors", "contractor", "contractors",
+  "vendor", "vendors", "proposer", "proposers", "bidder", "bidders", "respondent", "respondents", "proposal",
+  "proposals", "provide", "provided", "providing", "include", "including", "includes", "ensure", "describe",
+  "rfp", "government", "agency", "section", "applicable", "appropriate", "following",
+]);
+
+function stem(word: string): string {
+  if (word.length > 5 && word.endsWith("ing")) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (word.length > 4 && word.endsWith("ed")) return word.slice(0, -2);
+  if (word.length > 4 && word.endsWith("es")) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+}
+
+// Stemmed key terms mapped to the first word that produced them, for gap explanations
+export function keyTerms(text: string): Map<string, string> {
+  const terms = new Map<string, string>();
+  for (const word of text.toLowerCase().match(/[a-z0-9][a-z0-9-]*/g) || []) {
+    if (word.length < 3 || STOPWORDS.has(word) || /^\d+$/.test(word)) continue;
+    const key = stem(word);
+    if (!terms.has(key)) terms.set(key, word);
+  }
+  return terms;
+}
+
+function splitSentences(text: string): string[] {
+  return (text.match(/[^.!?]+[.!?]?/g) || []).map(s => s.trim()).filter(Boolean);
+}
+
+function countMatches(terms: Map<string, string>, candidate: Set<string>): number {
+  let matched = 0;
+  terms.forEach((_, key) => {
+    if (candidate.has(key)) matched++;
+  });
+  return matched;
+}
+
+export function checkCoverageByKeywords(requirements: CoverageRequirement[], sections: CoverageSection[]): CoverageFinding[] {
+  const indexed = sections
+    .filter(section => section.text.trim())
+    .map(section => ({
+      section,
+      terms: new Set(Array.from(keyTerms(`${section.title} ${section.text}`).keys())),
+      sentences: splitSentences(section.text).map(text => ({
+        text,
+        terms: new Set(Array.from(keyTerms(text).keys())),
+      })),
+    }));
+
+  return requirements.map(requirement => {
+    const terms = keyTerms(requirement.text);
+    const pending = (gap: string, confidence = 0): CoverageFinding => ({
+      requirementId: requirement.id,
+      status: "pending",
+      sectionId: null,
+      quote: null,
+      gap,
+      confidence,
+    });
+
+    if (indexed.length === 0) return pending("The response has no written sections yet");
+    if (terms.size === 0) return pending("The requirement has no distinctive terms to look for");
+
+    const scored = indexed
+      .map(entry => ({ ...entry, matched: countMatches(terms, entry.terms) }))
+      .sort((a, b) => b.matched - a.matched);
+    const best = scored[0];
+    const coverage = best.matched / terms.size;
+    const confidence = Math.round(coverage * 100) / 100;
+    const needed = Math.min(MIN_MATCHED_TERMS, terms.size);
+
+    if (best.matched === 0) {
+      return pending(`No section mentions ${Array.from(terms.values()).slice(0, 6).join(", ")}`);
+    }
+    if (coverage < ADDRESSED_THRESHOLD || best.matched < needed) {
+      const missing = Array.from(terms.entries())
+        .filter(([key]) => !best.terms.has(key))
+        .map(([, word]) => word)
+        .slice(0, 6);
+      return pending(
+        `Closest is "${best.section.title}" (${best.matched} of ${terms.size} key terms); it doesn't mention ${missing.join(", ")}`,
+        confidence,
+      );
+    }
+
+    const quote = best.sentences.reduce<{ text: string; matched: number } | null>((top, sentence) => {
+      const matched = countMatches(terms, sentence.terms);
+      return !top || matched > top.matched ? { text: sentence.text, matched } : top;
+    }, null);
+
+    return {
+      requirementId: requirement.id,
+      status: "addressed",
+      sectionId: best.section.id,
+      quote: quote && quote.matched > 0 ? quote.text.slice(0, MAX_QUOTE) : null,
+      gap: null,
+      confidence,
+    };
+  });
+}
@@ -0,0 +1,73 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync, mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { FixtureProvider, RecordingProvider, fixtureKey } from "./fixture";
+import type { CompletionRequest } from "./types";
+import type { ExtractedRequirement } from "../analysis";
+import type { CoverageFinding } from "@shared/schema";
+
+const dir = mkdtempSync(path.join(tmpdir(), "llm-fixtures-"));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+const request: CompletionRequest & { model: string } = {
+  feature: "insights",
+  model: "test-model",
+  messages: [
+    { role: "system", content: "Review this section." },
+    { role: "user", content: "We will staff the help desk." },
+  ],
+};
+
+describe("fixtureKey", () => {
+  it("depends on the feature and prompt, not the model", () => {
+    assert.equal(fixtureKey(request), fixtureKey({ ...request, model: "other-model" } as CompletionRequest));
+    assert.notEqual(fixtureKey(request), fixtureKey({ ...request, feature: "chat" }));
+    assert.notEqual(
+      fixtureKey(request),
+      fixtureKey({ ...request, messages: [...request.messages, { role: "user", content: "Again" }] }),
+    );
+  });
+});
+
+describe("FixtureProvider", () => {
+  it("replays what the recording provider saved", async () => {
+    const live = new RecordingProvider({ name: "live", complete: async () => "recorded reply" }, dir);
+    assert.equal(live.name, "live+record");
+    assert.equal(await live.complete(request), "recorded reply");
+    assert.ok(existsSync(path.join(dir, "insights", `${fixtureKey(request)}.json`)));
+
+    assert.equal(await new FixtureProvider(dir).complete(request), "recorded reply");
+  });
+
+  it("answers prompts without a recording deterministically", async () => {
+    const provider = new FixtureProvider(dir);
+    const chat = { ...request, feature: "chat" as const };
+    const reply = await provider.complete(chat);
+
+    assert.match(reply, /offline mode/);
+    assert.equal(await provider.complete(chat), reply);
+  });
+
+  it("extracts requirements by rule for analysis", async () => {
+    const reply = await new FixtureProvider().complete({
+      feature: "analysis",
+      model: "test-model",
+      input: "Offerors must be registered in SAM. Thank you.",
+      messages: [{ role: "user", content: "ignored when input is given" }],
+    });
+    const { requirements }: { requirements: ExtractedRequirement[] } = JSON.parse(reply);
+    assert.deepEqual(requirements.map(r => r.text), ["Offerors must be registered in SAM."]);
+  });
+
+  it("checks coverage by keyword overlap", async () => {
+    const input = JSON.stringify({
+      requirements: [{ id: 1, text: "Provide a staffing plan for the help desk." }],
+      sections: [{ id: 7, title: "Staffing", text: "Our staffing plan puts four analysts on the help desk." }],
+    });
+    const reply = await new FixtureProvider().complete({ feature: "coverage", model: "test-model", input, messages: [] });
+    const { results }: { results: CoverageFinding[] } = JSON.parse(reply);
+    assert.deepEqual(results.map(r => [r.requirementId, r.status, r.sectionId]), [[1, "addressed", 7]]);
+  });
+});
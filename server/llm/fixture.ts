@@ -0,0 +1,114 @@
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import { extractRequirementsByRules } from "../rule-extractor";
+import { checkCoverageByKeywords } from "../keyword-coverage";
+import type { CompletionRequest, LlmFeature, LlmProvider } from "./types";
+
+interface Fixture {
+  feature: LlmFeature;
+  response: string;
+}
+
+// Fixtures are keyed on the feature and exact prompt, so any prompt change needs re-recording
+export function fixtureKey(request: Pick<CompletionRequest, "feature" | "messages">): string {
+  return createHash("sha256")
+    .update(JSON.stringify({ feature: request.feature, messages: request.messages }))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+function fixturePath(dir: string, request: CompletionRequest): string {
+  return path.join(dir, request.feature, `${fixtureKey(request)}.json`);
+}
+
+function splitSentences(text: string): { text: string; start: number; end: number }[] {
+  const sentences: { text: string; start: number; end: number }[] = [];
+  const pattern = /[^.!?\n\f]+[.!?]?/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const leading = match[0].length - match[0].trimStart().length;
+    const trimmed = match[0].trim();
+    if (!trimmed) continue;
+    const start = match.index + leading;
+    sentences.push({ text: trimmed, start, end: start + trimmed.length });
+  }
+  return sentences;
+}
+
+// Deterministic stand-ins used when no recorded fixture matches, so every feature works offline
+const fallbacks: Record<LlmFeature, (input: string) => string> = {
+  analysis: (input) => JSON.stringify({ requirements: extractRequirementsByRules(input) }),
+
+  insights: (input) => {
+    const text = input.replace(/<[^>]+>/g, " ");
+    const insights: { type: string; text: string; suggestion: string }[] = [];
+    const longSentence = splitSentences(text).find(s => s.text.split(/\s+/).length > 40);
+    if (longSentence) {
+      insights.push({
+        type: "writing_improvement",
+        text: `This sentence runs over 40 words: "${longSentence.text.slice(0, 80)}..."`,
+        suggestion: "Split it into two or three shorter sentences.",
+      });
+    }
+    if (/\b(we|our)\b/i.test(text) && /\b(the offeror|the contractor)\b/i.test(text)) {
+      insights.push({
+        type: "inconsistency",
+        text: "The response switches between first person and third person when referring to the company.",
+        suggestion: "Pick one voice and use it throughout.",
+      });
+    }
+    insights.push({
+      type: "language_match",
+      text: "Mirror the RFP's own terminology in section headings so evaluators can find each answer.",
+      suggestion: "Reuse the solicitation's section numbers and titles.",
+    });
+    return JSON.stringify({ insights });
+  },
+
+  coverage: (input) => {
+    const { requirements, sections } = JSON.parse(input);
+    return JSON.stringify({ results: checkCoverageByKeywords(requirements, sections) });
+  },
+
+  chat: (input) =>
+    `I'm running in offline mode, so I can't give a tailored answer right now. You asked: "${input.slice(0, 200)}". ` +
+    "Try again once an AI provider is configured.",
+};
+
+// Replays recorded responses from LLM_FIXTURES_DIR and falls back to deterministic output
+export class FixtureProvider implements LlmProvider {
+  readonly name = "fixture";
+
+  constructor(private dir: string | null = null) {}
+
+  async complete(request: CompletionRequest & { model: string }): Promise<string> {
+    if (this.dir) {
+      const file = fixturePath(this.dir, request);
+      if (existsSync(file)) {
+        const fixture: Fixture = JSON.parse(readFileSync(file, "utf-8"));
+        return fixture.response;
+      }
+    }
+    const input = request.input ?? request.messages.filter(m => m.role === "user").pop()?.content ?? "";
+    return fallbacks[request.feature](input);
+  }
+}
+
+// Wraps a live provider and saves every response as a fixture the FixtureProvider can replay
+export class RecordingProvider implements LlmProvider {
+  readonly name: string;
+
+  constructor(private inner: LlmProvider, private dir: string) {
+    this.name = `${inner.name}+record`;
+  }
+
+  async complete(request: CompletionRequest & { model: string }): Promise<string> {
+    const response = await this.inner.complete(request);
+    const file = fixturePath(this.dir, request);
+    mkdirSync(path.dirname(file), { recursive: true });
+    const fixture: Fixture = { feature: request.feature, response };
+    writeFileSync(file, JSON.stringify(fixture, null, 2));
+    return response;
+  }
+}
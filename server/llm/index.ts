@@ -0,0 +1,79 @@
+import { OpenAIProvider } from "./openai";
+import { FixtureProvider, RecordingProvider } from "./fixture";
+import { log } from "../log";
+import type { CompletionRequest, LlmFeature, LlmProvider } from "./types";
+
+export type { CompletionRequest, LlmFeature, LlmMessage, LlmProvider } from "./types";
+export { OpenAIProvider } from "./openai";
+export { FixtureProvider, RecordingProvider, fixtureKey } from "./fixture";
+
+/**
+ * Configuration (environment):
+ * - LLM_PROVIDER: "openai" or "fixture". Defaults to openai when an API key is set; without one,
+ *   development falls back to fixture with a warning and production refuses to start the provider.
+ * - LLM_MODEL: default model for every feature (gpt-5.2)
+ * - LLM_MODEL_ANALYSIS / LLM_MODEL_INSIGHTS / LLM_MODEL_CHAT / LLM_MODEL_COVERAGE: per-feature overrides
+ * - LLM_FIXTURES_DIR: recorded responses the fixture provider replays
+ * - LLM_RECORD_FIXTURES=1: save live responses into LLM_FIXTURES_DIR
+ */
+const DEFAULT_MODEL = "gpt-5.2";
+
+function createProvider(): LlmProvider {
+  const fixturesDir = process.env.LLM_FIXTURES_DIR || null;
+  const hasApiKey = !!process.env.AI_INTEGRATIONS_OPENAI_API_KEY;
+  const name = process.env.LLM_PROVIDER || (hasApiKey ? "openai" : "fixture");
+
+  // Replayed fixtures look like real analysis, so they are never picked silently
+  if (!process.env.LLM_PROVIDER && !hasApiKey) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("No OpenAI API key is configured; set AI_INTEGRATIONS_OPENAI_API_KEY or LLM_PROVIDER=fixture");
+    }
+    log("No OpenAI API key is configured; replaying recorded fixtures instead of calling the model", "llm");
+  }
+
+  if (name === "fixture") {
+    return new FixtureProvider(fixturesDir);
+  }
+  if (name !== "openai") {
+    throw new Error(`Unknown LLM_PROVIDER "${name}"; expected "openai" or "fixture"`);
+  }
+
+  const provider = new OpenAIProvider();
+  if (process.env.LLM_RECORD_FIXTURES === "1" && fixturesDir) {
+    return new RecordingProvider(provider, fixturesDir);
+  }
+  return provider;
+}
+
+let provider: LlmProvider | null = null;
+
+export function getLlmProvider(): LlmProvider {
+  if (!provider) {
+    provider = createProvider();
+    log(`Using LLM provider: ${provider.name}`, "llm");
+  }
+  return provider;
+}
+
+// Lets tests and scripts swap in a provider without touching the environment
+export function setLlmProvider(next: LlmProvider | null): void {
+  provider = next;
+}
+
+export function modelFor(feature: LlmFeature): string {
+  return process.env[`LLM_MODEL_${feature.toUpperCase()}`] || process.env.LLM_MODEL || DEFAULT_MODEL;
+}
+
+export async function complete(request: CompletionRequest): Promise<string> {
+  return getLlmProvider().complete({ ...request, model: modelFor(request.feature) });
+}
+
+// Parses a JSON-mode completion; an empty reply counts as {} but malformed JSON is an error
+export async function completeJson<T = Record<string, unknown>>(request: Omit<CompletionRequest, "json">): Promise<T> {
+  const raw = await complete({ ...request, json: true });
+  try {
+    return JSON.parse(raw || "{}") as T;
+  } catch {
+    throw new Error(`The ${request.feature} model returned invalid JSON`);
+  }
+}
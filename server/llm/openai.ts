@@ -0,0 +1,25 @@
+import OpenAI from "openai";
+import type { CompletionRequest, LlmProvider } from "./types";
+
+export class OpenAIProvider implements LlmProvider {
+  readonly name = "openai";
+  private client: OpenAI;
+
+  constructor(options: { apiKey?: string; baseURL?: string } = {}) {
+    this.client = new OpenAI({
+      apiKey: options.apiKey ?? process.env.AI_INTEGRATIONS_OPENAI_API_KEY,
+      baseURL: options.baseURL ?? process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
+    });
+  }
+
+  async complete(request: CompletionRequest & { model: string }): Promise<string> {
+    const completion = await this.client.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      ...(request.json ? { response_format: { type: "json_object" as const } } : {}),
+      ...(request.maxTokens ? { max_completion_tokens: request.maxTokens } : {}),
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+    });
+    return completion.choices[0]?.message?.content || "";
+  }
+}
@@ -0,0 +1,25 @@
+export type LlmFeature = "analysis" | "insights" | "chat" | "coverage";
+
+export interface LlmMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface CompletionRequest {
+  feature: LlmFeature;
+  messages: LlmMessage[];
+  /** Ask for a JSON object response */
+  json?: boolean;
+  maxTokens?: number;
+  temperature?: number;
+  /**
+   * The raw input the prompt was built from (document excerpt, response text, chat message).
+   * Offline providers work from this instead of parsing the prompt.
+   */
+  input?: string;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  complete(request: CompletionRequest & { model: string }): Promise<string>;
+}
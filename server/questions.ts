@@ -0,0 +1,202 @@
+import * as XLSX from "xlsx";
+import path from "path";
+import { pageAtOffset } from "@shared/documents";
+import { extractDocumentText, type UploadedFile } from "./documents";
+import type { SourceContent } from "./attachments";
+import { keyTerms } from "./keyword-coverage";
+import type {
+  ImportedAnswer,
+  QuestionExportColumn,
+  QuestionExportFormat,
+  Requirement,
+  RfpQuestion,
+} from "@shared/schema";
+
+// Clarification questions: exporting pending ones in the layout the agency asked for, and
+// reading the agency's published answers back in.
+
+const COLUMN_LABELS: Record<QuestionExportColumn, string> = {
+  number: "#",
+  reference: "RFP Reference",
+  page: "Page",
+  requirement: "Requirement",
+  question: "Question",
+};
+const COLUMN_WIDTHS: Record<QuestionExportColumn, number> = { number: 5, reference: 16, page: 7, requirement: 60, question: 80 };
+const SPREADSHEET_EXTENSIONS = [".xlsx", ".xls", ".csv"];
+const MATCH_THRESHOLD = 0.5;
+// A matching number counts for something, since our export numbering is what the agency saw
+const NUMBER_BONUS = 0.2;
+
+function cellValue(column: QuestionExportColumn, question: RfpQuestion, requirement: Requirement | undefined, contentOf: SourceContent): string | number {
+  switch (column) {
+    case "number":
+      return question.number;
+    case "reference":
+      return question.rfpReference || requirement?.referenceNumber || requirement?.section || "";
+    case "page":
+      return requirement && requirement.highlightStart !== null
+        ? pageAtOffset(contentOf(requirement.attachmentId), requirement.highlightStart)
+        : "";
+    case "requirement":
+      return requirement?.text || "";
+    case "question":
+      return question.question;
+  }
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function exportQuestions(
+  questions: RfpQuestion[],
+  requirements: Requirement[],
+  contentOf: SourceContent,
+  format: QuestionExportFormat,
+  columns: QuestionExportColumn[],
+): Buffer {
+  const rows = questions.map(question => {
+    const requirement = requirements.find(r => r.id === question.requirementId);
+    return columns.map(column => cellValue(column, question, requirement, contentOf));
+  });
+  const headers = columns.map(column => COLUMN_LABELS[column]);
+
+  if (format === "csv") {
+    return Buffer.from([headers, ...rows].map(row => row.map(csvCell).join(",")).join("\r\n"), "utf-8");
+  }
+
+  // One block per question, ready to paste into an email or letter
+  if (format === "txt") {
+    const blocks = rows.map(row => row
+      .map((value, i) => (columns[i] === "number" ? `Question ${value}` : value === "" ? null : `${headers[i]}: ${value}`))
+      .filter(Boolean)
+      .join("\n"));
+    return Buffer.from(blocks.join("\n\n"), "utf-8");
+  }
+
+  const sheet = XLSX.utils.aoa_to_sheet([headers, ...rows]);
+  sheet["!cols"] = columns.map(column => ({ wch: COLUMN_WIDTHS[column] }));
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, "Questions");
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+}
+
+interface ParsedAnswer {
+  number: number | null;
+  question: string | null;
+  answer: string;
+}
+
+// Spreadsheets need a header row naming the question and answer columns
+function parseAnswerRows(rows: unknown[][]): ParsedAnswer[] {
+  const cells = rows.map(row => row.map(cell => (cell === null || cell === undefined ? "" : String(cell).trim())));
+  const headerIndex = cells.slice(0, 10).findIndex(row =>
+    row.some(cell => /question/i.test(cell)) && row.some(cell => /answer|response/i.test(cell)));
+  if (headerIndex === -1) return [];
+
+  const header = cells[headerIndex];
+  const numberColumn = header.findIndex(cell => /^(#|no\.?|number|item|q(uestion)?\s*(#|no\.?|number))$/i.test(cell));
+  const questionColumn = header.findIndex((cell, i) => i !== numberColumn && /question/i.test(cell));
+  const answerColumn = header.findIndex(cell => /answer|response/i.test(cell));
+
+  return cells.slice(headerIndex + 1)
+    .map(row => ({
+      number: numberColumn !== -1 && /^\d+$/.test(row[numberColumn] || "") ? Number(row[numberColumn]) : null,
+      question: row[questionColumn] || null,
+      answer: row[answerColumn] || "",
+    }))
+    .filter(entry => entry.answer);
+}
+
+// "Q1: ...", "Question 3 - ...", "1. Question: ..." start a question; "A1:", "Answer:" or
+// "Response:" start its answer. Lines that follow belong to whichever came last.
+const QUESTION_MARKER = /^(?:(\d+)\s*[.)]\s*)?Q(?:uestion)?\s*(?:No\.?\s*)?#?\s*(\d+)?\s*[:.)\-–]\s*(.*)$/i;
+const ANSWER_MARKER = /^(?:A(?:nswer)?|R(?:esponse)?|(?:Government|Agency)\s+Response)\s*(?:No\.?\s*)?#?\s*(\d+)?\s*[:.)\-–]\s*(.*)$/i;
+
+export function parseAnswerText(text: string): ParsedAnswer[] {
+  const entries: { number: number | null; question: string[]; answer: string[] | null }[] = [];
+  let current: (typeof entries)[number] | null = null;
+
+  for (const rawLine of text.split("\n")) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    const question = line.match(QUESTION_MARKER);
+    const answer = line.match(ANSWER_MARKER);
+    if (question) {
+      const number = question[1] || question[2];
+      current = { number: number ? Number(number) : null, question: [question[3]], answer: null };
+      entries.push(current);
+    } else if (answer && current && current.answer === null) {
+      current.answer = [answer[2]];
+    } else if (current) {
+      (current.answer ?? current.question).push(line);
+    }
+  }
+
+  return entries
+    .map(entry => ({
+      number: entry.number,
+      question: entry.question.join(" ").trim() || null,
+      answer: (entry.answer || []).join(" ").trim(),
+    }))
+    .filter(entry => entry.answer);
+}
+
+export async function readAnswerFile(file: UploadedFile): Promise<ParsedAnswer[]> {
+  if (SPREADSHEET_EXTENSIONS.includes(path.extname(file.originalname).toLowerCase())) {
+    const workbook = XLSX.read(file.buffer, { type: "buffer" });
+    return workbook.SheetNames.flatMap(name =>
+      parseAnswerRows(XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], { header: 1 })));
+  }
+  const { text } = await extractDocumentText(file);
+  return parseAnswerText(text);
+}
+
+function similarity(a: string, b: string): number {
+  const left = keyTerms(a);
+  const right = keyTerms(b);
+  if (left.size === 0 || right.size === 0) return 0;
+  let shared = 0;
+  left.forEach((_, term) => {
+    if (right.has(term)) shared++;
+  });
+  return (2 * shared) / (left.size + right.size);
+}
+
+// Each logged question takes at most one answer; the most confident pairings are made first
+export function matchAnswers(parsed: ParsedAnswer[], questions: RfpQuestion[]): ImportedAnswer[] {
+  const candidates: { entry: number; questionId: number; confidence: number }[] = [];
+  parsed.forEach((entry, i) => {
+    questions.forEach(question => {
+      const sameNumber = entry.number !== null && entry.number === question.number;
+      const confidence = entry.question
+        ? Math.min(1, similarity(entry.question, question.question) + (sameNumber ? NUMBER_BONUS : 0))
+        : sameNumber ? 0.6 : 0;
+      if (confidence >= MATCH_THRESHOLD) candidates.push({ entry: i, questionId: question.id, confidence });
+    });
+  });
+  candidates.sort((a, b) => b.confidence - a.confidence);
+
+  const matched = new Map<number, { questionId: number; confidence: number }>();
+  const taken = new Set<number>();
+  candidates.forEach(candidate => {
+    if (matched.has(candidate.entry) || taken.has(candidate.questionId)) return;
+    matched.set(candidate.entry, candidate);
+    taken.add(candidate.questionId);
+  });
+
+  return parsed.map((entry, i) => {
+    const match = matched.get(i);
+    const question = match ? questions.find(q => q.id === match.questionId) : undefined;
+    return {
+      questionId: question?.id ?? null,
+      number: entry.number,
+      question: entry.question,
+      answer: entry.answer,
+      requirementId: question?.requirementId ?? null,
+      confidence: match ? Math.round(match.confidence * 100) / 100 : 0,
+    };
+  });
+}
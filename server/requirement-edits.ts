@@ -0,0 +1,75 @@
+import { anchorText, indexDocument, type TextAnchor } from "./anchoring";
+import type { InsertRequirement, Requirement } from "@shared/schema";
+
+// Requirements added, split or merged by hand. They are saved with source "manual" so a
+// re-analysis leaves them as they are.
+
+const PRIORITY_RANK: Record<string, number> = { high: 3, medium: 2, low: 1 };
+
+interface Offsets {
+  highlightStart?: number | null;
+  highlightEnd?: number | null;
+}
+
+// A selection made in the document viewer carries exact offsets; typed text is located the same
+// way extracted text is
+export function anchorManualText(content: string, text: string, offsets: Offsets = {}, hint: number | null = null): TextAnchor {
+  const { highlightStart, highlightEnd } = offsets;
+  if (typeof highlightStart === "number" && typeof highlightEnd === "number"
+    && highlightStart >= 0 && highlightEnd > highlightStart && highlightEnd <= content.length) {
+    return { highlightStart, highlightEnd, matchQuality: "exact" };
+  }
+  return anchorText(indexDocument(content), text, hint);
+}
+
+// Each part keeps the original's section, reference number, priority and status. Parts are looked for inside the
+// original's highlight first, so a repeated phrase elsewhere in the document isn't picked up.
+export function planSplit(content: string, original: Requirement, parts: string[]): InsertRequirement[] {
+  const { highlightStart: start, highlightEnd: end } = original;
+  return parts.map(part => {
+    let anchor: TextAnchor | null = null;
+    if (start !== null && end !== null) {
+      const index = content.slice(start, end).indexOf(part);
+      if (index !== -1) {
+        anchor = { highlightStart: start + index, highlightEnd: start + index + part.length, matchQuality: "exact" };
+      }
+    }
+    return {
+      rfpId: original.rfpId,
+      text: part,
+      section: original.section,
+      referenceNumber: original.referenceNumber,
+      priority: original.priority,
+      status: original.status,
+      source: "manual",
+      attachmentId: original.attachmentId,
+      ...(anchor ?? anchorText(indexDocument(content), part, start)),
+    };
+  });
+}
+
+// The merged requirement spans every located original, takes the highest priority, and stays
+// addressed only if all of them were
+export function planMerge(content: string, originals: Requirement[], text?: string): Partial<InsertRequirement> {
+  const ordered = [...originals].sort((a, b) =>
+    (a.highlightStart ?? Number.MAX_SAFE_INTEGER) - (b.highlightStart ?? Number.MAX_SAFE_INTEGER) || a.id - b.id);
+  const mergedText = text?.trim() || ordered.map(r => r.text.trim()).join(" ");
+  const located = ordered.every(r => r.highlightStart !== null && r.highlightEnd !== null);
+  const statuses = new Set(ordered.map(r => r.status || "pending"));
+
+  return {
+    text: mergedText,
+    section: ordered.find(r => r.section)?.section ?? null,
+    priority: ordered.reduce((best, r) =>
+      (PRIORITY_RANK[r.priority || "medium"] > PRIORITY_RANK[best] ? r.priority || "medium" : best), "low"),
+    status: statuses.size === 1 ? ordered[0].status : "pending",
+    source: "manual",
+    ...(located
+      ? {
+          highlightStart: Math.min(...ordered.map(r => r.highlightStart!)),
+          highlightEnd: Math.max(...ordered.map(r => r.highlightEnd!)),
+          matchQuality: ordered.every(r => r.matchQuality === "exact") ? "exact" : "fuzzy",
+        }
+      : anchorText(indexDocument(content), mergedText, ordered[0].highlightStart)),
+  };
+}
@@ -0,0 +1,116 @@
+import { storage } from "./storage";
+import { loadSourceContent } from "./attachments";
+import { PAGE_BREAK } from "@shared/documents";
+import { compareReferences, isAncestorReference } from "@shared/outline";
+import type { Requirement } from "@shared/schema";
+
+// Gives each requirement the paragraph number it sits under and nests it beneath the
+// requirement from the closest enclosing paragraph.
+
+// "L.4.2", "C.3.1.2" or "3.2.1" at the start of a line. A bare "4." is treated as a list item.
+const PARAGRAPH_NUMBER = /^((?:[A-Z]\.\d+|\d+\.\d+)(?:\.\d+)*)\.?(?=\s|$)/;
+// List items under a numbered paragraph: "(a)", "a)", "(iv)", "1." or "2)"
+const SUB_PARAGRAPH = /^(?:\(([a-z]{1,4}|\d{1,2})\)|([a-z]|[ivx]{1,4})\)|(\d{1,2})[.)])\s/i;
+const SECTION_LETTER = /^SECTION\s+([A-Z])\b/i;
+
+interface LineReference {
+  start: number;
+  reference: string | null;
+}
+
+// One forward pass records which reference is current at the start of every line
+function indexReferences(content: string): LineReference[] {
+  const lines: LineReference[] = [];
+  let letter: string | null = null;
+  let paragraph: string | null = null;
+  let sub: string | null = null;
+
+  let offset = 0;
+  for (const rawLine of content.split("\n")) {
+    const start = offset;
+    offset += rawLine.length + 1;
+    const line = rawLine.replace(new RegExp(PAGE_BREAK, "g"), "").trim();
+
+    let match: RegExpMatchArray | null;
+    if ((match = line.match(SECTION_LETTER))) {
+      letter = match[1].toUpperCase();
+      paragraph = null;
+      sub = null;
+    } else if ((match = line.match(PARAGRAPH_NUMBER))) {
+      // "4.2" under SECTION L is L.4.2; numbers that already carry a letter are left alone
+      paragraph = letter && /^\d/.test(match[1]) ? `${letter}.${match[1]}` : match[1];
+      sub = null;
+    } else if (paragraph && (match = line.match(SUB_PARAGRAPH))) {
+      sub = (match[1] || match[2] || match[3]).toLowerCase();
+    }
+
+    lines.push({ start, reference: paragraph ? (sub ? `${paragraph}(${sub})` : paragraph) : null });
+  }
+  return lines;
+}
+
+function referenceAt(lines: LineReference[], offset: number): string | null {
+  let low = 0;
+  let high = lines.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (lines[mid].start <= offset) low = mid;
+    else high = mid - 1;
+  }
+  return lines[low]?.reference ?? null;
+}
+
+// Model-extracted requirements the anchoring couldn't place often still name their paragraph
+function referenceFromSection(section: string | null): string | null {
+  const match = section?.trim().match(PARAGRAPH_NUMBER);
+  return match ? match[1] : null;
+}
+
+/**
+ * Works out reference numbers and parents for an RFP's active requirements and returns the rows
+ * that change. A reference number typed in by hand on a manual requirement is kept.
+ */
+export function planOutline(content: string, requirements: Requirement[]) {
+  const lines = indexReferences(content);
+  const withReferences = requirements.map(requirement => {
+    const keep = requirement.source === "manual" && requirement.referenceNumber;
+    const located = requirement.highlightStart !== null ? referenceAt(lines, requirement.highlightStart) : null;
+    return {
+      requirement,
+      referenceNumber: keep ? requirement.referenceNumber : located ?? referenceFromSection(requirement.section),
+    };
+  });
+
+  // When several requirements share the closest enclosing number, the first in the document is the parent
+  const byPosition = [...withReferences].sort((a, b) =>
+    (a.requirement.highlightStart ?? Number.MAX_SAFE_INTEGER) - (b.requirement.highlightStart ?? Number.MAX_SAFE_INTEGER)
+    || a.requirement.id - b.requirement.id);
+
+  return withReferences
+    .map(({ requirement, referenceNumber }) => {
+      let parent: { id: number; reference: string } | null = null;
+      if (referenceNumber) {
+        for (const candidate of byPosition) {
+          if (!candidate.referenceNumber || !isAncestorReference(candidate.referenceNumber, referenceNumber)) continue;
+          if (!parent || compareReferences(candidate.referenceNumber, parent.reference) > 0) {
+            parent = { id: candidate.requirement.id, reference: candidate.referenceNumber };
+          }
+        }
+      }
+      return { id: requirement.id, referenceNumber, parentId: parent?.id ?? null, requirement };
+    })
+    .filter(({ requirement, referenceNumber, parentId }) =>
+      requirement.referenceNumber !== referenceNumber || requirement.parentId !== parentId)
+    .map(({ id, referenceNumber, parentId }) => ({ id, referenceNumber, parentId }));
+}
+
+// Each file gets its own outline: offsets only mean something within the file they point into
+export async function refreshRequirementOutline(rfpId: number): Promise<void> {
+  const rfp = await storage.getRfp(rfpId);
+  if (!rfp) return;
+  const requirements = await storage.getRequirementsByRfp(rfpId);
+  const contentOf = await loadSourceContent(rfp);
+  const attachmentIds = Array.from(new Set(requirements.map(r => r.attachmentId)));
+  await storage.updateRequirementOutline(attachmentIds.flatMap(attachmentId =>
+    planOutline(contentOf(attachmentId), requirements.filter(r => r.attachmentId === attachmentId))));
+}
@@ -0,0 +1,114 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { planRequirementSync } from "./requirement-sync";
+import type { SourcedRequirement } from "./analysis";
+import type { Requirement } from "@shared/schema";
+
+const existingRow = (id: number, text: string, overrides: Partial<Requirement> = {}) =>
+  ({
+    id,
+    rfpId: 1,
+    text,
+    section: null,
+    priority: "medium",
+    attachmentId: null,
+    source: "ai",
+    status: "pending",
+    retiredAt: null,
+    ...overrides,
+  }) as Requirement;
+
+const extracted = (text: string, overrides: Partial<SourcedRequirement> = {}): SourcedRequirement => ({
+  text,
+  section: null,
+  priority: "medium",
+  highlightStart: null,
+  highlightEnd: null,
+  matchQuality: null,
+  source: "ai",
+  crossCheck: null,
+  attachmentId: null,
+  ...overrides,
+});
+
+describe("planRequirementSync", () => {
+  it("keeps matched rows, adds new ones and retires what is no longer found", () => {
+    const { changes, summary } = planRequirementSync(
+      1,
+      [
+        existingRow(1, "The Contractor shall deliver a monthly status report.", { status: "addressed" }),
+        existingRow(2, "The Contractor shall provide help desk support on business days."),
+        existingRow(3, "Offerors must be registered in SAM."),
+      ],
+      [
+        extracted("The Contractor shall deliver a monthly status report."),
+        extracted("The Contractor shall provide help desk support on weekends and business days."),
+        extracted("Proposals shall not exceed 20 pages."),
+      ],
+    );
+
+    assert.deepEqual(changes.update.map(u => u.id), [1, 2]);
+    assert.ok(changes.update.every(u => !("status" in u.changes)), "matched rows keep their status");
+    assert.deepEqual(changes.create.map(c => [c.text, c.status]), [["Proposals shall not exceed 20 pages.", "pending"]]);
+    assert.deepEqual(changes.retire, [3]);
+    assert.deepEqual(summary, {
+      added: ["Proposals shall not exceed 20 pages."],
+      changed: [{
+        before: "The Contractor shall provide help desk support on business days.",
+        after: "The Contractor shall provide help desk support on weekends and business days.",
+      }],
+      removed: ["Offerors must be registered in SAM."],
+      unchanged: 1,
+    });
+  });
+
+  it("never rewrites or retires requirements edited by hand", () => {
+    const { changes, summary } = planRequirementSync(
+      1,
+      [
+        existingRow(1, "The Contractor shall deliver a monthly status report.", { source: "manual" }),
+        existingRow(2, "Offerors must be registered in SAM.", { source: "manual" }),
+      ],
+      [extracted("The Contractor shall deliver a monthly status report by the fifth.")],
+    );
+
+    assert.deepEqual(changes, { create: [], update: [], retire: [] });
+    assert.equal(summary.unchanged, 1);
+  });
+
+  it("brings back a retired requirement that is found again", () => {
+    const { changes, summary } = planRequirementSync(
+      1,
+      [existingRow(1, "Offerors must be registered in SAM.", { retiredAt: new Date(), status: "skipped" })],
+      [extracted("Offerors must be registered in SAM.")],
+    );
+
+    assert.deepEqual(changes.update.map(u => [u.id, u.changes.retiredAt]), [[1, null]]);
+    assert.deepEqual(summary.added, ["Offerors must be registered in SAM."]);
+  });
+
+  it("only pairs requirements from the same file", () => {
+    const { changes } = planRequirementSync(
+      1,
+      [existingRow(1, "Offerors must be registered in SAM.", { attachmentId: 5 })],
+      [extracted("Offerors must be registered in SAM.")],
+    );
+
+    assert.equal(changes.create.length, 1);
+    assert.deepEqual(changes.retire, [1]);
+  });
+
+  it("stores the cross-check result with the requirement", () => {
+    const { changes } = planRequirementSync(
+      1,
+      [existingRow(1, "Offerors must be registered in SAM.")],
+      [
+        extracted("Offerors must be registered in SAM.", { crossCheck: "both" }),
+        extracted("Proposals shall not exceed 20 pages.", { source: "rules", crossCheck: "rules_only" }),
+      ],
+    );
+
+    assert.equal(changes.update[0].changes.crossCheck, "both");
+    assert.equal(changes.create[0].crossCheck, "rules_only");
+  });
+});
@@ -0,0 +1,117 @@
+import { storage, type RequirementChanges } from "./storage";
+import type { SourcedRequirement } from "./analysis";
+import type { Requirement, RequirementSyncSummary } from "@shared/schema";
+
+// Word-overlap score above which a re-extracted requirement is treated as a reworded existing one
+const MATCH_THRESHOLD = 0.6;
+
+function words(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean));
+}
+
+function normalize(text: string): string {
+  return Array.from(words(text)).join(" ");
+}
+
+// Dice coefficient over distinct words: 1 for the same wording, 0 for nothing in common
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(word => {
+    if (b.has(word)) shared++;
+  });
+  return (2 * shared) / (a.size + b.size);
+}
+
+// Pairs each extracted requirement with at most one existing requirement, best matches first.
+// Matched rows keep their id and status; unmatched existing rows are retired, never deleted.
+// Requirements an analyst added or edited by hand can absorb a match but are never rewritten or retired.
+// Only requirements from the same file are paired, since their offsets point into that file.
+export function planRequirementSync(
+  rfpId: number,
+  existing: Requirement[],
+  extracted: SourcedRequirement[],
+): { changes: RequirementChanges; summary: RequirementSyncSummary } {
+  const existingWords = existing.map(r => words(r.text));
+  const extractedWords = extracted.map(r => words(r.text));
+
+  const pairs: { extractedIndex: number; existingIndex: number; score: number }[] = [];
+  extracted.forEach((_, i) => {
+    existing.forEach((candidate, j) => {
+      if (candidate.attachmentId !== extracted[i].attachmentId) return;
+      const score = similarity(extractedWords[i], existingWords[j]);
+      if (score >= MATCH_THRESHOLD) pairs.push({ extractedIndex: i, existingIndex: j, score });
+    });
+  });
+  // Prefer active rows over retired ones when scores tie, so a reworded duplicate doesn't resurrect history
+  pairs.sort((a, b) => b.score - a.score
+    || Number(!!existing[a.existingIndex].retiredAt) - Number(!!existing[b.existingIndex].retiredAt));
+
+  const matchFor = new Map<number, Requirement>();
+  const claimed = new Set<number>();
+  for (const pair of pairs) {
+    if (matchFor.has(pair.extractedIndex) || claimed.has(pair.existingIndex)) continue;
+    matchFor.set(pair.extractedIndex, existing[pair.existingIndex]);
+    claimed.add(pair.existingIndex);
+  }
+
+  const changes: RequirementChanges = { create: [], update: [], retire: [] };
+  const summary: RequirementSyncSummary = { added: [], changed: [], removed: [], unchanged: 0 };
+
+  extracted.forEach((req, i) => {
+    const fields = {
+      text: req.text,
+      section: req.section,
+      priority: req.priority,
+      highlightStart: req.highlightStart,
+      highlightEnd: req.highlightEnd,
+      matchQuality: req.matchQuality,
+      source: req.source,
+      crossCheck: req.crossCheck,
+      attachmentId: req.attachmentId,
+    };
+    const match = matchFor.get(i);
+    if (!match) {
+      changes.create.push({ rfpId, ...fields, status: "pending" });
+      summary.added.push(req.text);
+      return;
+    }
+    if (match.source === "manual") {
+      summary.unchanged++;
+      return;
+    }
+
+    changes.update.push({ id: match.id, changes: { ...fields, retiredAt: null } });
+    // A requirement that comes back after being retired reappears with its old status
+    if (match.retiredAt) {
+      summary.added.push(req.text);
+      return;
+    }
+    const isChanged = normalize(match.text) !== normalize(req.text)
+      || match.section !== req.section
+      || match.priority !== req.priority;
+    if (isChanged) {
+      summary.changed.push({ before: match.text, after: req.text });
+    } else {
+      summary.unchanged++;
+    }
+  });
+
+  existing.forEach((req, j) => {
+    if (claimed.has(j) || req.retiredAt || req.source === "manual") return;
+    changes.retire.push(req.id);
+    summary.removed.push(req.text);
+  });
+
+  return { changes, summary };
+}
+
+export async function syncRequirements(rfpId: number, extracted: SourcedRequirement[]): Promise<RequirementSyncSummary> {
+  const existing = [
+    ...(await storage.getRequirementsByRfp(rfpId)),
+    ...(await storage.getRetiredRequirementsByRfp(rfpId)),
+  ];
+  const { changes, summary } = planRequirementSync(rfpId, existing, extracted);
+  await storage.applyRequirementChanges(changes);
+  return summary;
+}
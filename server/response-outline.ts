@@ -0,0 +1,139 @@
+import { compareReferences, isAncestorReference } from "@shared/outline";
+import { keyTerms } from "./keyword-coverage";
+import type { ProposedResponseSection, Requirement, ResponseSection, Template } from "@shared/schema";
+
+// Proposes response sections from the submission instructions: one section per instruction
+// paragraph, in solicitation order, carrying that paragraph's requirements and page limit.
+
+const INSTRUCTION_HEADING = /instructions|submission|proposal (?:format|preparation|organization|content)|volume/i;
+const VOLUME = /\bVolume\s+([IVX]+|\d+)\s*(?:[-–—:,(]\s*)?((?:[A-Z][A-Za-z&/-]*\s?){1,5})?/;
+const PAGE_LIMITS = [
+  /(?:not (?:to )?exceed|no (?:more|longer) than|limited to|(?:a )?maximum of|up to|limit of)\s+(\d{1,3}|[a-z]+)\s*(?:\(\d{1,3}\)\s*)?(?:(?:single|double)[- ]sided\s+)?pages?\b/i,
+  /\b(\d{1,3})[- ]page\s+(?:limit|maximum)/i,
+  /\bpage\s+limit(?:ation)?\s*(?:of|is|:)?\s*(\d{1,3})\b/i,
+];
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  twelve: 12, fifteen: 15, twenty: 20, thirty: 30, forty: 40, fifty: 50, hundred: 100,
+};
+// Paragraphs made only of these describe how to deliver the proposal, not something to write
+const LOGISTICS = /\b(due (?:date|by|no later)|no later than|deadline|fonts?|margins?|point size|cop(?:y|ies)|delivered|hand[- ]carried|e-?mailed|questions|inquiries)\b/i;
+// Headings that don't make a useful section title
+const GENERIC_TITLE = /^(general|instructions|submission instructions|proposal instructions|requirements?)$/i;
+const LEADING_NUMBER = /^(?:SECTION\s+[A-Z]\b\s*[-–—:.]?\s*|[A-Z]\.\d+(?:\.\d+)*\.?\s+|\d+(?:\.\d+)*\.?\s+)/i;
+const TEMPLATE_THRESHOLD = 0.5;
+
+export function pageLimitIn(text: string): number | null {
+  for (const pattern of PAGE_LIMITS) {
+    const match = text.match(pattern);
+    // "two pages each" limits every resume or attachment, not the section
+    if (!match || /^\s*(each|per)\b/i.test(text.slice((match.index ?? 0) + match[0].length))) continue;
+    const limit = /^\d+$/.test(match[1]) ? Number(match[1]) : NUMBER_WORDS[match[1].toLowerCase()];
+    if (limit && limit > 0) return limit;
+  }
+  return null;
+}
+
+function isInstruction(requirement: Requirement): boolean {
+  return /^L(\.|$)/i.test(requirement.referenceNumber || "")
+    || INSTRUCTION_HEADING.test(requirement.section || "")
+    || VOLUME.test(requirement.text)
+    || pageLimitIn(requirement.text) !== null;
+}
+
+// "L.4.2(a)" belongs to paragraph L.4.2
+function paragraphOf(reference: string): string {
+  return reference.replace(/\(.*$/, "");
+}
+
+function volumeTitle(text: string): string | null {
+  const match = text.match(VOLUME);
+  if (!match) return null;
+  const name = match[2]?.trim();
+  return name ? `Volume ${match[1]}: ${name}` : `Volume ${match[1]}`;
+}
+
+interface Group {
+  key: string;
+  referenceNumber: string | null;
+  requirements: Requirement[];
+}
+
+function titleFor(group: Group): string {
+  const headings = group.requirements
+    .map(r => (r.section || "").replace(LEADING_NUMBER, "").trim())
+    .filter(h => h && !GENERIC_TITLE.test(h));
+  if (headings.length > 0) return headings[0];
+  const volume = group.requirements.map(r => volumeTitle(r.text)).find(Boolean);
+  if (volume) return volume;
+  return group.referenceNumber ? `Paragraph ${group.referenceNumber}` : "Submission Instructions";
+}
+
+function bestTemplate(title: string, templates: Template[]): number | null {
+  const wanted = keyTerms(title);
+  if (wanted.size === 0) return null;
+  let bestId: number | null = null;
+  let bestScore = 0;
+  for (const template of templates) {
+    const offered = keyTerms(`${template.name} ${template.category || ""}`);
+    let matched = 0;
+    wanted.forEach((_, term) => {
+      if (offered.has(term)) matched++;
+    });
+    const score = matched / wanted.size;
+    if (matched > 0 && score >= TEMPLATE_THRESHOLD && score > bestScore) {
+      bestId = template.id;
+      bestScore = score;
+    }
+  }
+  return bestId;
+}
+
+// "Volume II - Price Proposal" is the same section as an existing "Price Proposal"
+const normalizeTitle = (title: string) =>
+  title.toLowerCase().replace(/^volume\s+[ivx\d]+\b/, "").replace(/[^a-z0-9]+/g, " ").trim();
+
+export function planResponseOutline(
+  requirements: Requirement[],
+  templates: Template[],
+  existingSections: ResponseSection[],
+): ProposedResponseSection[] {
+  const groups = new Map<string, Group>();
+  const byPosition = [...requirements].sort((a, b) =>
+    (a.highlightStart ?? Number.MAX_SAFE_INTEGER) - (b.highlightStart ?? Number.MAX_SAFE_INTEGER) || a.id - b.id);
+  byPosition.filter(isInstruction).forEach(requirement => {
+    const referenceNumber = requirement.referenceNumber ? paragraphOf(requirement.referenceNumber) : null;
+    const key = referenceNumber ?? `section:${requirement.section || ""}`;
+    const group = groups.get(key) ?? { key, referenceNumber, requirements: [] };
+    group.requirements.push(requirement);
+    groups.set(key, group);
+  });
+
+  // Numbered paragraphs in solicitation order, then unnumbered groups in document order
+  const ordered = Array.from(groups.values()).sort((a, b) => {
+    if (a.referenceNumber && b.referenceNumber) return compareReferences(a.referenceNumber, b.referenceNumber);
+    if (a.referenceNumber || b.referenceNumber) return a.referenceNumber ? -1 : 1;
+    return 0;
+  });
+
+  return ordered.map(group => {
+    const title = titleFor(group);
+    // A volume or paragraph with subsections is a heading; the template content belongs in the subsections
+    const hasSubsections = !!group.referenceNumber
+      && ordered.some(other => other.referenceNumber && isAncestorReference(group.referenceNumber!, other.referenceNumber));
+    const existing = existingSections.find(s => normalizeTitle(s.title) === normalizeTitle(title));
+    const pageLimits = group.requirements.map(r => pageLimitIn(r.text)).filter((l): l is number => l !== null);
+    return {
+      title,
+      referenceNumber: group.referenceNumber,
+      depth: group.referenceNumber
+        ? ordered.filter(other => other.referenceNumber && isAncestorReference(other.referenceNumber, group.referenceNumber!)).length
+        : 0,
+      pageLimit: pageLimits.length > 0 ? pageLimits[0] : null,
+      requirementIds: group.requirements.map(r => r.id),
+      templateId: existing || hasSubsections ? null : bestTemplate(title, templates),
+      existingSectionId: existing?.id ?? null,
+      suggested: !group.requirements.every(r => LOGISTICS.test(r.text)),
+    };
+  });
+}
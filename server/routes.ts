@@ -1,35 +1,202 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import OpenAI from "openai";
 import { storage } from "./storage";
-import { insertRfpSchema, insertTemplateSchema, insertReviewSchema } from "@shared/schema";
-
-const openai = new OpenAI({
-  apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY,
-  baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
-});
+import { complete, completeJson, type LlmMessage } from "./llm";
+import { setupAuth, toPublicUser, requirePermission, hashPassword } from "./auth";
+import {
+  documentUpload,
+  extractDocumentText,
+  extractDraftSections,
+  saveOriginalDocument,
+  storedDocumentPath,
+  UnsupportedDocumentError,
+} from "./documents";
+import { ingestRfpEmail } from "./email";
+import { startAnalysisJob, subscribeToJob, isJobFinished } from "./analysis-jobs";
+import { refreshRfpDueDate, withNextDeadlines } from "./deadlines";
+import { withSectionIds } from "./evaluation-criteria";
+import { exportComplianceMatrix, withRequirementSections, type ComplianceMatrixFormat } from "./compliance";
+import { checkCoverage } from "./coverage";
+import { anchorManualText, planMerge, planSplit } from "./requirement-edits";
+import { refreshRequirementOutline } from "./requirement-outline";
+import { planResponseOutline } from "./response-outline";
+import { exportQuestions, matchAnswers, parseAnswerText, readAnswerFile } from "./questions";
+import { carryRequirementsToVersion } from "./document-versions";
+import { sectionText } from "./section-revisions";
+import { createAttachment, loadSourceContent } from "./attachments";
+import { closeSection, saveSection, saveSections, setupCollaboration } from "./collaboration";
+import { diffDocuments } from "@shared/text-diff";
+import {
+  canManageUsers,
+  canManageRfps,
+  canManageSections,
+  canEditBudget,
+  canEditSection,
+  canEditQuestion,
+  canActOnReview,
+} from "@shared/permissions";
+import {
+  createRfpSchema,
+  updateRfpSchema,
+  insertTemplateSchema,
+  insertReviewSchema,
+  updateReviewSchema,
+  insertRfpDeadlineSchema,
+  insertEvaluationCriterionSchema,
+  manualRequirementSchema,
+  updateRequirementSchema,
+  applyResponseOutlineSchema,
+  questionInputSchema,
+  applyAnswersSchema,
+  questionExportColumns,
+  questionExportFormats,
+  attachmentRoles,
+  updateRfpAttachmentSchema,
+  type QuestionExportColumn,
+  type QuestionExportFormat,
+  createUserSchema,
+  updateUserSchema,
+  analysisModes,
+  coverageModes,
+  applyCoverageSchema,
+  saveResponseSchema,
+  updateResponseSectionSchema,
+  type SaveResponseSection,
+  type AnalysisJob,
+  type InsertRequirement,
+  type Requirement,
+  type InsertResponseSection,
+  type ResponseSection,
+} from "@shared/schema";
 
 export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
-  
+  setupAuth(app);
+  setupCollaboration(httpServer);
+
   // Users
   app.get("/api/users", async (req: Request, res: Response) => {
     try {
       const users = await storage.getAllUsers();
-      res.json(users);
+      res.json(users.map(toPublicUser));
     } catch (error) {
       console.error("Error fetching users:", error);
       res.status(500).json({ error: "Failed to fetch users" });
     }
   });
 
+  app.post("/api/users", requirePermission(canManageUsers, "Only proposal managers can add team members"), async (req: Request, res: Response) => {
+    try {
+      const parsed = createUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid user details" });
+      }
+      if (await storage.getUserByUsername(parsed.data.username)) {
+        return res.status(409).json({ error: "Username is already taken" });
+      }
+      const user = await storage.createUser({
+        ...parsed.data,
+        password: await hashPassword(parsed.data.password),
+      });
+      res.status(201).json(toPublicUser(user));
+    } catch (error) {
+      console.error("Error creating user:", error);
+      res.status(500).json({ error: "Failed to create user" });
+    }
+  });
+
+  app.patch("/api/users/:id", requirePermission(canManageUsers, "Only proposal managers can edit team members"), async (req: Request, res: Response) => {
+    try {
+      const parsed = updateUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid user details" });
+      }
+      const updates = { ...parsed.data };
+      if (updates.password) {
+        updates.password = await hashPassword(updates.password);
+      }
+      if (req.params.id === req.user!.id && updates.role && updates.role !== "pm") {
+        return res.status(400).json({ error: "You cannot demote yourself" });
+      }
+      const user = await storage.updateUser(req.params.id, updates);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      res.json(toPublicUser(user));
+    } catch (error) {
+      console.error("Error updating user:", error);
+      res.status(500).json({ error: "Failed to update user" });
+    }
+  });
+
+  app.get("/api/users/:id/assignments", requirePermission(canManageUsers, "Only proposal managers can view assignments"), async (req: Request, res: Response) => {
+    try {
+      const assignments = await storage.getUserAssignments(req.params.id);
+      res.json(assignments);
+    } catch (error) {
+      console.error("Error fetching user assignments:", error);
+      res.status(500).json({ error: "Failed to fetch user assignments" });
+    }
+  });
+
+  // Deactivate a user, optionally handing their sections and budget rows to someone else
+  app.post("/api/users/:id/deactivate", requirePermission(canManageUsers, "Only proposal managers can deactivate team members"), async (req: Request, res: Response) => {
+    try {
+      const userId = req.params.id;
+      const reassignToUserId: string | null = req.body.reassignToUserId || null;
+      if (userId === req.user!.id) {
+        return res.status(400).json({ error: "You cannot deactivate yourself" });
+      }
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      if (reassignToUserId) {
+        const target = await storage.getUser(reassignToUserId);
+        if (!target || !target.isActive || target.id === userId) {
+          return res.status(400).json({ error: "Choose an active team member to reassign work to" });
+        }
+      }
+
+      const before = await storage.getUserAssignments(userId);
+      const reassigned = await storage.reassignUserWork(userId, reassignToUserId);
+      const updated = await storage.updateUser(userId, { isActive: false });
+      const remaining = await storage.getUserAssignments(userId);
+
+      res.json({
+        user: toPublicUser(updated!),
+        reassignedTo: reassignToUserId,
+        sections: before.sections,
+        budgetItems: before.budgetItems,
+        reassigned,
+        remainingBudgetItems: remaining.budgetItems,
+      });
+    } catch (error) {
+      console.error("Error deactivating user:", error);
+      res.status(500).json({ error: "Failed to deactivate user" });
+    }
+  });
+
+  app.post("/api/users/:id/reactivate", requirePermission(canManageUsers, "Only proposal managers can reactivate team members"), async (req: Request, res: Response) => {
+    try {
+      const user = await storage.updateUser(req.params.id, { isActive: true });
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      res.json(toPublicUser(user));
+    } catch (error) {
+      console.error("Error reactivating user:", error);
+      res.status(500).json({ error: "Failed to reactivate user" });
+    }
+  });
+
   // RFPs
   app.get("/api/rfps", async (req: Request, res: Response) => {
     try {
       const rfps = await storage.getAllRfps();
-      res.json(rfps);
+      res.json(await withNextDeadlines(rfps));
     } catch (error) {
       console.error("Error fetching RFPs:", error);
       res.status(500).json({ error: "Failed to fetch RFPs" });
@@ -60,9 +227,9 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/rfps", async (req: Request, res: Response) => {
+  app.post("/api/rfps", requirePermission(canManageRfps, "Only proposal managers can create RFPs"), async (req: Request, res: Response) => {
     try {
-      const validatedData = insertRfpSchema.parse(req.body);
+      const validatedData = createRfpSchema.parse(req.body);
       const rfp = await storage.createRfp(validatedData);
       res.status(201).json(rfp);
     } catch (error) {
@@ -71,9 +238,32 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/rfps/:id", async (req: Request, res: Response) => {
+  // Create a draft RFP from a forwarded .eml message and its attachments
+  app.post(
+    "/api/rfps/email",
+    requirePermission(canManageRfps, "Only proposal managers can create RFPs"),
+    documentUpload.single("file"),
+    async (req: Request, res: Response) => {
+      try {
+        if (!req.file) {
+          return res.status(400).json({ error: "No file uploaded" });
+        }
+        const result = await ingestRfpEmail(req.file.buffer, req.user!.id);
+        res.status(201).json(result);
+      } catch (error) {
+        console.error("Error ingesting email:", error);
+        res.status(422).json({ error: "Failed to read the email message" });
+      }
+    },
+  );
+
+  app.patch("/api/rfps/:id", requirePermission(canManageRfps, "Only proposal managers can edit RFPs"), async (req: Request, res: Response) => {
     try {
-      const rfp = await storage.updateRfp(parseInt(req.params.id), req.body);
+      const parsed = updateRfpSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid RFP details" });
+      }
+      const rfp = await storage.updateRfp(parseInt(req.params.id), parsed.data);
       if (!rfp) {
         return res.status(404).json({ error: "RFP not found" });
       }
@@ -84,7 +274,7 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/rfps/:id", async (req: Request, res: Response) => {
+  app.delete("/api/rfps/:id", requirePermission(canManageRfps, "Only proposal managers can delete RFPs"), async (req: Request, res: Response) => {
     try {
       await storage.deleteRfp(parseInt(req.params.id));
       res.status(204).send();
@@ -94,77 +284,295 @@ export async function registerRoutes(
     }
   });
 
-  // RFP Analysis with AI
-  app.post("/api/rfps/:id/analyze", async (req: Request, res: Response) => {
+  // RFP source documents (PDF, DOCX, TXT)
+  app.post(
+    "/api/rfps/:id/document",
+    requirePermission(canManageRfps, "Only proposal managers can upload RFP documents"),
+    documentUpload.single("file"),
+    async (req: Request, res: Response) => {
+      try {
+        const rfpId = parseInt(req.params.id);
+        const rfp = await storage.getRfp(rfpId);
+        if (!rfp) {
+          return res.status(404).json({ error: "RFP not found" });
+        }
+        if (!req.file) {
+          return res.status(400).json({ error: "No file uploaded" });
+        }
+
+        const extracted = await extractDocumentText(req.file);
+        if (!extracted.text) {
+          return res.status(422).json({ error: "No text could be extracted. Scanned PDFs need OCR before upload." });
+        }
+        const storedPath = await saveOriginalDocument(req.file);
+
+        // Uploading over an existing document is an amendment: earlier text is kept as a version
+        // and the requirements are carried over to the new text
+        const label = typeof req.body.label === "string" ? req.body.label.trim().slice(0, 100) : "";
+        const version = await storage.addDocumentVersion(rfpId, {
+          label: label || null,
+          documentContent: extracted.text,
+          documentName: req.file.originalname,
+          documentPath: storedPath,
+          documentMimeType: req.file.mimetype,
+          uploadedById: req.user!.id,
+        });
+        const changes = rfp.documentContent
+          ? await carryRequirementsToVersion(rfpId, rfp.documentContent, extracted.text, version.version)
+          : null;
+        const updated = await storage.getRfp(rfpId);
+        const { documentContent, ...versionSummary } = version;
+        res.json({ rfp: updated, format: extracted.format, pageCount: extracted.pageCount, version: versionSummary, changes });
+      } catch (error) {
+        if (error instanceof UnsupportedDocumentError) {
+          return res.status(error.status).json({ error: error.message });
+        }
+        console.error("Error extracting RFP document:", error);
+        res.status(422).json({ error: "Failed to extract text from document" });
+      }
+    },
+  );
+
+  app.get("/api/rfps/:id/document", async (req: Request, res: Response) => {
+    try {
+      const rfp = await storage.getRfp(parseInt(req.params.id));
+      const documentPath = storedDocumentPath(rfp?.documentPath ?? null);
+      if (!rfp || !documentPath) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      res.download(documentPath, rfp.documentName || "rfp-document");
+    } catch (error) {
+      console.error("Error downloading RFP document:", error);
+      res.status(500).json({ error: "Failed to download document" });
+    }
+  });
+
+  app.get("/api/rfps/:id/document/versions", async (req: Request, res: Response) => {
+    try {
+      const versions = await storage.getDocumentVersions(parseInt(req.params.id));
+      res.json(versions);
+    } catch (error) {
+      console.error("Error fetching document versions:", error);
+      res.status(500).json({ error: "Failed to fetch document versions" });
+    }
+  });
+
+  app.get("/api/rfps/:id/document/versions/:version", async (req: Request, res: Response) => {
+    try {
+      const version = await storage.getDocumentVersion(parseInt(req.params.id), parseInt(req.params.version));
+      const documentPath = storedDocumentPath(version?.documentPath ?? null);
+      if (!version || !documentPath) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      res.download(documentPath, version.documentName || `rfp-document-v${version.version}`);
+    } catch (error) {
+      console.error("Error downloading document version:", error);
+      res.status(500).json({ error: "Failed to download document" });
+    }
+  });
+
+  // Line diff between two versions, with unchanged stretches collapsed
+  app.get("/api/rfps/:id/document/diff/:from/:to", async (req: Request, res: Response) => {
+    try {
+      const rfpId = parseInt(req.params.id);
+      const [from, to] = await Promise.all([
+        storage.getDocumentVersion(rfpId, parseInt(req.params.from)),
+        storage.getDocumentVersion(rfpId, parseInt(req.params.to)),
+      ]);
+      if (!from || !to) {
+        return res.status(404).json({ error: "Document version not found" });
+      }
+      res.json(diffDocuments(from.documentContent, to.documentContent));
+    } catch (error) {
+      console.error("Error comparing document versions:", error);
+      res.status(500).json({ error: "Failed to compare document versions" });
+    }
+  });
+
+  // Solicitation attachments (SOW, pricing template, wage determinations, forms)
+  app.get("/api/rfps/:id/attachments", async (req: Request, res: Response) => {
+    try {
+      const attachments = await storage.getAttachmentSummaries(parseInt(req.params.id));
+      res.json(attachments);
+    } catch (error) {
+      console.error("Error fetching attachments:", error);
+      res.status(500).json({ error: "Failed to fetch attachments" });
+    }
+  });
+
+  app.post(
+    "/api/rfps/:id/attachments",
+    requirePermission(canManageRfps, "Only proposal managers can upload RFP documents"),
+    documentUpload.single("file"),
+    async (req: Request, res: Response) => {
+      try {
+        const rfp = await storage.getRfp(parseInt(req.params.id));
+        if (!rfp) {
+          return res.status(404).json({ error: "RFP not found" });
+        }
+        if (!req.file) {
+          return res.status(400).json({ error: "No file uploaded" });
+        }
+        const role = req.body.role || null;
+        if (role !== null && !attachmentRoles.includes(role)) {
+          return res.status(400).json({ error: `Role must be one of: ${attachmentRoles.join(", ")}` });
+        }
+        const attachment = await createAttachment(rfp.id, req.file, role, req.user!.id);
+        const { documentContent, ...summary } = attachment;
+        res.status(201).json(summary);
+      } catch (error) {
+        if (error instanceof UnsupportedDocumentError) {
+          return res.status(error.status).json({ error: error.message });
+        }
+        console.error("Error extracting attachment:", error);
+        res.status(422).json({ error: "Failed to extract text from attachment" });
+      }
+    },
+  );
+
+  // The attachment with its extracted text, for the document viewer
+  app.get("/api/attachments/:id", async (req: Request, res: Response) => {
+    try {
+      const attachment = await storage.getAttachment(parseInt(req.params.id));
+      if (!attachment) {
+        return res.status(404).json({ error: "Attachment not found" });
+      }
+      res.json(attachment);
+    } catch (error) {
+      console.error("Error fetching attachment:", error);
+      res.status(500).json({ error: "Failed to fetch attachment" });
+    }
+  });
+
+  app.get("/api/attachments/:id/file", async (req: Request, res: Response) => {
+    try {
+      const attachment = await storage.getAttachment(parseInt(req.params.id));
+      const documentPath = storedDocumentPath(attachment?.documentPath ?? null);
+      if (!attachment || !documentPath) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      res.download(documentPath, attachment.documentName);
+    } catch (error) {
+      console.error("Error downloading attachment:", error);
+      res.status(500).json({ error: "Failed to download document" });
+    }
+  });
+
+  app.patch("/api/attachments/:id", requirePermission(canManageRfps, "Only proposal managers can edit RFP documents"), async (req: Request, res: Response) => {
+    try {
+      const parsed = updateRfpAttachmentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: `Role must be one of: ${attachmentRoles.join(", ")}` });
+      }
+      const attachment = await storage.updateAttachment(parseInt(req.params.id), parsed.data);
+      if (!attachment) {
+        return res.status(404).json({ error: "Attachment not found" });
+      }
+      const { documentContent, ...summary } = attachment;
+      res.json(summary);
+    } catch (error) {
+      console.error("Error updating attachment:", error);
+      res.status(500).json({ error: "Failed to update attachment" });
+    }
+  });
+
+  // Requirements found in the attachment are deleted with it
+  app.delete("/api/attachments/:id", requirePermission(canManageRfps, "Only proposal managers can delete RFP documents"), async (req: Request, res: Response) => {
+    try {
+      const attachment = await storage.getAttachment(parseInt(req.params.id));
+      if (attachment) {
+        await storage.deleteAttachment(attachment.id);
+        await refreshRequirementOutline(attachment.rfpId);
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting attachment:", error);
+      res.status(500).json({ error: "Failed to delete attachment" });
+    }
+  });
+
+  // RFP Analysis with AI, run as a background job
+  app.post("/api/rfps/:id/analyze", requirePermission(canManageRfps, "Only proposal managers can run analysis"), async (req: Request, res: Response) => {
     try {
       const rfpId = parseInt(req.params.id);
       const rfp = await storage.getRfp(rfpId);
       if (!rfp) {
         return res.status(404).json({ error: "RFP not found" });
       }
-
-      await storage.updateRfp(rfpId, { status: "analyzing" });
-
-      const content = rfp.documentContent || "";
-      if (!content) {
-        await storage.updateRfp(rfpId, { status: "draft" });
+      if (!rfp.documentContent) {
         return res.status(400).json({ error: "No document content to analyze" });
       }
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-5.2",
-        messages: [
-          {
-            role: "system",
-            content: `You are an expert RFP analyst. Extract key requirements from the given RFP document. 
-            For each requirement:
-            - Provide the exact text of the requirement
-            - Categorize it into a section (e.g., "Technical Requirements", "Qualifications", "Budget", "Timeline", "Deliverables")
-            - Assign a priority: high, medium, or low
-            - Provide the approximate character position in the original text (start and end)
-            
-            Return your response as a JSON object with a "requirements" array containing objects with these fields:
-            { "requirements": [{ "text": "...", "section": "...", "priority": "high|medium|low", "highlightStart": number, "highlightEnd": number }] }
-            
-            Only return valid JSON.`
-          },
-          {
-            role: "user",
-            content: `Analyze this RFP document and extract all key requirements:\n\n${content}`
-          }
-        ],
-        response_format: { type: "json_object" },
-        max_completion_tokens: 4096,
-      });
+      const mode = req.body?.mode ?? "llm";
+      if (!analysisModes.includes(mode)) {
+        return res.status(400).json({ error: `Analysis mode must be one of: ${analysisModes.join(", ")}` });
+      }
 
-      const rawResult = response.choices[0]?.message?.content || "{}";
-      const analysisResult = JSON.parse(rawResult);
-      const extractedRequirements = Array.isArray(analysisResult) 
-        ? analysisResult 
-        : (analysisResult.requirements || []);
-
-      await storage.deleteRequirementsByRfp(rfpId);
-
-      for (const req of extractedRequirements) {
-        await storage.createRequirement({
-          rfpId,
-          text: req.text,
-          section: req.section,
-          priority: req.priority || "medium",
-          highlightStart: req.highlightStart || null,
-          highlightEnd: req.highlightEnd || null,
-          status: "pending",
-        });
+      const job = await startAnalysisJob(rfpId, req.user!.id, mode);
+      res.status(202).json(job);
+    } catch (error) {
+      console.error("Error starting analysis:", error);
+      res.status(500).json({ error: "Failed to start analysis" });
+    }
+  });
+
+  app.get("/api/rfps/:id/analysis-job", async (req: Request, res: Response) => {
+    try {
+      const job = await storage.getLatestAnalysisJob(parseInt(req.params.id));
+      res.json(job ?? null);
+    } catch (error) {
+      console.error("Error fetching analysis job:", error);
+      res.status(500).json({ error: "Failed to fetch analysis job" });
+    }
+  });
+
+  app.get("/api/analysis-jobs/:id", async (req: Request, res: Response) => {
+    try {
+      const job = await storage.getAnalysisJob(parseInt(req.params.id));
+      if (!job) {
+        return res.status(404).json({ error: "Analysis job not found" });
       }
+      res.json(job);
+    } catch (error) {
+      console.error("Error fetching analysis job:", error);
+      res.status(500).json({ error: "Failed to fetch analysis job" });
+    }
+  });
 
-      await storage.updateRfp(rfpId, { status: "in_progress" });
+  // Server-Sent Events: the current job state first, then every update until it finishes
+  app.get("/api/analysis-jobs/:id/events", async (req: Request, res: Response) => {
+    try {
+      const jobId = parseInt(req.params.id);
+      const job = await storage.getAnalysisJob(jobId);
+      if (!job) {
+        return res.status(404).json({ error: "Analysis job not found" });
+      }
 
-      const requirements = await storage.getRequirementsByRfp(rfpId);
-      res.json({ success: true, requirements });
+      res.setHeader("Content-Type", "text/event-stream");
+      res.setHeader("Cache-Control", "no-cache");
+      res.setHeader("Connection", "keep-alive");
+      res.flushHeaders();
+
+      const send = (update: AnalysisJob) => {
+        if (res.writableEnded) return;
+        res.write(`data: ${JSON.stringify(update)}\n\n`);
+        if (isJobFinished(update)) {
+          unsubscribe();
+          res.end();
+        }
+      };
+
+      const unsubscribe = subscribeToJob(jobId, send);
+      req.on("close", unsubscribe);
+      // Re-read after subscribing so a job that finished in between still gets its final event
+      send((await storage.getAnalysisJob(jobId)) ?? job);
     } catch (error) {
-      console.error("Error analyzing RFP:", error);
-      await storage.updateRfp(parseInt(req.params.id), { status: "draft" });
-      res.status(500).json({ error: "Failed to analyze RFP" });
+      console.error("Error streaming analysis job:", error);
+      if (res.headersSent) {
+        res.end();
+      } else {
+        res.status(500).json({ error: "Failed to stream analysis job" });
+      }
     }
   });
 
@@ -172,26 +580,653 @@ export async function registerRoutes(
   app.get("/api/rfps/:id/requirements", async (req: Request, res: Response) => {
     try {
       const requirements = await storage.getRequirementsByRfp(parseInt(req.params.id));
-      res.json(requirements);
+      res.json(await withRequirementSections(requirements));
     } catch (error) {
       console.error("Error fetching requirements:", error);
       res.status(500).json({ error: "Failed to fetch requirements" });
     }
   });
 
+  app.get("/api/rfps/:id/requirements/retired", async (req: Request, res: Response) => {
+    try {
+      const requirements = await storage.getRetiredRequirementsByRfp(parseInt(req.params.id));
+      res.json(requirements);
+    } catch (error) {
+      console.error("Error fetching retired requirements:", error);
+      res.status(500).json({ error: "Failed to fetch retired requirements" });
+    }
+  });
+
+  // Requirements added by hand are anchored in the document like extracted ones and marked
+  // manual, so re-analysis leaves them alone
+  app.post("/api/rfps/:id/requirements", requirePermission(canManageRfps, "Only proposal managers can edit requirements"), async (req: Request, res: Response) => {
+    try {
+      const rfp = await storage.getRfp(parseInt(req.params.id));
+      if (!rfp) {
+        return res.status(404).json({ error: "RFP not found" });
+      }
+      const parsed = manualRequirementSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid requirement" });
+      }
+      const { text, section, referenceNumber, priority, attachmentId = null, ...offsets } = parsed.data;
+      if (attachmentId !== null && (await storage.getAttachment(attachmentId))?.rfpId !== rfp.id) {
+        return res.status(400).json({ error: "Attachment must belong to this RFP" });
+      }
+      const contentOf = await loadSourceContent(rfp);
+      const created = await storage.createRequirement({
+        rfpId: rfp.id,
+        text,
+        section: section || null,
+        referenceNumber: referenceNumber || null,
+        priority: priority ?? "medium",
+        status: "pending",
+        source: "manual",
+        attachmentId,
+        ...anchorManualText(contentOf(attachmentId), text, offsets),
+      });
+      await refreshRequirementOutline(rfp.id);
+      const requirement = await storage.getRequirement(created.id);
+      res.status(201).json({ ...(requirement ?? created), sectionIds: [] });
+    } catch (error) {
+      console.error("Error creating requirement:", error);
+      res.status(500).json({ error: "Failed to create requirement" });
+    }
+  });
+
+  // Anyone can change a status or clear a Q&A or amendment flag; changing what the requirement says is a PM
+  // edit and makes it manual
   app.patch("/api/requirements/:id", async (req: Request, res: Response) => {
     try {
-      const requirement = await storage.updateRequirement(parseInt(req.params.id), req.body);
-      if (!requirement) {
+      const existing = await storage.getRequirement(parseInt(req.params.id));
+      if (!existing) {
         return res.status(404).json({ error: "Requirement not found" });
       }
-      res.json(requirement);
+      const parsed = updateRequirementSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid requirement" });
+      }
+      const { status, flaggedByQuestionId, documentChange, ...content } = parsed.data;
+      const changesContent = Object.keys(content).length > 0;
+      if (changesContent && !canManageRfps(req.user)) {
+        return res.status(403).json({ error: "Only proposal managers can edit requirements" });
+      }
+
+      const updates: Partial<InsertRequirement> = {
+        ...content,
+        ...(status ? { status } : {}),
+        ...(flaggedByQuestionId === null ? { flaggedByQuestionId: null } : {}),
+        ...(documentChange === null ? { documentChange: null, documentChangeVersion: null } : {}),
+      };
+      if (changesContent) {
+        updates.source = "manual";
+        updates.crossCheck = null;
+        if (content.referenceNumber !== undefined) {
+          updates.referenceNumber = content.referenceNumber || null;
+        }
+        const moved = content.highlightStart !== undefined || content.highlightEnd !== undefined;
+        if (moved || (content.text !== undefined && content.text !== existing.text)) {
+          const rfp = await storage.getRfp(existing.rfpId);
+          const contentOf = rfp ? await loadSourceContent(rfp) : () => "";
+          Object.assign(updates, anchorManualText(
+            contentOf(existing.attachmentId),
+            content.text ?? existing.text,
+            moved ? content : {},
+            existing.highlightStart,
+          ));
+        }
+      }
+
+      const updated = await storage.updateRequirement(existing.id, updates);
+      if (!updated) {
+        return res.status(404).json({ error: "Requirement not found" });
+      }
+      if (changesContent) {
+        await refreshRequirementOutline(existing.rfpId);
+      }
+      const requirement = (await storage.getRequirement(existing.id)) ?? updated;
+      const [withSections] = await withRequirementSections([requirement]);
+      res.json(withSections);
     } catch (error) {
       console.error("Error updating requirement:", error);
       res.status(500).json({ error: "Failed to update requirement" });
     }
   });
 
+  app.delete("/api/requirements/:id", requirePermission(canManageRfps, "Only proposal managers can edit requirements"), async (req: Request, res: Response) => {
+    try {
+      const requirement = await storage.getRequirement(parseInt(req.params.id));
+      if (requirement) {
+        // Its children lose their parent and are placed again under the next closest paragraph
+        await storage.deleteRequirement(requirement.id);
+        await refreshRequirementOutline(requirement.rfpId);
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting requirement:", error);
+      res.status(500).json({ error: "Failed to delete requirement" });
+    }
+  });
+
+  // Replaces one requirement with several; each part keeps its section, priority, status and links
+  app.post("/api/requirements/:id/split", requirePermission(canManageRfps, "Only proposal managers can edit requirements"), async (req: Request, res: Response) => {
+    try {
+      const original = await storage.getRequirement(parseInt(req.params.id));
+      if (!original) {
+        return res.status(404).json({ error: "Requirement not found" });
+      }
+      const parts = Array.isArray(req.body?.parts)
+        ? req.body.parts.filter((p: unknown) => typeof p === "string").map((p: string) => p.trim()).filter(Boolean)
+        : [];
+      if (parts.length < 2) {
+        return res.status(400).json({ error: "Provide at least two parts to split into" });
+      }
+      const rfp = await storage.getRfp(original.rfpId);
+      const contentOf = rfp ? await loadSourceContent(rfp) : () => "";
+      const created = await storage.splitRequirement(original.id, planSplit(contentOf(original.attachmentId), original, parts));
+      await refreshRequirementOutline(original.rfpId);
+      const refreshed = await storage.getRequirementsByRfp(original.rfpId);
+      res.status(201).json(await withRequirementSections(
+        created.map(part => refreshed.find(r => r.id === part.id) ?? part),
+      ));
+    } catch (error) {
+      console.error("Error splitting requirement:", error);
+      res.status(500).json({ error: "Failed to split requirement" });
+    }
+  });
+
+  // Folds duplicates into the first requirement listed; the others are deleted
+  app.post("/api/rfps/:id/requirements/merge", requirePermission(canManageRfps, "Only proposal managers can edit requirements"), async (req: Request, res: Response) => {
+    try {
+      const rfpId = parseInt(req.params.id);
+      const ids = req.body?.requirementIds;
+      if (!Array.isArray(ids) || !ids.every((id: unknown) => Number.isInteger(id)) || new Set(ids).size < 2) {
+        return res.status(400).json({ error: "requirementIds must list at least two requirements" });
+      }
+      const active = await storage.getRequirementsByRfp(rfpId);
+      const originals = Array.from(new Set<number>(ids)).map(id => active.find(r => r.id === id));
+      if (originals.some(r => !r)) {
+        return res.status(400).json({ error: "Requirements must be active requirements of this RFP" });
+      }
+      const [keep, ...remove] = originals as Requirement[];
+      if (remove.some(r => r.attachmentId !== keep.attachmentId)) {
+        return res.status(400).json({ error: "Requirements to merge must come from the same document" });
+      }
+      const text = typeof req.body?.text === "string" ? req.body.text : undefined;
+      const rfp = await storage.getRfp(rfpId);
+      const contentOf = rfp ? await loadSourceContent(rfp) : () => "";
+      const merged = await storage.mergeRequirements(
+        keep.id,
+        planMerge(contentOf(keep.attachmentId), originals as Requirement[], text),
+        remove.map(r => r.id),
+      );
+      if (!merged) {
+        return res.status(404).json({ error: "Requirement not found" });
+      }
+      await refreshRequirementOutline(rfpId);
+      const [withSections] = await withRequirementSections([(await storage.getRequirement(merged.id)) ?? merged]);
+      res.json(withSections);
+    } catch (error) {
+      console.error("Error merging requirements:", error);
+      res.status(500).json({ error: "Failed to merge requirements" });
+    }
+  });
+
+  // Replaces the response sections that answer a requirement
+  app.put("/api/requirements/:id/sections", requirePermission(canManageSections, "Only proposal managers can link requirements to sections"), async (req: Request, res: Response) => {
+    try {
+      const requirement = await storage.getRequirement(parseInt(req.params.id));
+      if (!requirement) {
+        return res.status(404).json({ error: "Requirement not found" });
+      }
+      const sectionIds = req.body?.sectionIds;
+      if (!Array.isArray(sectionIds) || !sectionIds.every((id: unknown) => Number.isInteger(id))) {
+        return res.status(400).json({ error: "sectionIds must be an array of section ids" });
+      }
+      const response = await storage.getResponseByRfp(requirement.rfpId);
+      const rfpSectionIds = new Set(response?.sections.map(s => s.id) || []);
+      if (!sectionIds.every((id: number) => rfpSectionIds.has(id))) {
+        return res.status(400).json({ error: "Sections must belong to the same RFP's response" });
+      }
+      await storage.setRequirementSections(requirement.id, Array.from(new Set<number>(sectionIds)));
+      const [withSections] = await withRequirementSections([requirement]);
+      res.json(withSections);
+    } catch (error) {
+      console.error("Error linking sections:", error);
+      res.status(500).json({ error: "Failed to link sections" });
+    }
+  });
+
+  // Proposes statuses for pending requirements without saving anything; the PM reviews them
+  // and posts the ones they accept to /apply
+  app.post("/api/rfps/:id/coverage-check", requirePermission(canManageSections, "Only proposal managers can run coverage checks"), async (req: Request, res: Response) => {
+    try {
+      const rfpId = parseInt(req.params.id);
+      const mode = req.body?.mode ?? "llm";
+      if (!coverageModes.includes(mode)) {
+        return res.status(400).json({ error: `Coverage mode must be one of: ${coverageModes.join(", ")}` });
+      }
+      const response = await storage.getResponseByRfp(rfpId);
+      if (!response || response.sections.length === 0) {
+        return res.status(400).json({ error: "No response sections to check against" });
+      }
+      const requirements = await storage.getRequirementsByRfp(rfpId);
+      res.json(await checkCoverage(requirements, response.sections, mode));
+    } catch (error) {
+      console.error("Error checking coverage:", error);
+      res.status(500).json({ error: "Failed to check coverage" });
+    }
+  });
+
+  app.post("/api/rfps/:id/coverage-check/apply", requirePermission(canManageSections, "Only proposal managers can apply coverage results"), async (req: Request, res: Response) => {
+    try {
+      const rfpId = parseInt(req.params.id);
+      const parsed = applyCoverageSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "findings must be an array of { requirementId, sectionId }" });
+      }
+      const links = parsed.data.findings;
+      const requirements = await storage.getRequirementsByRfp(rfpId);
+      const response = await storage.getResponseByRfp(rfpId);
+      const requirementIds = new Set(requirements.map(r => r.id));
+      const sectionIds = new Set(response?.sections.map(s => s.id) || []);
+      if (!links.every(l => requirementIds.has(l.requirementId) && sectionIds.has(l.sectionId))) {
+        return res.status(400).json({ error: "Findings must refer to this RFP's requirements and response sections" });
+      }
+      await storage.markRequirementsAddressed(links);
+      res.json(await withRequirementSections(await storage.getRequirementsByRfp(rfpId)));
+    } catch (error) {
+      console.error("Error applying coverage results:", error);
+      res.status(500).json({ error: "Failed to apply coverage results" });
+    }
+  });
+
+  app.get("/api/rfps/:id/compliance-matrix", async (req: Request, res: Response) => {
+    try {
+      const format = (req.query.format || "csv") as ComplianceMatrixFormat;
+      if (format !== "csv" && format !== "xlsx") {
+        return res.status(400).json({ error: "format must be csv or xlsx" });
+      }
+      const rfp = await storage.getRfp(parseInt(req.params.id));
+      if (!rfp) {
+        return res.status(404).json({ error: "RFP not found" });
+      }
+      const file = await exportComplianceMatrix(rfp, format);
+      const baseName = rfp.title.replace(/[^a-z0-9]+/gi, "-").replace(/^-+|-+$/g, "").slice(0, 60) || `rfp-${rfp.id}`;
+      res.setHeader("Content-Type", format === "csv"
+        ? "text/csv; charset=utf-8"
+        : "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+      res.setHeader("Content-Disposition", `attachment; filename="${baseName}-compliance-matrix.${format}"`);
+      res.send(file);
+    } catch (error) {
+      console.error("Error exporting compliance matrix:", error);
+      res.status(500).json({ error: "Failed to export compliance matrix" });
+    }
+  });
+
+  // Clarification questions
+  app.get("/api/rfps/:id/questions", async (req: Request, res: Response) => {
+    try {
+      const questions = await storage.getQuestionsByRfp(parseInt(req.params.id));
+      res.json(questions);
+    } catch (error) {
+      console.error("Error fetching questions:", error);
+      res.status(500).json({ error: "Failed to fetch questions" });
+    }
+  });
+
+  // Anyone on the team can log a question; it stays pending until a PM sends it to the agency
+  app.post("/api/rfps/:id/questions", async (req: Request, res: Response) => {
+    try {
+      const rfpId = parseInt(req.params.id);
+      const parsed = questionInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid question" });
+      }
+      if (!(await storage.getRfp(rfpId))) {
+        return res.status(404).json({ error: "RFP not found" });
+      }
+      const { question, requirementId, rfpReference } = parsed.data;
+      if (requirementId != null && (await storage.getRequirement(requirementId))?.rfpId !== rfpId) {
+        return res.status(400).json({ error: "Requirement must belong to this RFP" });
+      }
+      const created = await storage.createQuestion({
+        rfpId,
+        question,
+        requirementId: requirementId ?? null,
+        rfpReference: rfpReference || null,
+        status: "pending",
+        source: "team",
+        createdById: req.user!.id,
+      });
+      res.status(201).json(created);
+    } catch (error) {
+      console.error("Error creating question:", error);
+      res.status(500).json({ error: "Failed to create question" });
+    }
+  });
+
+  app.patch("/api/questions/:id", async (req: Request, res: Response) => {
+    try {
+      const existing = await storage.getQuestion(parseInt(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ error: "Question not found" });
+      }
+      if (!canEditQuestion(req.user, existing)) {
+        return res.status(403).json({ error: "You can only edit your own questions before they are submitted" });
+      }
+      const parsed = questionInputSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid question" });
+      }
+      const { requirementId, rfpReference, ...rest } = parsed.data;
+      if (requirementId != null && (await storage.getRequirement(requirementId))?.rfpId !== existing.rfpId) {
+        return res.status(400).json({ error: "Requirement must belong to this RFP" });
+      }
+      const question = await storage.updateQuestion(existing.id, {
+        ...rest,
+        ...(requirementId !== undefined ? { requirementId } : {}),
+        ...(rfpReference !== undefined ? { rfpReference: rfpReference || null } : {}),
+      });
+      res.json(question);
+    } catch (error) {
+      console.error("Error updating question:", error);
+      res.status(500).json({ error: "Failed to update question" });
+    }
+  });
+
+  app.delete("/api/questions/:id", async (req: Request, res: Response) => {
+    try {
+      const existing = await storage.getQuestion(parseInt(req.params.id));
+      if (existing) {
+        if (!canEditQuestion(req.user, existing)) {
+          return res.status(403).json({ error: "You can only delete your own questions before they are submitted" });
+        }
+        await storage.deleteQuestion(existing.id);
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting question:", error);
+      res.status(500).json({ error: "Failed to delete question" });
+    }
+  });
+
+  // Records that the listed pending questions went to the contracting officer
+  app.post("/api/rfps/:id/questions/submit", requirePermission(canManageRfps, "Only proposal managers can submit questions"), async (req: Request, res: Response) => {
+    try {
+      const ids = req.body?.questionIds;
+      if (!Array.isArray(ids) || !ids.every((id: unknown) => Number.isInteger(id))) {
+        return res.status(400).json({ error: "questionIds must be a list of question ids" });
+      }
+      const questions = await storage.markQuestionsSubmitted(parseInt(req.params.id), ids);
+      res.json(questions);
+    } catch (error) {
+      console.error("Error submitting questions:", error);
+      res.status(500).json({ error: "Failed to submit questions" });
+    }
+  });
+
+  // Pending questions laid out the way the agency asked: a file format and the columns, in order
+  app.get("/api/rfps/:id/questions/export", async (req: Request, res: Response) => {
+    try {
+      const format = (req.query.format || "xlsx") as QuestionExportFormat;
+      if (!questionExportFormats.includes(format)) {
+        return res.status(400).json({ error: `format must be one of: ${questionExportFormats.join(", ")}` });
+      }
+      const columns = String(req.query.columns || questionExportColumns.join(","))
+        .split(",")
+        .map(c => c.trim())
+        .filter(Boolean) as QuestionExportColumn[];
+      if (columns.length === 0 || columns.some(c => !questionExportColumns.includes(c))) {
+        return res.status(400).json({ error: `columns must be taken from: ${questionExportColumns.join(", ")}` });
+      }
+      const rfp = await storage.getRfp(parseInt(req.params.id));
+      if (!rfp) {
+        return res.status(404).json({ error: "RFP not found" });
+      }
+      const [questions, requirements, contentOf] = await Promise.all([
+        storage.getQuestionsByRfp(rfp.id),
+        storage.getRequirementsByRfp(rfp.id),
+        loadSourceContent(rfp),
+      ]);
+      const file = exportQuestions(questions.filter(q => q.status === "pending"), requirements, contentOf, format, columns);
+      const baseName = rfp.title.replace(/[^a-z0-9]+/gi, "-").replace(/^-+|-+$/g, "").slice(0, 60) || `rfp-${rfp.id}`;
+      res.setHeader("Content-Type", {
+        csv: "text/csv; charset=utf-8",
+        txt: "text/plain; charset=utf-8",
+        xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      }[format]);
+      res.setHeader("Content-Disposition", `attachment; filename="${baseName}-questions.${format}"`);
+      res.send(file);
+    } catch (error) {
+      console.error("Error exporting questions:", error);
+      res.status(500).json({ error: "Failed to export questions" });
+    }
+  });
+
+  // Reads the agency's published Q&A (an uploaded document or spreadsheet, or pasted `text`) and
+  // matches each answer to a logged question; nothing is saved
+  app.post(
+    "/api/rfps/:id/questions/answers/preview",
+    requirePermission(canManageRfps, "Only proposal managers can import answers"),
+    documentUpload.single("file"),
+    async (req: Request, res: Response) => {
+      try {
+        const rfpId = parseInt(req.params.id);
+        if (!(await storage.getRfp(rfpId))) {
+          return res.status(404).json({ error: "RFP not found" });
+        }
+        const text = typeof req.body?.text === "string" ? req.body.text : "";
+        if (!req.file && !text.trim()) {
+          return res.status(400).json({ error: "Upload the agency's answers or paste them as text" });
+        }
+        const parsed = req.file ? await readAnswerFile(req.file) : parseAnswerText(text);
+        if (parsed.length === 0) {
+          return res.status(422).json({ error: "No answers found. Answers should be marked \"Answer:\" or \"A1:\", or sit in an Answer column" });
+        }
+        const questions = await storage.getQuestionsByRfp(rfpId);
+        res.json({ answers: matchAnswers(parsed, questions) });
+      } catch (error) {
+        if (error instanceof UnsupportedDocumentError) {
+          return res.status(error.status).json({ error: error.message });
+        }
+        console.error("Error reading answers:", error);
+        res.status(422).json({ error: "Failed to read answers" });
+      }
+    },
+  );
+
+  // Saves the reviewed answers; each can flag its requirement for review or replace its wording
+  app.post("/api/rfps/:id/questions/answers", requirePermission(canManageRfps, "Only proposal managers can import answers"), async (req: Request, res: Response) => {
+    try {
+      const rfpId = parseInt(req.params.id);
+      const parsed = applyAnswersSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid answers" });
+      }
+      const [questions, requirements] = await Promise.all([
+        storage.getQuestionsByRfp(rfpId),
+        storage.getRequirementsByRfp(rfpId),
+      ]);
+      const answers = parsed.data.answers;
+      if (answers.some(a => a.questionId !== null && !questions.some(q => q.id === a.questionId))) {
+        return res.status(400).json({ error: "Questions must belong to this RFP" });
+      }
+      if (answers.some(a => a.requirementId != null && !requirements.some(r => r.id === a.requirementId))) {
+        return res.status(400).json({ error: "Requirements must be active requirements of this RFP" });
+      }
+      const saved = await storage.applyQuestionAnswers(rfpId, answers, req.user!.id);
+      res.json(saved);
+    } catch (error) {
+      console.error("Error applying answers:", error);
+      res.status(500).json({ error: "Failed to apply answers" });
+    }
+  });
+
+  // Key dates. Editing an extracted date makes it manual so re-analysis leaves it alone,
+  // and the proposal due date is mirrored onto the RFP.
+  app.get("/api/rfps/:id/deadlines", async (req: Request, res: Response) => {
+    try {
+      const deadlines = await storage.getDeadlinesByRfp(parseInt(req.params.id));
+      res.json(deadlines);
+    } catch (error) {
+      console.error("Error fetching deadlines:", error);
+      res.status(500).json({ error: "Failed to fetch deadlines" });
+    }
+  });
+
+  app.post("/api/rfps/:id/deadlines", requirePermission(canManageRfps, "Only proposal managers can edit key dates"), async (req: Request, res: Response) => {
+    try {
+      const rfpId = parseInt(req.params.id);
+      const parsed = insertRfpDeadlineSchema.safeParse({ ...req.body, rfpId, source: "manual", sourceText: null });
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid key date" });
+      }
+      if (!(await storage.getRfp(rfpId))) {
+        return res.status(404).json({ error: "RFP not found" });
+      }
+      const deadline = await storage.createDeadline(parsed.data);
+      if (deadline.type === "proposal_due") {
+        await storage.updateRfp(rfpId, { dueDate: deadline.dueAt });
+      }
+      res.status(201).json(deadline);
+    } catch (error) {
+      console.error("Error creating deadline:", error);
+      res.status(500).json({ error: "Failed to create deadline" });
+    }
+  });
+
+  app.patch("/api/deadlines/:id", requirePermission(canManageRfps, "Only proposal managers can edit key dates"), async (req: Request, res: Response) => {
+    try {
+      const parsed = insertRfpDeadlineSchema.omit({ rfpId: true, source: true, sourceText: true }).partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid key date" });
+      }
+      const existing = await storage.getDeadline(parseInt(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ error: "Deadline not found" });
+      }
+      const deadline = await storage.updateDeadline(existing.id, { ...parsed.data, source: "manual" });
+      if (!deadline) {
+        return res.status(404).json({ error: "Deadline not found" });
+      }
+      if (deadline.type === "proposal_due") {
+        await storage.updateRfp(deadline.rfpId, { dueDate: deadline.dueAt });
+      } else if (existing.type === "proposal_due") {
+        await refreshRfpDueDate(deadline.rfpId);
+      }
+      res.json(deadline);
+    } catch (error) {
+      console.error("Error updating deadline:", error);
+      res.status(500).json({ error: "Failed to update deadline" });
+    }
+  });
+
+  app.delete("/api/deadlines/:id", requirePermission(canManageRfps, "Only proposal managers can edit key dates"), async (req: Request, res: Response) => {
+    try {
+      const deadline = await storage.getDeadline(parseInt(req.params.id));
+      if (!deadline) {
+        return res.status(404).json({ error: "Deadline not found" });
+      }
+      await storage.deleteDeadline(deadline.id);
+      if (deadline.type === "proposal_due") {
+        await refreshRfpDueDate(deadline.rfpId);
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting deadline:", error);
+      res.status(500).json({ error: "Failed to delete deadline" });
+    }
+  });
+
+  // Evaluation criteria. As with key dates, editing an extracted criterion makes it manual.
+  app.get("/api/rfps/:id/evaluation-criteria", async (req: Request, res: Response) => {
+    try {
+      const criteria = await storage.getEvaluationCriteriaByRfp(parseInt(req.params.id));
+      res.json(await withSectionIds(criteria));
+    } catch (error) {
+      console.error("Error fetching evaluation criteria:", error);
+      res.status(500).json({ error: "Failed to fetch evaluation criteria" });
+    }
+  });
+
+  app.post("/api/rfps/:id/evaluation-criteria", requirePermission(canManageRfps, "Only proposal managers can edit evaluation criteria"), async (req: Request, res: Response) => {
+    try {
+      const rfpId = parseInt(req.params.id);
+      const parsed = insertEvaluationCriterionSchema.safeParse({ ...req.body, rfpId, source: "manual", sourceText: null });
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid evaluation criterion" });
+      }
+      if (parsed.data.parentId) {
+        const parent = await storage.getEvaluationCriterion(parsed.data.parentId);
+        if (!parent || parent.rfpId !== rfpId || parent.parentId !== null) {
+          return res.status(400).json({ error: "Subfactors must belong to a factor of the same RFP" });
+        }
+      }
+      const criterion = await storage.createEvaluationCriterion(parsed.data);
+      res.status(201).json({ ...criterion, sectionIds: [] });
+    } catch (error) {
+      console.error("Error creating evaluation criterion:", error);
+      res.status(500).json({ error: "Failed to create evaluation criterion" });
+    }
+  });
+
+  app.patch("/api/evaluation-criteria/:id", requirePermission(canManageRfps, "Only proposal managers can edit evaluation criteria"), async (req: Request, res: Response) => {
+    try {
+      const parsed = insertEvaluationCriterionSchema
+        .omit({ rfpId: true, parentId: true, source: true, sourceText: true })
+        .partial()
+        .safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid evaluation criterion" });
+      }
+      const criterion = await storage.updateEvaluationCriterion(parseInt(req.params.id), { ...parsed.data, source: "manual" });
+      if (!criterion) {
+        return res.status(404).json({ error: "Evaluation criterion not found" });
+      }
+      const [withSections] = await withSectionIds([criterion]);
+      res.json(withSections);
+    } catch (error) {
+      console.error("Error updating evaluation criterion:", error);
+      res.status(500).json({ error: "Failed to update evaluation criterion" });
+    }
+  });
+
+  app.delete("/api/evaluation-criteria/:id", requirePermission(canManageRfps, "Only proposal managers can edit evaluation criteria"), async (req: Request, res: Response) => {
+    try {
+      await storage.deleteEvaluationCriterion(parseInt(req.params.id));
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting evaluation criterion:", error);
+      res.status(500).json({ error: "Failed to delete evaluation criterion" });
+    }
+  });
+
+  // Replaces the response sections a criterion is scored in
+  app.put("/api/evaluation-criteria/:id/sections", requirePermission(canManageSections, "Only proposal managers can link sections to evaluation criteria"), async (req: Request, res: Response) => {
+    try {
+      const criterion = await storage.getEvaluationCriterion(parseInt(req.params.id));
+      if (!criterion) {
+        return res.status(404).json({ error: "Evaluation criterion not found" });
+      }
+      const sectionIds = req.body?.sectionIds;
+      if (!Array.isArray(sectionIds) || !sectionIds.every((id: unknown) => Number.isInteger(id))) {
+        return res.status(400).json({ error: "sectionIds must be an array of section ids" });
+      }
+      const response = await storage.getResponseByRfp(criterion.rfpId);
+      const rfpSectionIds = new Set(response?.sections.map(s => s.id) || []);
+      if (!sectionIds.every((id: number) => rfpSectionIds.has(id))) {
+        return res.status(400).json({ error: "Sections must belong to the same RFP's response" });
+      }
+      await storage.setCriterionSections(criterion.id, Array.from(new Set<number>(sectionIds)));
+      const [withSections] = await withSectionIds([criterion]);
+      res.json(withSections);
+    } catch (error) {
+      console.error("Error linking sections:", error);
+      res.status(500).json({ error: "Failed to link sections" });
+    }
+  });
+
   // Templates
   app.get("/api/templates", async (req: Request, res: Response) => {
     try {
@@ -265,15 +1300,45 @@ export async function registerRoutes(
         response = { ...newResponse, sections: [] };
       }
 
-      if (req.body.sections) {
-        for (const section of req.body.sections) {
-          if (section.id) {
-            await storage.updateResponseSection(section.id, {
-              title: section.title,
-              content: section.content,
-              orderIndex: section.orderIndex,
-            });
+      const parsed = saveResponseSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid response sections" });
+      }
+
+      if (parsed.data.sections) {
+        // Unchanged sections ride along with every save, so only the ones being modified are checked and written
+        const modified: { section: SaveResponseSection; existing: ResponseSection }[] = [];
+        for (const section of parsed.data.sections) {
+          const existing = response.sections.find(s => s.id === section.id);
+          if (!existing) continue;
+          const contentChanged = section.content !== undefined && existing.content !== section.content;
+          const isModified = existing.title !== section.title
+            || contentChanged
+            || existing.orderIndex !== section.orderIndex;
+          if (!isModified) continue;
+          if (!canEditSection(req.user, existing)) {
+            return res.status(403).json({ error: `You cannot edit the section "${existing.title}"` });
           }
+          modified.push({ section: { ...section, content: contentChanged ? section.content : undefined }, existing });
+        }
+
+        // A save started from an older version would overwrite someone else's work, so when any
+        // section conflicts nothing is written and the current sections go back for the client to merge.
+        // The editor saves content through the live document, so it usually leaves it out here.
+        const { conflicts } = await saveSections(
+          modified.map(({ section, existing }) => ({
+            sectionId: existing.id,
+            fields: { title: section.title, orderIndex: section.orderIndex, content: section.content },
+            expectedVersion: section.version,
+          })),
+          req.user!.id,
+        );
+        if (conflicts.length > 0) {
+          const current = await storage.getResponseByRfp(rfpId);
+          return res.status(409).json({
+            error: "These sections were changed by someone else since you loaded them",
+            sections: current?.sections.filter(s => conflicts.includes(s.id)) ?? [],
+          });
         }
       }
 
@@ -286,7 +1351,7 @@ export async function registerRoutes(
   });
 
   // Response Sections
-  app.post("/api/rfps/:id/response/sections", async (req: Request, res: Response) => {
+  app.post("/api/rfps/:id/response/sections", requirePermission(canManageSections, "Only proposal managers can add sections"), async (req: Request, res: Response) => {
     try {
       const rfpId = parseInt(req.params.id);
       let response = await storage.getResponseByRfp(rfpId);
@@ -310,12 +1375,162 @@ export async function registerRoutes(
     }
   });
 
+  // Proposes sections from the submission instructions; nothing is saved
+  app.post("/api/rfps/:id/response/outline/preview", requirePermission(canManageSections, "Only proposal managers can add sections"), async (req: Request, res: Response) => {
+    try {
+      const rfp = await storage.getRfp(parseInt(req.params.id));
+      if (!rfp) {
+        return res.status(404).json({ error: "RFP not found" });
+      }
+      const [requirements, templates, response] = await Promise.all([
+        storage.getRequirementsByRfp(rfp.id),
+        storage.getAllTemplates(),
+        storage.getResponseByRfp(rfp.id),
+      ]);
+      res.json({ sections: planResponseOutline(requirements, templates, response?.sections || []) });
+    } catch (error) {
+      console.error("Error building response outline:", error);
+      res.status(500).json({ error: "Failed to build response outline" });
+    }
+  });
+
+  // Creates the sections a PM kept from the preview, after the existing ones, each linked to its
+  // requirements and optionally seeded from a template. Sections that already exist only gain links.
+  app.post("/api/rfps/:id/response/outline", requirePermission(canManageSections, "Only proposal managers can add sections"), async (req: Request, res: Response) => {
+    try {
+      const rfpId = parseInt(req.params.id);
+      const rfp = await storage.getRfp(rfpId);
+      if (!rfp) {
+        return res.status(404).json({ error: "RFP not found" });
+      }
+      const parsed = applyResponseOutlineSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid outline" });
+      }
+
+      const [requirements, templates] = await Promise.all([
+        storage.getRequirementsByRfp(rfpId),
+        storage.getAllTemplates(),
+      ]);
+      let response = await storage.getResponseByRfp(rfpId);
+      if (!response) {
+        const newResponse = await storage.createResponse({ rfpId, content: "" });
+        response = { ...newResponse, sections: [] };
+      }
+
+      const entries = parsed.data.sections;
+      if (entries.some(e => e.requirementIds.some(id => !requirements.some(r => r.id === id)))) {
+        return res.status(400).json({ error: "Requirements must be active requirements of this RFP" });
+      }
+      if (entries.some(e => e.templateId != null && !templates.some(t => t.id === e.templateId))) {
+        return res.status(400).json({ error: "Template not found" });
+      }
+      if (entries.some(e => e.existingSectionId != null && !response!.sections.some(s => s.id === e.existingSectionId))) {
+        return res.status(400).json({ error: "Sections must belong to this RFP's response" });
+      }
+
+      const startIndex = response.sections.reduce((max, s) => Math.max(max, s.orderIndex + 1), 0);
+      const additions = entries.filter(e => e.existingSectionId == null);
+      const created = await storage.createOutlineSections(
+        additions.map((entry, i) => ({
+          section: {
+            responseId: response!.id,
+            title: entry.title,
+            content: templates.find(t => t.id === entry.templateId)?.content ?? "",
+            orderIndex: startIndex + i,
+            pageLimit: entry.pageLimit ?? null,
+          },
+          requirementIds: entry.requirementIds,
+        })),
+        entries
+          .filter(e => e.existingSectionId != null)
+          .flatMap(e => e.requirementIds.map(requirementId => ({ requirementId, sectionId: e.existingSectionId! }))),
+      );
+      res.status(201).json(created);
+    } catch (error) {
+      console.error("Error applying response outline:", error);
+      res.status(500).json({ error: "Failed to apply response outline" });
+    }
+  });
+
+  // Import an offline Word/PDF draft as new sections, split at its headings
+  app.post(
+    "/api/rfps/:id/response/import",
+    requirePermission(canManageSections, "Only proposal managers can import drafts"),
+    documentUpload.single("file"),
+    async (req: Request, res: Response) => {
+      try {
+        const rfpId = parseInt(req.params.id);
+        if (!req.file) {
+          return res.status(400).json({ error: "No file uploaded" });
+        }
+
+        const drafts = await extractDraftSections(req.file);
+        if (drafts.length === 0) {
+          return res.status(422).json({ error: "No content could be extracted from the draft" });
+        }
+
+        let response = await storage.getResponseByRfp(rfpId);
+        if (!response) {
+          const newResponse = await storage.createResponse({ rfpId, content: "" });
+          response = { ...newResponse, sections: [] };
+        }
+
+        const startIndex = response.sections.reduce((max, s) => Math.max(max, s.orderIndex + 1), 0);
+        const sections = [];
+        for (let i = 0; i < drafts.length; i++) {
+          sections.push(await storage.createResponseSection({
+            responseId: response.id,
+            title: drafts[i].title,
+            content: drafts[i].content,
+            orderIndex: startIndex + i,
+          }));
+        }
+
+        res.status(201).json(sections);
+      } catch (error) {
+        if (error instanceof UnsupportedDocumentError) {
+          return res.status(error.status).json({ error: error.message });
+        }
+        console.error("Error importing draft:", error);
+        res.status(422).json({ error: "Failed to import draft" });
+      }
+    },
+  );
+
   app.patch("/api/response-sections/:id", async (req: Request, res: Response) => {
     try {
-      const section = await storage.updateResponseSection(parseInt(req.params.id), req.body);
-      if (!section) {
+      const existing = await storage.getResponseSection(parseInt(req.params.id));
+      if (!existing) {
         return res.status(404).json({ error: "Section not found" });
       }
+
+      const parsed = updateResponseSectionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid section update" });
+      }
+
+      const { version, ...updates } = parsed.data;
+      const changesControl = updates.isLocked !== undefined || updates.assignedUserId !== undefined;
+      if (changesControl && !canManageSections(req.user)) {
+        return res.status(403).json({ error: "Only proposal managers can lock or assign sections" });
+      }
+      if (!changesControl && !canEditSection(req.user, existing)) {
+        return res.status(403).json({ error: "You can only edit unlocked sections assigned to you" });
+      }
+
+      const fields: Partial<InsertResponseSection> = { ...updates };
+      if (updates.isLocked !== undefined) {
+        fields.lockedByPmId = updates.isLocked ? req.user!.id : null;
+      }
+      const section = await saveSection(existing.id, fields, { expectedVersion: version, authorId: req.user!.id });
+      if (!section) {
+        const current = await storage.getResponseSection(existing.id);
+        if (!current) {
+          return res.status(404).json({ error: "Section not found" });
+        }
+        return res.status(409).json({ error: "This section was changed by someone else since you loaded it", section: current });
+      }
       res.json(section);
     } catch (error) {
       console.error("Error updating section:", error);
@@ -323,8 +1538,93 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/response-sections/:id", async (req: Request, res: Response) => {
+  // Section history, newest first
+  app.get("/api/response-sections/:id/revisions", async (req: Request, res: Response) => {
+    try {
+      const revisions = await storage.getSectionRevisions(parseInt(req.params.id));
+      res.json(revisions);
+    } catch (error) {
+      console.error("Error fetching section revisions:", error);
+      res.status(500).json({ error: "Failed to fetch section revisions" });
+    }
+  });
+
+  app.get("/api/response-sections/:id/revisions/:revisionId", async (req: Request, res: Response) => {
     try {
+      const revision = await storage.getSectionRevision(parseInt(req.params.revisionId));
+      if (!revision || revision.sectionId !== parseInt(req.params.id)) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+      res.json(revision);
+    } catch (error) {
+      console.error("Error fetching section revision:", error);
+      res.status(500).json({ error: "Failed to fetch section revision" });
+    }
+  });
+
+  // Line diff of a revision's text against the one before it ("previous") or the section as it is now ("current")
+  app.get("/api/response-sections/:id/revisions/:revisionId/diff/:against", async (req: Request, res: Response) => {
+    try {
+      const sectionId = parseInt(req.params.id);
+      const revision = await storage.getSectionRevision(parseInt(req.params.revisionId));
+      if (!revision || revision.sectionId !== sectionId) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+
+      if (req.params.against === "current") {
+        const section = await storage.getResponseSection(sectionId);
+        if (!section) {
+          return res.status(404).json({ error: "Section not found" });
+        }
+        return res.json(diffDocuments(sectionText(revision.content), sectionText(section.content)));
+      }
+      if (req.params.against !== "previous") {
+        return res.status(400).json({ error: "Compare against \"previous\" or \"current\"" });
+      }
+
+      const revisions = await storage.getSectionRevisions(sectionId);
+      const older = revisions.find(r => r.id < revision.id);
+      const previous = older ? await storage.getSectionRevision(older.id) : undefined;
+      res.json(diffDocuments(previous ? sectionText(previous.content) : "", sectionText(revision.content)));
+    } catch (error) {
+      console.error("Error comparing section revisions:", error);
+      res.status(500).json({ error: "Failed to compare section revisions" });
+    }
+  });
+
+  // Puts a revision's content back as a new revision, so the content it replaces stays in the history
+  app.post("/api/response-sections/:id/revisions/:revisionId/restore", async (req: Request, res: Response) => {
+    try {
+      const existing = await storage.getResponseSection(parseInt(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ error: "Section not found" });
+      }
+      if (!canEditSection(req.user, existing)) {
+        return res.status(403).json({ error: "You can only edit unlocked sections assigned to you" });
+      }
+      const revision = await storage.getSectionRevision(parseInt(req.params.revisionId));
+      if (!revision || revision.sectionId !== existing.id) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+
+      const section = await saveSection(
+        existing.id,
+        { content: revision.content },
+        { authorId: req.user!.id, restoredFromId: revision.id },
+      );
+      if (!section) {
+        return res.status(404).json({ error: "Section not found" });
+      }
+      res.json(section);
+    } catch (error) {
+      console.error("Error restoring section revision:", error);
+      res.status(500).json({ error: "Failed to restore section revision" });
+    }
+  });
+
+  app.delete("/api/response-sections/:id", requirePermission(canManageSections, "Only proposal managers can delete sections"), async (req: Request, res: Response) => {
+    try {
+      await closeSection(parseInt(req.params.id));
       await storage.deleteResponseSection(parseInt(req.params.id));
       res.status(204).send();
     } catch (error) {
@@ -344,7 +1644,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/rfps/:id/budget", async (req: Request, res: Response) => {
+  app.post("/api/rfps/:id/budget", requirePermission(canEditBudget, "Only proposal managers can edit the budget"), async (req: Request, res: Response) => {
     try {
       const rfpId = parseInt(req.params.id);
       const items = await storage.saveBudgetItems(rfpId, req.body.items || []);
@@ -377,8 +1677,9 @@ export async function registerRoutes(
 
       const content = response.sections.map(s => `## ${s.title}\n${s.content}`).join("\n\n");
 
-      const aiResponse = await openai.chat.completions.create({
-        model: "gpt-5.2",
+      const result = await completeJson<{ insights?: any[] }>({
+        feature: "insights",
+        input: content,
         messages: [
           {
             role: "system",
@@ -398,11 +1699,9 @@ export async function registerRoutes(
             content: `Analyze this proposal response and provide improvement insights:\n\n${content}`
           }
         ],
-        response_format: { type: "json_object" },
-        max_completion_tokens: 2048,
+        maxTokens: 2048,
       });
 
-      const result = JSON.parse(aiResponse.choices[0]?.message?.content || "{}");
       const newInsights = result.insights || [];
 
       for (const insight of newInsights) {
@@ -447,7 +1746,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/rfps/:id/reviews", async (req: Request, res: Response) => {
+  app.post("/api/rfps/:id/reviews", requirePermission(canManageRfps, "Only proposal managers can request reviews"), async (req: Request, res: Response) => {
     try {
       const rfpId = parseInt(req.params.id);
       const review = await storage.createReview({
@@ -469,7 +1768,23 @@ export async function registerRoutes(
 
   app.patch("/api/reviews/:id", async (req: Request, res: Response) => {
     try {
-      const review = await storage.updateReview(parseInt(req.params.id), req.body);
+      const existing = await storage.getReview(parseInt(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ error: "Review not found" });
+      }
+      if (!canActOnReview(req.user, existing)) {
+        return res.status(403).json({ error: "Your role cannot act on this review" });
+      }
+
+      const parsed = updateReviewSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid review update" });
+      }
+
+      const review = await storage.updateReview(parseInt(req.params.id), {
+        ...parsed.data,
+        reviewerId: req.user!.id,
+      });
       if (!review) {
         return res.status(404).json({ error: "Review not found" });
       }
@@ -496,7 +1811,7 @@ export async function registerRoutes(
     try {
       const { message, history } = req.body;
 
-      const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+      const messages: LlmMessage[] = [
         {
           role: "system",
           content: `You are an AI assistant for PM Command Center, a proposal management platform. You help proposal managers and consultants with:
@@ -516,14 +1831,15 @@ Be helpful, professional, and concise. Provide actionable advice specific to pro
         { role: "user", content: message },
       ];
 
-      const completion = await openai.chat.completions.create({
-        model: "gpt-5.2",
+      const completion = await complete({
+        feature: "chat",
+        input: message,
         messages,
-        max_tokens: 1000,
+        maxTokens: 1000,
         temperature: 0.7,
       });
 
-      const response = completion.choices[0]?.message?.content || "I apologize, I couldn't generate a response.";
+      const response = completion || "I apologize, I couldn't generate a response.";
       res.json({ response });
     } catch (error) {
       console.error("Error in AI chat:", error);
@@ -0,0 +1,77 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { extractRequirementsByRules } from "./rule-extractor";
+import { PAGE_BREAK } from "@shared/documents";
+
+const texts = (content: string) => extractRequirementsByRules(content).map(r => r.text);
+
+describe("extractRequirementsByRules", () => {
+  it("finds obligation sentences with exact offsets", () => {
+    const content = "The Contractor shall provide monthly status reports. Reports are reviewed quarterly.";
+    const [requirement, ...rest] = extractRequirementsByRules(content);
+
+    assert.equal(rest.length, 0);
+    assert.equal(requirement.text, "The Contractor shall provide monthly status reports.");
+    assert.equal(content.slice(requirement.highlightStart!, requirement.highlightEnd!), requirement.text);
+    assert.equal(requirement.priority, "high");
+    assert.equal(requirement.matchQuality, "exact");
+    assert.equal(requirement.source, "rules");
+    assert.equal(requirement.crossCheck, null);
+  });
+
+  it("rates will statements low", () => {
+    const [requirement] = extractRequirementsByRules("The vendor will attend a kickoff meeting.");
+    assert.equal(requirement.priority, "low");
+  });
+
+  it("keeps dotted reference numbers inside their sentence", () => {
+    assert.deepEqual(
+      texts("As described in L.4.2 the offeror must include resumes. Key personnel must be named."),
+      ["As described in L.4.2 the offeror must include resumes.", "Key personnel must be named."],
+    );
+  });
+
+  it("files sentences under the heading above them", () => {
+    const content = ["C.3.1 Staffing", "The Contractor shall maintain two full-time engineers."].join("\n");
+    const [requirement] = extractRequirementsByRules(content);
+    assert.equal(requirement.section, "C.3.1 Staffing");
+  });
+
+  it("treats imperatives under submission instructions as requirements", () => {
+    const content = [
+      "SECTION L - INSTRUCTIONS TO OFFERORS",
+      "Include a cover letter signed by an officer of the company.",
+      "",
+      "SECTION C - STATEMENT OF WORK",
+      "Include a cover letter signed by an officer of the company.",
+    ].join("\n");
+    const requirements = extractRequirementsByRules(content);
+
+    assert.equal(requirements.length, 1);
+    assert.equal(requirements[0].section, "SECTION L - INSTRUCTIONS TO OFFERORS");
+  });
+
+  it("skips obligations on the buyer unless they bind the offeror or set a submission rule", () => {
+    assert.deepEqual(
+      texts([
+        "The Government shall evaluate proposals on a best value basis.",
+        "",
+        "The State requires the Contractor to carry liability insurance.",
+        "",
+        "The Agency will not accept proposals submitted after the due date.",
+      ].join("\n")),
+      [
+        "The State requires the Contractor to carry liability insurance.",
+        "The Agency will not accept proposals submitted after the due date.",
+      ],
+    );
+  });
+
+  it("starts a new paragraph at each bullet and ignores page breaks", () => {
+    const content = `- Offerors must be registered in SAM.\n${PAGE_BREAK}- Offerors must hold a state license.`;
+    assert.deepEqual(texts(content), [
+      "- Offerors must be registered in SAM.",
+      "- Offerors must hold a state license.",
+    ]);
+  });
+});
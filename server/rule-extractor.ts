@@ -0,0 +1,148 @@
+import { PAGE_BREAK } from "@shared/documents";
+import type { ExtractedRequirement } from "./analysis";
+
+// Deterministic requirement extraction: obligation statements and submission instructions,
+// labelled with the nearest numbered heading. Offsets are exact by construction.
+
+interface Span {
+  text: string;
+  start: number;
+  end: number;
+}
+
+const OBLIGATION = /\b(shall|must|(?:is|are) required to)\b/i;
+const FUTURE_OBLIGATION = /\bwill\b/i;
+// "The Government shall evaluate..." describes the buyer, not something the offeror has to do
+const BUYER_SUBJECT = /^(the\s+)?(government|agency|department|state|county|city|contracting officer|co|evaluators?|evaluation (committee|panel)|purchaser|owner)\b/i;
+const PARTY = "(?:offerors?|contractors?|vendors?|bidders?|proposers?|respondents?|consultants?)";
+// "The Agency requires the Contractor to..." or "... and the Offeror shall..." put the obligation back on the offeror
+const OFFEROR_OBLIGATION = new RegExp(
+  `\\b${PARTY}\\s+(?:shall|must|(?:is|are) required to)\\b|\\brequires?\\s+(?:the\\s+|each\\s+|all\\s+)?${PARTY}\\s+to\\b`,
+  "i",
+);
+const SUBMISSION = /\b(submit(?:ted|tal)?|submission|page limit|pages? (?:maximum|max)|font(?: size)?|margins?|proposals? (?:are|is) due|due (?:date|by|no later)|electronic cop(?:y|ies)|hard cop(?:y|ies)|volume\s+[ivx\d]+)\b/i;
+// L.4.2, C.3.1, 3.2.1, 4. and "SECTION L" style headings
+const NUMBERED_HEADING = /^((?:[A-Z]\.)?\d+(?:\.\d+)*\.?|[A-Z]\.\d+(?:\.\d+)*)\s+(\S.{0,100})$/;
+const SECTION_HEADING = /^SECTION\s+([A-Z]|\d+)\b.{0,100}$/i;
+// Section L instructions are often bare imperatives: "Include a cover letter."
+const IMPERATIVE = /^(?:[-•*▪◦]\s*|\(?[a-z0-9ivx]{1,4}[.)]\s*)?(include|provide|submit|describe|identify|attach|list|limit|use|label|address|demonstrate|explain|discuss)\b/i;
+const BULLET = /^(?:[-•*▪◦]|\(?[a-z0-9ivx]{1,4}[.)])\s+/i;
+
+function isHeading(line: string): boolean {
+  if (line.length > 110 || OBLIGATION.test(line)) return false;
+  return SECTION_HEADING.test(line) || (NUMBERED_HEADING.test(line) && !/[.;:,]$/.test(line));
+}
+
+// "Section L" and headings numbered L.x hold the proposal preparation instructions
+function isSubmissionHeading(heading: string | null): boolean {
+  return !!heading && (/^SECTION\s+L\b/i.test(heading) || /^L\.\d/.test(heading) || /instructions|submission/i.test(heading));
+}
+
+// Sentence ends are . ! or ? followed by whitespace and a capital, digit, quote or bracket;
+// dotted numbers like L.4.2 and "e.g. the" stay inside their sentence
+function splitSentences(paragraph: Span): Span[] {
+  const sentences: Span[] = [];
+  const text = paragraph.text;
+  let start = 0;
+
+  const push = (end: number) => {
+    const raw = text.slice(start, end);
+    const leading = raw.length - raw.trimStart().length;
+    const trimmed = raw.trim();
+    if (trimmed) {
+      const absolute = paragraph.start + start + leading;
+      sentences.push({ text: trimmed, start: absolute, end: absolute + trimmed.length });
+    }
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    if (!/[.!?]/.test(text[i])) continue;
+    const rest = text.slice(i + 1);
+    const next = rest.match(/^\s+(\S)/);
+    if (!next || !/[A-Z0-9"“(\[]/.test(next[1])) continue;
+    if (/\b(e\.g|i\.e|etc|no|vs|u\.s)$/i.test(text.slice(Math.max(0, i - 4), i))) continue;
+    push(i + 1);
+    start = i + 1;
+  }
+  push(text.length);
+
+  return sentences;
+}
+
+// Walks the document line by line, grouping wrapped lines into paragraphs and tracking headings
+function scanDocument(content: string): { paragraph: Span; heading: string | null }[] {
+  const paragraphs: { paragraph: Span; heading: string | null }[] = [];
+  let heading: string | null = null;
+  let current: Span | null = null;
+
+  const flush = () => {
+    if (current) paragraphs.push({ paragraph: current, heading });
+    current = null;
+  };
+
+  let offset = 0;
+  for (const rawLine of content.split("\n")) {
+    const lineStart = offset;
+    offset += rawLine.length + 1;
+
+    const line = rawLine.replace(new RegExp(PAGE_BREAK, "g"), "").trim();
+    if (!line) {
+      flush();
+      continue;
+    }
+    if (isHeading(line)) {
+      flush();
+      heading = line;
+      continue;
+    }
+
+    const start = lineStart + rawLine.indexOf(line);
+    const end = start + line.length;
+    if (BULLET.test(line)) flush();
+    if (current) {
+      current = { text: content.slice(current.start, end), start: current.start, end };
+    } else {
+      current = { text: line, start, end };
+    }
+  }
+  flush();
+
+  return paragraphs;
+}
+
+function classify(sentence: string, heading: string | null): ExtractedRequirement["priority"] | null {
+  // A buyer's own obligations only count when they bind the offeror or set a submission rule
+  // ("The Government will not accept late proposals")
+  if (BUYER_SUBJECT.test(sentence.replace(BULLET, ""))) {
+    return OFFEROR_OBLIGATION.test(sentence) || SUBMISSION.test(sentence) ? "high" : null;
+  }
+  if (OBLIGATION.test(sentence)) return "high";
+  if (SUBMISSION.test(sentence)) return "high";
+  if (isSubmissionHeading(heading) && IMPERATIVE.test(sentence)) return "high";
+  if (FUTURE_OBLIGATION.test(sentence)) return "low";
+  return null;
+}
+
+export function extractRequirementsByRules(content: string): ExtractedRequirement[] {
+  const requirements: ExtractedRequirement[] = [];
+
+  for (const { paragraph, heading } of scanDocument(content)) {
+    for (const sentence of splitSentences(paragraph)) {
+      const priority = classify(sentence.text, heading);
+      if (!priority) continue;
+      const isInstruction = isSubmissionHeading(heading) || SUBMISSION.test(sentence.text);
+      requirements.push({
+        text: sentence.text,
+        section: heading ?? (isInstruction ? "Submission Instructions" : "General"),
+        priority,
+        highlightStart: sentence.start,
+        highlightEnd: sentence.end,
+        matchQuality: "exact",
+        source: "rules",
+        crossCheck: null,
+      });
+    }
+  }
+
+  return requirements;
+}
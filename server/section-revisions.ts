@@ -0,0 +1,104 @@
+import type { JSONContent } from "@tiptap/core";
+import { generateJSON } from "@tiptap/html/server";
+import { storage } from "./storage";
+import { richTextExtensions } from "@shared/rich-text";
+import type { ResponseSection } from "@shared/schema";
+
+// Content history of response sections. Live editing saves every couple of seconds, so a save by
+// the person who wrote the latest revision, within a few minutes of it being started, replaces its
+// content rather than adding another. Restores always add a revision, and so do saves after one,
+// so the restored content stays in the history as it was.
+
+const REVISION_WINDOW_MS = 10 * 60 * 1000;
+
+const extensions = richTextExtensions();
+
+export async function recordRevision(
+  previous: ResponseSection,
+  saved: ResponseSection,
+  authorId: string | null,
+  restoredFromId?: number,
+): Promise<void> {
+  if (previous.content === saved.content) return;
+
+  const latest = await storage.getLatestSectionRevision(saved.id);
+  // Sections written before revisions were kept, or created with content, get it recorded first
+  if (!latest && previous.content) {
+    await storage.createSectionRevision({
+      sectionId: saved.id,
+      content: previous.content,
+      authorId: null,
+      createdAt: previous.updatedAt,
+      updatedAt: previous.updatedAt,
+    });
+  }
+
+  if (
+    latest && restoredFromId === undefined && latest.restoredFromId === null
+    && latest.authorId !== null && latest.authorId === authorId
+    && saved.updatedAt.getTime() - latest.createdAt.getTime() < REVISION_WINDOW_MS
+  ) {
+    await storage.updateSectionRevision(latest.id, { content: saved.content, updatedAt: saved.updatedAt });
+    return;
+  }
+
+  await storage.createSectionRevision({
+    sectionId: saved.id,
+    content: saved.content,
+    authorId,
+    restoredFromId: restoredFromId ?? null,
+    createdAt: saved.updatedAt,
+    updatedAt: saved.updatedAt,
+  });
+}
+
+function inlineText(node: JSONContent): string {
+  if (node.type === "text") return node.text || "";
+  if (node.type === "hardBreak") return "\n";
+  return (node.content || []).map(inlineText).join("");
+}
+
+function blockLines(node: JSONContent, prefix: string, lines: string[]) {
+  const children = node.content || [];
+  switch (node.type) {
+    case "paragraph":
+    case "heading": {
+      const text = inlineText(node);
+      if (!text.trim()) return;
+      const marker = node.type === "heading" ? `${"#".repeat(node.attrs?.level || 1)} ` : "";
+      text.split("\n").forEach((line, i) => lines.push(prefix + (i === 0 ? marker : "") + line));
+      return;
+    }
+    case "codeBlock":
+      inlineText(node).split("\n").forEach(line => lines.push(prefix + line));
+      return;
+    case "horizontalRule":
+      lines.push(prefix + "---");
+      return;
+    case "blockquote":
+      children.forEach(child => blockLines(child, prefix + "> ", lines));
+      return;
+    case "bulletList":
+    case "orderedList": {
+      const start = node.type === "orderedList" ? node.attrs?.start ?? 1 : 0;
+      children.forEach((item, i) => {
+        const marker = node.type === "orderedList" ? `${start + i}. ` : "• ";
+        // The marker goes on the item's first line and the rest line up under it
+        const itemLines: string[] = [];
+        (item.content || []).forEach(child => blockLines(child, "", itemLines));
+        itemLines.forEach((line, j) => lines.push(prefix + (j === 0 ? marker : " ".repeat(marker.length)) + line));
+      });
+      return;
+    }
+    default:
+      children.forEach(child => blockLines(child, prefix, lines));
+  }
+}
+
+// Section content is HTML; revisions are compared as the text a reader sees, one block per line,
+// with headings, list markers and quotes kept so structural changes show up too
+export function sectionText(content: string): string {
+  const lines: string[] = [];
+  blockLines(generateJSON(content, extensions), "", lines);
+  return lines.join("\n");
+}
@@ -1,6 +1,10 @@
 import { db } from "./db";
 import { users, rfps, templates, responses, responseSections } from "@shared/schema";
 import { sql } from "drizzle-orm";
+import { hashPassword } from "./auth";
+
+// Every sample account shares this password so the team can sign in locally
+const SEED_PASSWORD = process.env.SEED_USER_PASSWORD || "changeme";
 
 async function seed() {
   console.log("Seeding database...");
@@ -8,10 +12,11 @@ async function seed() {
   // Create sample users
   const existingUsers = await db.select().from(users);
   if (existingUsers.length === 0) {
+    const password = await hashPassword(SEED_PASSWORD);
     const sampleUsers = [
       {
         username: "jdoe",
-        password: "hashed_password",
+        password,
         email: "jane.doe@company.com",
         fullName: "Jane Doe",
         role: "pm",
@@ -20,7 +25,7 @@ async function seed() {
       },
       {
         username: "ssmith",
-        password: "hashed_password",
+        password,
         email: "sarah.smith@company.com",
         fullName: "Sarah Smith",
         role: "consultant",
@@ -29,7 +34,7 @@ async function seed() {
       },
       {
         username: "mjohnson",
-        password: "hashed_password",
+        password,
         email: "mike.johnson@company.com",
         fullName: "Mike Johnson",
         role: "consultant",
@@ -38,7 +43,7 @@ async function seed() {
       },
       {
         username: "ewilliams",
-        password: "hashed_password",
+        password,
         email: "emma.williams@company.com",
         fullName: "Emma Williams",
         role: "consultant",
@@ -47,7 +52,7 @@ async function seed() {
       },
       {
         username: "dthompson",
-        password: "hashed_password",
+        password,
         email: "david.thompson@company.com",
         fullName: "David Thompson",
         role: "copy_editor",
@@ -56,7 +61,7 @@ async function seed() {
       },
       {
         username: "rbrown",
-        password: "hashed_password",
+        password,
         email: "rachel.brown@company.com",
         fullName: "Rachel Brown",
         role: "managing_director",
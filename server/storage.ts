@@ -1,26 +1,79 @@
 import { db } from "./db";
-import { eq, desc, and, ilike, or, sql } from "drizzle-orm";
+import { eq, desc, and, ilike, or, sql, inArray, isNull, isNotNull } from "drizzle-orm";
 import { 
   users, rfps, requirements, templates, responses, responseSections, 
-  budgetItems, insights, reviews,
+  budgetItems, insights, reviews, analysisJobs, rfpDeadlines, evaluationCriteria, sectionCriteria,
+  requirementSections, rfpQuestions, rfpDocumentVersions, rfpAttachments, sectionRevisions,
   type User, type InsertUser,
   type Rfp, type InsertRfp,
-  type Requirement, type InsertRequirement,
+  type RfpDocumentVersion, type InsertRfpDocumentVersion, type RfpDocumentVersionSummary,
+  type RfpAttachment, type InsertRfpAttachment, type RfpAttachmentSummary,
+  type Requirement, type InsertRequirement, type RequirementSection,
   type Template, type InsertTemplate,
   type Response, type InsertResponse,
   type ResponseSection, type InsertResponseSection,
+  type SectionRevision, type InsertSectionRevision, type SectionRevisionSummary,
   type BudgetItem, type InsertBudgetItem,
   type Insight, type InsertInsight,
   type Review, type InsertReview,
+  type AnalysisJob, type InsertAnalysisJob,
+  type RfpDeadline, type InsertRfpDeadline,
+  type RfpQuestion, type InsertRfpQuestion, type RequirementAction,
+  type EvaluationCriterion, type InsertEvaluationCriterion, type SectionCriterion,
 } from "@shared/schema";
 import { randomUUID } from "crypto";
 
+export interface UserAssignments {
+  sections: (ResponseSection & { rfpId?: number; rfpTitle?: string })[];
+  budgetItems: (BudgetItem & { rfpTitle?: string })[];
+}
+
+export interface RequirementChanges {
+  create: InsertRequirement[];
+  update: { id: number; changes: Partial<InsertRequirement> }[];
+  retire: number[];
+}
+
+export interface SectionUpdate {
+  id: number;
+  changes: Partial<InsertResponseSection>;
+  expectedVersion?: number;
+}
+
+type DocumentVersionFields = Omit<InsertRfpDocumentVersion, "rfpId" | "version">;
+
+type CriterionFields = Omit<InsertEvaluationCriterion, "rfpId" | "parentId">;
+
+// Extracted criteria in document order; a null id inserts a row, null fields leave a PM-edited row as it is
+export interface CriteriaChanges {
+  factors: {
+    id: number | null;
+    fields: CriterionFields | null;
+    subfactors: { id: number | null; fields: CriterionFields }[];
+  }[];
+  remove: number[];
+}
+
+// One agency answer to record. Without a questionId the question was asked by someone else and
+// is logged from the published Q&A.
+export interface QuestionAnswer {
+  questionId: number | null;
+  question?: string | null;
+  answer: string;
+  requirementId?: number | null;
+  action: RequirementAction;
+  amendedText?: string | null;
+}
+
 export interface IStorage {
   // Users
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   getAllUsers(): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: string, user: Partial<InsertUser>): Promise<User | undefined>;
+  getUserAssignments(userId: string): Promise<UserAssignments>;
+  reassignUserWork(fromUserId: string, toUserId: string | null): Promise<{ sections: number; budgetItems: number }>;
 
   // RFPs
   getRfp(id: number): Promise<Rfp | undefined>;
@@ -30,11 +83,63 @@ export interface IStorage {
   updateRfp(id: number, rfp: Partial<InsertRfp>): Promise<Rfp | undefined>;
   deleteRfp(id: number): Promise<void>;
 
+  // Document versions
+  getDocumentVersions(rfpId: number): Promise<RfpDocumentVersionSummary[]>;
+  getDocumentVersion(rfpId: number, version: number): Promise<RfpDocumentVersion | undefined>;
+  addDocumentVersion(rfpId: number, document: DocumentVersionFields): Promise<RfpDocumentVersion>;
+
+  // Attachments
+  getAttachment(id: number): Promise<RfpAttachment | undefined>;
+  getAttachmentsByRfp(rfpId: number): Promise<RfpAttachment[]>;
+  getAttachmentSummaries(rfpId: number): Promise<RfpAttachmentSummary[]>;
+  createAttachment(attachment: InsertRfpAttachment): Promise<RfpAttachment>;
+  updateAttachment(id: number, attachment: Partial<InsertRfpAttachment>): Promise<RfpAttachment | undefined>;
+  deleteAttachment(id: number): Promise<void>;
+
   // Requirements
+  getRequirement(id: number): Promise<Requirement | undefined>;
   getRequirementsByRfp(rfpId: number): Promise<Requirement[]>;
+  getRetiredRequirementsByRfp(rfpId: number): Promise<Requirement[]>;
   createRequirement(req: InsertRequirement): Promise<Requirement>;
   updateRequirement(id: number, req: Partial<InsertRequirement>): Promise<Requirement | undefined>;
   deleteRequirementsByRfp(rfpId: number): Promise<void>;
+  applyRequirementChanges(changes: RequirementChanges): Promise<void>;
+  deleteRequirement(id: number): Promise<void>;
+  updateRequirementOutline(updates: { id: number; referenceNumber: string | null; parentId: number | null }[]): Promise<void>;
+  applyRequirementDocumentUpdates(updates: { id: number; changes: Partial<InsertRequirement> }[]): Promise<void>;
+  splitRequirement(id: number, parts: InsertRequirement[]): Promise<Requirement[]>;
+  mergeRequirements(keepId: number, changes: Partial<InsertRequirement>, removeIds: number[]): Promise<Requirement | undefined>;
+  getRequirementSections(requirementIds: number[]): Promise<RequirementSection[]>;
+  setRequirementSections(requirementId: number, sectionIds: number[]): Promise<RequirementSection[]>;
+  markRequirementsAddressed(links: { requirementId: number; sectionId: number }[]): Promise<void>;
+
+  // Deadlines
+  getDeadline(id: number): Promise<RfpDeadline | undefined>;
+  getDeadlinesByRfp(rfpId: number): Promise<RfpDeadline[]>;
+  getDeadlinesByRfps(rfpIds: number[]): Promise<RfpDeadline[]>;
+  createDeadline(deadline: InsertRfpDeadline): Promise<RfpDeadline>;
+  updateDeadline(id: number, deadline: Partial<InsertRfpDeadline>): Promise<RfpDeadline | undefined>;
+  deleteDeadline(id: number): Promise<void>;
+  replaceExtractedDeadlines(rfpId: number, deadlines: InsertRfpDeadline[]): Promise<RfpDeadline[]>;
+
+  // Questions
+  getQuestion(id: number): Promise<RfpQuestion | undefined>;
+  getQuestionsByRfp(rfpId: number): Promise<RfpQuestion[]>;
+  createQuestion(question: Omit<InsertRfpQuestion, "number">): Promise<RfpQuestion>;
+  updateQuestion(id: number, question: Partial<InsertRfpQuestion>): Promise<RfpQuestion | undefined>;
+  deleteQuestion(id: number): Promise<void>;
+  markQuestionsSubmitted(rfpId: number, questionIds: number[]): Promise<RfpQuestion[]>;
+  applyQuestionAnswers(rfpId: number, answers: QuestionAnswer[], userId: string | null): Promise<RfpQuestion[]>;
+
+  // Evaluation Criteria
+  getEvaluationCriterion(id: number): Promise<EvaluationCriterion | undefined>;
+  getEvaluationCriteriaByRfp(rfpId: number): Promise<EvaluationCriterion[]>;
+  createEvaluationCriterion(criterion: InsertEvaluationCriterion): Promise<EvaluationCriterion>;
+  updateEvaluationCriterion(id: number, criterion: Partial<InsertEvaluationCriterion>): Promise<EvaluationCriterion | undefined>;
+  deleteEvaluationCriterion(id: number): Promise<void>;
+  applyCriteriaChanges(rfpId: number, changes: CriteriaChanges): Promise<void>;
+  getSectionCriteria(criterionIds: number[]): Promise<SectionCriterion[]>;
+  setCriterionSections(criterionId: number, sectionIds: number[]): Promise<SectionCriterion[]>;
 
   // Templates
   getTemplate(id: number): Promise<Template | undefined>;
@@ -52,9 +157,24 @@ export interface IStorage {
   getResponseSection(id: number): Promise<ResponseSection | undefined>;
   getSectionsByResponse(responseId: number): Promise<ResponseSection[]>;
   createResponseSection(section: InsertResponseSection): Promise<ResponseSection>;
-  updateResponseSection(id: number, section: Partial<InsertResponseSection>): Promise<ResponseSection | undefined>;
+  createOutlineSections(
+    sections: { section: InsertResponseSection; requirementIds: number[] }[],
+    links: { requirementId: number; sectionId: number }[],
+  ): Promise<ResponseSection[]>;
+  // With expectedVersion, nothing is written (and undefined returned) if the section has moved past it
+  updateResponseSection(id: number, section: Partial<InsertResponseSection>, expectedVersion?: number): Promise<ResponseSection | undefined>;
+  // All or nothing: when any section is missing or has moved past its expectedVersion, nothing is
+  // written and their ids come back as conflicts
+  updateResponseSections(updates: SectionUpdate[]): Promise<{ sections: ResponseSection[]; conflicts: number[] }>;
   deleteResponseSection(id: number): Promise<void>;
 
+  // Section revisions
+  getSectionRevisions(sectionId: number): Promise<SectionRevisionSummary[]>;
+  getSectionRevision(id: number): Promise<SectionRevision | undefined>;
+  getLatestSectionRevision(sectionId: number): Promise<SectionRevision | undefined>;
+  createSectionRevision(revision: InsertSectionRevision): Promise<SectionRevision>;
+  updateSectionRevision(id: number, revision: Partial<InsertSectionRevision>): Promise<SectionRevision | undefined>;
+
   // Budget Items
   getBudgetItemsByRfp(rfpId: number): Promise<BudgetItem[]>;
   saveBudgetItems(rfpId: number, items: { userId: string; year: number; hours: number }[]): Promise<BudgetItem[]>;
@@ -71,6 +191,14 @@ export interface IStorage {
   createReview(review: InsertReview): Promise<Review>;
   updateReview(id: number, review: Partial<InsertReview>): Promise<Review | undefined>;
 
+  // Analysis Jobs
+  getAnalysisJob(id: number): Promise<AnalysisJob | undefined>;
+  getLatestAnalysisJob(rfpId: number): Promise<AnalysisJob | undefined>;
+  getUnfinishedAnalysisJobs(): Promise<AnalysisJob[]>;
+  // Returns the RFP's queued or running job instead when it has one
+  queueAnalysisJob(job: InsertAnalysisJob): Promise<{ job: AnalysisJob; created: boolean }>;
+  updateAnalysisJob(id: number, job: Partial<InsertAnalysisJob>): Promise<AnalysisJob | undefined>;
+
   // Tasks
   getAllTasks(): Promise<any[]>;
 }
@@ -96,6 +224,61 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async updateUser(id: string, updateData: Partial<InsertUser>): Promise<User | undefined> {
+    const [user] = await db.update(users).set(updateData).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  async getUserAssignments(userId: string): Promise<UserAssignments> {
+    const assignedSections = await db.select().from(responseSections).where(eq(responseSections.assignedUserId, userId));
+    const sections = await Promise.all(assignedSections.map(async (section) => {
+      const [response] = await db.select().from(responses).where(eq(responses.id, section.responseId));
+      const rfp = response ? await this.getRfp(response.rfpId) : undefined;
+      return { ...section, rfpId: rfp?.id, rfpTitle: rfp?.title };
+    }));
+
+    const userBudgetItems = await db.select().from(budgetItems).where(eq(budgetItems.userId, userId));
+    const budget = await Promise.all(userBudgetItems.map(async (item) => {
+      const rfp = await this.getRfp(item.rfpId);
+      return { ...item, rfpTitle: rfp?.title };
+    }));
+
+    return { sections, budgetItems: budget };
+  }
+
+  // Moves section assignments and budget hours to another user. Budget rows need an owner,
+  // so without a target they stay put; rows colliding with the target's rows are merged.
+  async reassignUserWork(fromUserId: string, toUserId: string | null): Promise<{ sections: number; budgetItems: number }> {
+    return db.transaction(async (tx) => {
+      const movedSections = await tx.update(responseSections)
+        .set({ assignedUserId: toUserId, updatedAt: new Date() })
+        .where(eq(responseSections.assignedUserId, fromUserId))
+        .returning();
+
+      let movedBudgetItems = 0;
+      if (toUserId) {
+        const fromItems = await tx.select().from(budgetItems).where(eq(budgetItems.userId, fromUserId));
+        for (const item of fromItems) {
+          const [existing] = await tx.select().from(budgetItems).where(and(
+            eq(budgetItems.rfpId, item.rfpId),
+            eq(budgetItems.userId, toUserId),
+            eq(budgetItems.year, item.year),
+          ));
+          if (existing) {
+            const hours = parseFloat(existing.hours) + parseFloat(item.hours);
+            await tx.update(budgetItems).set({ hours: hours.toString(), updatedAt: new Date() }).where(eq(budgetItems.id, existing.id));
+            await tx.delete(budgetItems).where(eq(budgetItems.id, item.id));
+          } else {
+            await tx.update(budgetItems).set({ userId: toUserId, updatedAt: new Date() }).where(eq(budgetItems.id, item.id));
+          }
+          movedBudgetItems++;
+        }
+      }
+
+      return { sections: movedSections.length, budgetItems: movedBudgetItems };
+    });
+  }
+
   // RFPs
   async getRfp(id: number): Promise<Rfp | undefined> {
     const [rfp] = await db.select().from(rfps).where(eq(rfps.id, id));
@@ -170,9 +353,124 @@ export class DatabaseStorage implements IStorage {
     await db.delete(rfps).where(eq(rfps.id, id));
   }
 
+  // Document versions
+  async getDocumentVersions(rfpId: number): Promise<RfpDocumentVersionSummary[]> {
+    return db.select({
+      id: rfpDocumentVersions.id,
+      rfpId: rfpDocumentVersions.rfpId,
+      version: rfpDocumentVersions.version,
+      label: rfpDocumentVersions.label,
+      documentName: rfpDocumentVersions.documentName,
+      documentPath: rfpDocumentVersions.documentPath,
+      documentMimeType: rfpDocumentVersions.documentMimeType,
+      uploadedById: rfpDocumentVersions.uploadedById,
+      createdAt: rfpDocumentVersions.createdAt,
+    }).from(rfpDocumentVersions)
+      .where(eq(rfpDocumentVersions.rfpId, rfpId))
+      .orderBy(rfpDocumentVersions.version);
+  }
+
+  async getDocumentVersion(rfpId: number, version: number): Promise<RfpDocumentVersion | undefined> {
+    const [row] = await db.select().from(rfpDocumentVersions)
+      .where(and(eq(rfpDocumentVersions.rfpId, rfpId), eq(rfpDocumentVersions.version, version)));
+    return row;
+  }
+
+  // Adds the next version and makes it the RFP's current document. RFPs whose text was pasted
+  // or uploaded before versions were kept get that text recorded as version 1 first.
+  async addDocumentVersion(rfpId: number, document: DocumentVersionFields): Promise<RfpDocumentVersion> {
+    return db.transaction(async (tx) => {
+      const [rfp] = await tx.select().from(rfps).where(eq(rfps.id, rfpId));
+      const [{ max }] = await tx.select({ max: sql<number>`coalesce(max(${rfpDocumentVersions.version}), 0)` })
+        .from(rfpDocumentVersions).where(eq(rfpDocumentVersions.rfpId, rfpId));
+      let version = Number(max);
+      if (version === 0 && rfp?.documentContent) {
+        await tx.insert(rfpDocumentVersions).values({
+          rfpId,
+          version: 1,
+          documentContent: rfp.documentContent,
+          documentName: rfp.documentName,
+          documentPath: rfp.documentPath,
+          documentMimeType: rfp.documentMimeType,
+          createdAt: rfp.createdAt,
+        });
+        version = 1;
+      }
+
+      const [created] = await tx.insert(rfpDocumentVersions)
+        .values({ ...document, rfpId, version: version + 1 })
+        .returning();
+      await tx.update(rfps).set({
+        documentContent: created.documentContent,
+        documentName: created.documentName,
+        documentPath: created.documentPath,
+        documentMimeType: created.documentMimeType,
+        documentUrl: `/api/rfps/${rfpId}/document`,
+        updatedAt: new Date(),
+      }).where(eq(rfps.id, rfpId));
+      return created;
+    });
+  }
+
+  // Attachments
+  async getAttachment(id: number): Promise<RfpAttachment | undefined> {
+    const [attachment] = await db.select().from(rfpAttachments).where(eq(rfpAttachments.id, id));
+    return attachment;
+  }
+
+  async getAttachmentsByRfp(rfpId: number): Promise<RfpAttachment[]> {
+    return db.select().from(rfpAttachments).where(eq(rfpAttachments.rfpId, rfpId)).orderBy(rfpAttachments.id);
+  }
+
+  async getAttachmentSummaries(rfpId: number): Promise<RfpAttachmentSummary[]> {
+    return db.select({
+      id: rfpAttachments.id,
+      rfpId: rfpAttachments.rfpId,
+      role: rfpAttachments.role,
+      documentName: rfpAttachments.documentName,
+      documentPath: rfpAttachments.documentPath,
+      documentMimeType: rfpAttachments.documentMimeType,
+      format: rfpAttachments.format,
+      pageCount: rfpAttachments.pageCount,
+      uploadedById: rfpAttachments.uploadedById,
+      createdAt: rfpAttachments.createdAt,
+    }).from(rfpAttachments)
+      .where(eq(rfpAttachments.rfpId, rfpId))
+      .orderBy(rfpAttachments.id);
+  }
+
+  async createAttachment(insertAttachment: InsertRfpAttachment): Promise<RfpAttachment> {
+    const [attachment] = await db.insert(rfpAttachments).values(insertAttachment).returning();
+    return attachment;
+  }
+
+  async updateAttachment(id: number, updateData: Partial<InsertRfpAttachment>): Promise<RfpAttachment | undefined> {
+    const [attachment] = await db.update(rfpAttachments).set(updateData).where(eq(rfpAttachments.id, id)).returning();
+    return attachment;
+  }
+
+  // Requirements found in the attachment go with it
+  async deleteAttachment(id: number): Promise<void> {
+    await db.delete(rfpAttachments).where(eq(rfpAttachments.id, id));
+  }
+
   // Requirements
+  async getRequirement(id: number): Promise<Requirement | undefined> {
+    const [req] = await db.select().from(requirements).where(eq(requirements.id, id));
+    return req;
+  }
+
+  // Active requirements only; retired ones are kept for history but hidden from the workflow
   async getRequirementsByRfp(rfpId: number): Promise<Requirement[]> {
-    return db.select().from(requirements).where(eq(requirements.rfpId, rfpId)).orderBy(requirements.id);
+    return db.select().from(requirements)
+      .where(and(eq(requirements.rfpId, rfpId), isNull(requirements.retiredAt)))
+      .orderBy(requirements.id);
+  }
+
+  async getRetiredRequirementsByRfp(rfpId: number): Promise<Requirement[]> {
+    return db.select().from(requirements)
+      .where(and(eq(requirements.rfpId, rfpId), isNotNull(requirements.retiredAt)))
+      .orderBy(requirements.id);
   }
 
   async createRequirement(insertReq: InsertRequirement): Promise<Requirement> {
@@ -189,6 +487,285 @@ export class DatabaseStorage implements IStorage {
     await db.delete(requirements).where(eq(requirements.rfpId, rfpId));
   }
 
+  async applyRequirementChanges({ create, update, retire }: RequirementChanges): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (const { id, changes } of update) {
+        await tx.update(requirements).set(changes).where(eq(requirements.id, id));
+      }
+      if (retire.length > 0) {
+        await tx.update(requirements).set({ retiredAt: new Date() }).where(inArray(requirements.id, retire));
+      }
+      if (create.length > 0) {
+        await tx.insert(requirements).values(create);
+      }
+    });
+  }
+
+  async deleteRequirement(id: number): Promise<void> {
+    await db.delete(requirements).where(eq(requirements.id, id));
+  }
+
+  async updateRequirementOutline(updates: { id: number; referenceNumber: string | null; parentId: number | null }[]): Promise<void> {
+    if (updates.length === 0) return;
+    await db.transaction(async (tx) => {
+      for (const { id, referenceNumber, parentId } of updates) {
+        await tx.update(requirements).set({ referenceNumber, parentId }).where(eq(requirements.id, id));
+      }
+    });
+  }
+
+  async applyRequirementDocumentUpdates(updates: { id: number; changes: Partial<InsertRequirement> }[]): Promise<void> {
+    if (updates.length === 0) return;
+    await db.transaction(async (tx) => {
+      for (const { id, changes } of updates) {
+        await tx.update(requirements).set(changes).where(eq(requirements.id, id));
+      }
+    });
+  }
+
+  // The parts replace the original and inherit its section links
+  async splitRequirement(id: number, parts: InsertRequirement[]): Promise<Requirement[]> {
+    return db.transaction(async (tx) => {
+      const links = await tx.select().from(requirementSections).where(eq(requirementSections.requirementId, id));
+      const created = await tx.insert(requirements).values(parts).returning();
+      if (links.length > 0) {
+        await tx.insert(requirementSections).values(
+          created.flatMap(req => links.map(link => ({ requirementId: req.id, sectionId: link.sectionId }))),
+        );
+      }
+      await tx.delete(requirements).where(eq(requirements.id, id));
+      return created;
+    });
+  }
+
+  // The kept requirement takes over the others' section links before they are deleted
+  async mergeRequirements(keepId: number, changes: Partial<InsertRequirement>, removeIds: number[]): Promise<Requirement | undefined> {
+    return db.transaction(async (tx) => {
+      const [kept] = await tx.update(requirements).set(changes).where(eq(requirements.id, keepId)).returning();
+      if (!kept || removeIds.length === 0) return kept;
+      const links = await tx.select().from(requirementSections)
+        .where(inArray(requirementSections.requirementId, [keepId, ...removeIds]));
+      const sectionIds = Array.from(new Set(links.map(l => l.sectionId)));
+      await tx.delete(requirementSections).where(eq(requirementSections.requirementId, keepId));
+      if (sectionIds.length > 0) {
+        await tx.insert(requirementSections).values(sectionIds.map(sectionId => ({ requirementId: keepId, sectionId })));
+      }
+      await tx.delete(requirements).where(inArray(requirements.id, removeIds));
+      return kept;
+    });
+  }
+
+  async getRequirementSections(requirementIds: number[]): Promise<RequirementSection[]> {
+    if (requirementIds.length === 0) return [];
+    return db.select().from(requirementSections).where(inArray(requirementSections.requirementId, requirementIds));
+  }
+
+  async setRequirementSections(requirementId: number, sectionIds: number[]): Promise<RequirementSection[]> {
+    return db.transaction(async (tx) => {
+      await tx.delete(requirementSections).where(eq(requirementSections.requirementId, requirementId));
+      if (sectionIds.length === 0) return [];
+      return tx.insert(requirementSections).values(sectionIds.map(sectionId => ({ requirementId, sectionId }))).returning();
+    });
+  }
+
+  // Applies accepted coverage findings: each requirement becomes addressed and gains a link to its section
+  async markRequirementsAddressed(links: { requirementId: number; sectionId: number }[]): Promise<void> {
+    if (links.length === 0) return;
+    await db.transaction(async (tx) => {
+      await tx.update(requirements)
+        .set({ status: "addressed" })
+        .where(inArray(requirements.id, links.map(l => l.requirementId)));
+      const existing = await tx.select().from(requirementSections)
+        .where(inArray(requirementSections.requirementId, links.map(l => l.requirementId)));
+      const missing = links.filter(link =>
+        !existing.some(e => e.requirementId === link.requirementId && e.sectionId === link.sectionId));
+      if (missing.length > 0) {
+        await tx.insert(requirementSections).values(missing);
+      }
+    });
+  }
+
+  // Deadlines
+  async getDeadline(id: number): Promise<RfpDeadline | undefined> {
+    const [deadline] = await db.select().from(rfpDeadlines).where(eq(rfpDeadlines.id, id));
+    return deadline;
+  }
+
+  async getDeadlinesByRfp(rfpId: number): Promise<RfpDeadline[]> {
+    return db.select().from(rfpDeadlines).where(eq(rfpDeadlines.rfpId, rfpId)).orderBy(rfpDeadlines.dueAt);
+  }
+
+  async getDeadlinesByRfps(rfpIds: number[]): Promise<RfpDeadline[]> {
+    if (rfpIds.length === 0) return [];
+    return db.select().from(rfpDeadlines).where(inArray(rfpDeadlines.rfpId, rfpIds)).orderBy(rfpDeadlines.dueAt);
+  }
+
+  async createDeadline(insertDeadline: InsertRfpDeadline): Promise<RfpDeadline> {
+    const [deadline] = await db.insert(rfpDeadlines).values(insertDeadline).returning();
+    return deadline;
+  }
+
+  async updateDeadline(id: number, updateData: Partial<InsertRfpDeadline>): Promise<RfpDeadline | undefined> {
+    const [deadline] = await db.update(rfpDeadlines).set({ ...updateData, updatedAt: new Date() }).where(eq(rfpDeadlines.id, id)).returning();
+    return deadline;
+  }
+
+  async deleteDeadline(id: number): Promise<void> {
+    await db.delete(rfpDeadlines).where(eq(rfpDeadlines.id, id));
+  }
+
+  async replaceExtractedDeadlines(rfpId: number, deadlines: InsertRfpDeadline[]): Promise<RfpDeadline[]> {
+    return db.transaction(async (tx) => {
+      await tx.delete(rfpDeadlines).where(and(eq(rfpDeadlines.rfpId, rfpId), eq(rfpDeadlines.source, "extracted")));
+      if (deadlines.length === 0) return [];
+      return tx.insert(rfpDeadlines).values(deadlines).returning();
+    });
+  }
+
+  // Questions
+  async getQuestion(id: number): Promise<RfpQuestion | undefined> {
+    const [question] = await db.select().from(rfpQuestions).where(eq(rfpQuestions.id, id));
+    return question;
+  }
+
+  async getQuestionsByRfp(rfpId: number): Promise<RfpQuestion[]> {
+    return db.select().from(rfpQuestions).where(eq(rfpQuestions.rfpId, rfpId)).orderBy(rfpQuestions.number);
+  }
+
+  // Numbers run 1, 2, 3... per RFP and are never reused, so an exported "#" keeps pointing at one question
+  async createQuestion(insertQuestion: Omit<InsertRfpQuestion, "number">): Promise<RfpQuestion> {
+    return db.transaction(async (tx) => {
+      const [{ max }] = await tx.select({ max: sql<number>`coalesce(max(${rfpQuestions.number}), 0)` })
+        .from(rfpQuestions).where(eq(rfpQuestions.rfpId, insertQuestion.rfpId));
+      const [question] = await tx.insert(rfpQuestions).values({ ...insertQuestion, number: Number(max) + 1 }).returning();
+      return question;
+    });
+  }
+
+  async updateQuestion(id: number, updateData: Partial<InsertRfpQuestion>): Promise<RfpQuestion | undefined> {
+    const [question] = await db.update(rfpQuestions).set(updateData).where(eq(rfpQuestions.id, id)).returning();
+    return question;
+  }
+
+  async deleteQuestion(id: number): Promise<void> {
+    await db.delete(rfpQuestions).where(eq(rfpQuestions.id, id));
+  }
+
+  async markQuestionsSubmitted(rfpId: number, questionIds: number[]): Promise<RfpQuestion[]> {
+    if (questionIds.length === 0) return [];
+    return db.update(rfpQuestions)
+      .set({ status: "submitted", submittedAt: new Date() })
+      .where(and(eq(rfpQuestions.rfpId, rfpId), eq(rfpQuestions.status, "pending"), inArray(rfpQuestions.id, questionIds)))
+      .returning();
+  }
+
+  // Records each answer and what it does to its requirement: a flag for someone to review, or
+  // new wording, which makes the requirement manual so re-analysis keeps the amendment
+  async applyQuestionAnswers(rfpId: number, answers: QuestionAnswer[], userId: string | null): Promise<RfpQuestion[]> {
+    return db.transaction(async (tx) => {
+      const [{ max }] = await tx.select({ max: sql<number>`coalesce(max(${rfpQuestions.number}), 0)` })
+        .from(rfpQuestions).where(eq(rfpQuestions.rfpId, rfpId));
+      let nextNumber = Number(max) + 1;
+      const saved: RfpQuestion[] = [];
+
+      for (const entry of answers) {
+        // An amendment without new wording can only be flagged
+        const action = entry.action === "amend" && !entry.amendedText ? "flag" : entry.action;
+        const requirementAction = entry.requirementId && action !== "none"
+          ? (action === "amend" ? "amended" : "flagged")
+          : null;
+        const fields = { answer: entry.answer, status: "answered", answeredAt: new Date(), requirementAction };
+        const [question] = entry.questionId !== null
+          ? await tx.update(rfpQuestions)
+              .set({ ...fields, ...(entry.requirementId !== undefined ? { requirementId: entry.requirementId } : {}) })
+              .where(and(eq(rfpQuestions.id, entry.questionId), eq(rfpQuestions.rfpId, rfpId)))
+              .returning()
+          : await tx.insert(rfpQuestions).values({
+              ...fields,
+              rfpId,
+              number: nextNumber++,
+              question: entry.question || "(Question not given)",
+              requirementId: entry.requirementId ?? null,
+              source: "agency",
+              createdById: userId,
+            }).returning();
+        if (!question) continue;
+        saved.push(question);
+
+        if (!entry.requirementId || action === "none") continue;
+        const requirementChanges: Partial<InsertRequirement> = action === "amend"
+          ? { text: entry.amendedText!, source: "manual", flaggedByQuestionId: null }
+          : { flaggedByQuestionId: question.id };
+        await tx.update(requirements).set(requirementChanges)
+          .where(and(eq(requirements.id, entry.requirementId), eq(requirements.rfpId, rfpId)));
+      }
+      return saved;
+    });
+  }
+
+  // Evaluation Criteria
+  async getEvaluationCriterion(id: number): Promise<EvaluationCriterion | undefined> {
+    const [criterion] = await db.select().from(evaluationCriteria).where(eq(evaluationCriteria.id, id));
+    return criterion;
+  }
+
+  async getEvaluationCriteriaByRfp(rfpId: number): Promise<EvaluationCriterion[]> {
+    return db.select().from(evaluationCriteria)
+      .where(eq(evaluationCriteria.rfpId, rfpId))
+      .orderBy(evaluationCriteria.orderIndex, evaluationCriteria.id);
+  }
+
+  async createEvaluationCriterion(insertCriterion: InsertEvaluationCriterion): Promise<EvaluationCriterion> {
+    const [criterion] = await db.insert(evaluationCriteria).values(insertCriterion).returning();
+    return criterion;
+  }
+
+  async updateEvaluationCriterion(id: number, updateData: Partial<InsertEvaluationCriterion>): Promise<EvaluationCriterion | undefined> {
+    const [criterion] = await db.update(evaluationCriteria).set(updateData).where(eq(evaluationCriteria.id, id)).returning();
+    return criterion;
+  }
+
+  async deleteEvaluationCriterion(id: number): Promise<void> {
+    await db.delete(evaluationCriteria).where(eq(evaluationCriteria.id, id));
+  }
+
+  async applyCriteriaChanges(rfpId: number, { factors, remove }: CriteriaChanges): Promise<void> {
+    await db.transaction(async (tx) => {
+      if (remove.length > 0) {
+        await tx.delete(evaluationCriteria).where(inArray(evaluationCriteria.id, remove));
+      }
+      for (const factor of factors) {
+        let factorId = factor.id;
+        if (factorId === null) {
+          const [created] = await tx.insert(evaluationCriteria).values({ ...factor.fields!, rfpId, parentId: null }).returning();
+          factorId = created.id;
+        } else if (factor.fields) {
+          await tx.update(evaluationCriteria).set({ ...factor.fields, parentId: null }).where(eq(evaluationCriteria.id, factorId));
+        }
+        for (const subfactor of factor.subfactors) {
+          if (subfactor.id === null) {
+            await tx.insert(evaluationCriteria).values({ ...subfactor.fields, rfpId, parentId: factorId });
+          } else {
+            await tx.update(evaluationCriteria).set({ ...subfactor.fields, parentId: factorId }).where(eq(evaluationCriteria.id, subfactor.id));
+          }
+        }
+      }
+    });
+  }
+
+  async getSectionCriteria(criterionIds: number[]): Promise<SectionCriterion[]> {
+    if (criterionIds.length === 0) return [];
+    return db.select().from(sectionCriteria).where(inArray(sectionCriteria.criterionId, criterionIds));
+  }
+
+  async setCriterionSections(criterionId: number, sectionIds: number[]): Promise<SectionCriterion[]> {
+    return db.transaction(async (tx) => {
+      await tx.delete(sectionCriteria).where(eq(sectionCriteria.criterionId, criterionId));
+      if (sectionIds.length === 0) return [];
+      return tx.insert(sectionCriteria).values(sectionIds.map(sectionId => ({ sectionId, criterionId }))).returning();
+    });
+  }
+
   // Templates
   async getTemplate(id: number): Promise<Template | undefined> {
     const [template] = await db.select().from(templates).where(eq(templates.id, id));
@@ -246,15 +823,110 @@ export class DatabaseStorage implements IStorage {
     return section;
   }
 
-  async updateResponseSection(id: number, updateData: Partial<InsertResponseSection>): Promise<ResponseSection | undefined> {
-    const [section] = await db.update(responseSections).set({ ...updateData, updatedAt: new Date() }).where(eq(responseSections.id, id)).returning();
+  // Creates the sections of an applied outline and links each to its requirements, along with any
+  // extra links to sections that already existed. Links a requirement already has are kept.
+  async createOutlineSections(
+    sections: { section: InsertResponseSection; requirementIds: number[] }[],
+    links: { requirementId: number; sectionId: number }[],
+  ): Promise<ResponseSection[]> {
+    return db.transaction(async (tx) => {
+      const created: ResponseSection[] = [];
+      const wanted = [...links];
+      for (const { section, requirementIds } of sections) {
+        const [row] = await tx.insert(responseSections).values(section).returning();
+        created.push(row);
+        requirementIds.forEach(requirementId => wanted.push({ requirementId, sectionId: row.id }));
+      }
+      if (wanted.length > 0) {
+        const existing = await tx.select().from(requirementSections)
+          .where(inArray(requirementSections.requirementId, wanted.map(l => l.requirementId)));
+        const missing = wanted.filter((link, i) =>
+          !existing.some(e => e.requirementId === link.requirementId && e.sectionId === link.sectionId)
+          && wanted.findIndex(w => w.requirementId === link.requirementId && w.sectionId === link.sectionId) === i);
+        if (missing.length > 0) {
+          await tx.insert(requirementSections).values(missing);
+        }
+      }
+      return created;
+    });
+  }
+
+  async updateResponseSection(id: number, updateData: Partial<InsertResponseSection>, expectedVersion?: number): Promise<ResponseSection | undefined> {
+    const [section] = await db.update(responseSections)
+      .set({ ...updateData, version: sql`${responseSections.version} + 1`, updatedAt: new Date() })
+      .where(expectedVersion === undefined
+        ? eq(responseSections.id, id)
+        : and(eq(responseSections.id, id), eq(responseSections.version, expectedVersion)))
+      .returning();
     return section;
   }
 
+  async updateResponseSections(updates: SectionUpdate[]): Promise<{ sections: ResponseSection[]; conflicts: number[] }> {
+    if (updates.length === 0) return { sections: [], conflicts: [] };
+    return db.transaction(async (tx) => {
+      // Locking the rows first keeps other writers out between the version check and the writes
+      const current = await tx.select().from(responseSections)
+        .where(inArray(responseSections.id, updates.map(u => u.id)))
+        .for("update");
+      const conflicts = updates.filter(update => {
+        const section = current.find(s => s.id === update.id);
+        return !section || (update.expectedVersion !== undefined && section.version !== update.expectedVersion);
+      }).map(update => update.id);
+      if (conflicts.length > 0) return { sections: [], conflicts };
+
+      const sections: ResponseSection[] = [];
+      for (const update of updates) {
+        const [section] = await tx.update(responseSections)
+          .set({ ...update.changes, version: sql`${responseSections.version} + 1`, updatedAt: new Date() })
+          .where(eq(responseSections.id, update.id))
+          .returning();
+        sections.push(section);
+      }
+      return { sections, conflicts: [] };
+    });
+  }
+
   async deleteResponseSection(id: number): Promise<void> {
     await db.delete(responseSections).where(eq(responseSections.id, id));
   }
 
+  // Section revisions
+  async getSectionRevisions(sectionId: number): Promise<SectionRevisionSummary[]> {
+    return db.select({
+      id: sectionRevisions.id,
+      sectionId: sectionRevisions.sectionId,
+      authorId: sectionRevisions.authorId,
+      restoredFromId: sectionRevisions.restoredFromId,
+      createdAt: sectionRevisions.createdAt,
+      updatedAt: sectionRevisions.updatedAt,
+    }).from(sectionRevisions)
+      .where(eq(sectionRevisions.sectionId, sectionId))
+      .orderBy(desc(sectionRevisions.id));
+  }
+
+  async getSectionRevision(id: number): Promise<SectionRevision | undefined> {
+    const [revision] = await db.select().from(sectionRevisions).where(eq(sectionRevisions.id, id));
+    return revision;
+  }
+
+  async getLatestSectionRevision(sectionId: number): Promise<SectionRevision | undefined> {
+    const [revision] = await db.select().from(sectionRevisions)
+      .where(eq(sectionRevisions.sectionId, sectionId))
+      .orderBy(desc(sectionRevisions.id))
+      .limit(1);
+    return revision;
+  }
+
+  async createSectionRevision(insertRevision: InsertSectionRevision): Promise<SectionRevision> {
+    const [revision] = await db.insert(sectionRevisions).values(insertRevision).returning();
+    return revision;
+  }
+
+  async updateSectionRevision(id: number, updateData: Partial<InsertSectionRevision>): Promise<SectionRevision | undefined> {
+    const [revision] = await db.update(sectionRevisions).set(updateData).where(eq(sectionRevisions.id, id)).returning();
+    return revision;
+  }
+
   // Budget Items
   async getBudgetItemsByRfp(rfpId: number): Promise<BudgetItem[]> {
     return db.select().from(budgetItems).where(eq(budgetItems.rfpId, rfpId));
@@ -314,6 +986,45 @@ export class DatabaseStorage implements IStorage {
     return review;
   }
 
+  // Analysis Jobs
+  async getAnalysisJob(id: number): Promise<AnalysisJob | undefined> {
+    const [job] = await db.select().from(analysisJobs).where(eq(analysisJobs.id, id));
+    return job;
+  }
+
+  async getLatestAnalysisJob(rfpId: number): Promise<AnalysisJob | undefined> {
+    const [job] = await db.select().from(analysisJobs)
+      .where(eq(analysisJobs.rfpId, rfpId))
+      .orderBy(desc(analysisJobs.createdAt), desc(analysisJobs.id))
+      .limit(1);
+    return job;
+  }
+
+  async getUnfinishedAnalysisJobs(): Promise<AnalysisJob[]> {
+    return db.select().from(analysisJobs)
+      .where(inArray(analysisJobs.status, ["queued", "running"]))
+      .orderBy(analysisJobs.createdAt);
+  }
+
+  // The RFP row is locked so concurrent requests can't each find no active job and queue one
+  async queueAnalysisJob(insertJob: InsertAnalysisJob): Promise<{ job: AnalysisJob; created: boolean }> {
+    return db.transaction(async (tx) => {
+      await tx.select({ id: rfps.id }).from(rfps).where(eq(rfps.id, insertJob.rfpId)).for("update");
+      const [active] = await tx.select().from(analysisJobs)
+        .where(and(eq(analysisJobs.rfpId, insertJob.rfpId), inArray(analysisJobs.status, ["queued", "running"])))
+        .orderBy(desc(analysisJobs.createdAt), desc(analysisJobs.id))
+        .limit(1);
+      if (active) return { job: active, created: false };
+      const [job] = await tx.insert(analysisJobs).values(insertJob).returning();
+      return { job, created: true };
+    });
+  }
+
+  async updateAnalysisJob(id: number, updateData: Partial<InsertAnalysisJob>): Promise<AnalysisJob | undefined> {
+    const [job] = await db.update(analysisJobs).set(updateData).where(eq(analysisJobs.id, id)).returning();
+    return job;
+  }
+
   // Tasks - response sections with RFP and user info
   async getAllTasks(): Promise<any[]> {
     const allSections = await db.select().from(responseSections);
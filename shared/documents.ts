@@ -0,0 +1,17 @@
+// Extracted document text keeps page boundaries as form feeds, the same
+// convention pdftotext uses, so character offsets stay stable across pages.
+export const PAGE_BREAK = "\f";
+
+export const SUPPORTED_DOCUMENT_EXTENSIONS = [".pdf", ".docx", ".txt"];
+
+// Attachments can also be spreadsheets, since pricing templates usually are
+export const SUPPORTED_ATTACHMENT_EXTENSIONS = [...SUPPORTED_DOCUMENT_EXTENSIONS, ".xlsx", ".xls", ".csv"];
+
+// 1-based page number containing a character offset
+export function pageAtOffset(text: string, offset: number): number {
+  let page = 1;
+  for (let i = 0; i < Math.min(offset, text.length); i++) {
+    if (text[i] === PAGE_BREAK) page++;
+  }
+  return page;
+}
@@ -0,0 +1,70 @@
+// Solicitation paragraph numbers such as "L.4.2", "C.3.1.2(a)" or "3.2.1". Segments compare
+// numerically where both are numbers, so L.4.10 sorts after L.4.9.
+
+export function referenceSegments(reference: string): string[] {
+  return reference
+    .toUpperCase()
+    .replace(/\s+/g, "")
+    .replace(/\(([^)]*)\)/g, ".$1")
+    .split(".")
+    .filter(Boolean);
+}
+
+export function compareReferences(a: string, b: string): number {
+  const left = referenceSegments(a);
+  const right = referenceSegments(b);
+  for (let i = 0; i < Math.min(left.length, right.length); i++) {
+    const x = left[i];
+    const y = right[i];
+    if (x === y) continue;
+    if (/^\d+$/.test(x) && /^\d+$/.test(y)) return Number(x) - Number(y);
+    return x.localeCompare(y);
+  }
+  return left.length - right.length;
+}
+
+// True when `ancestor` is a strict prefix of `descendant`: L.4 of L.4.2, L.4.2 of L.4.2(a)
+export function isAncestorReference(ancestor: string, descendant: string): boolean {
+  const outer = referenceSegments(ancestor);
+  const inner = referenceSegments(descendant);
+  return outer.length < inner.length && outer.every((segment, i) => segment === inner[i]);
+}
+
+interface OutlineItem {
+  id: number;
+  parentId: number | null;
+  referenceNumber: string | null;
+  highlightStart: number | null;
+}
+
+export interface OutlineNode<T> {
+  item: T;
+  depth: number;
+  children: OutlineNode<T>[];
+}
+
+// Siblings go in paragraph-number order, then document order; unnumbered items come last
+function compareItems(a: OutlineItem, b: OutlineItem): number {
+  if (a.referenceNumber && b.referenceNumber) {
+    const byReference = compareReferences(a.referenceNumber, b.referenceNumber);
+    if (byReference !== 0) return byReference;
+  } else if (a.referenceNumber || b.referenceNumber) {
+    return a.referenceNumber ? -1 : 1;
+  }
+  return (a.highlightStart ?? Number.MAX_SAFE_INTEGER) - (b.highlightStart ?? Number.MAX_SAFE_INTEGER) || a.id - b.id;
+}
+
+// Items whose parent isn't in the list (filtered out, retired, deleted) become roots
+export function buildOutline<T extends OutlineItem>(items: T[]): OutlineNode<T>[] {
+  const ids = new Set(items.map(item => item.id));
+  const build = (parentId: number | null, depth: number): OutlineNode<T>[] =>
+    items
+      .filter(item => (parentId === null ? item.parentId === null || !ids.has(item.parentId) : item.parentId === parentId))
+      .sort(compareItems)
+      .map(item => ({ item, depth, children: build(item.id, depth + 1) }));
+  return build(null, 0);
+}
+
+export function flattenOutline<T>(nodes: OutlineNode<T>[], isCollapsed: (item: T) => boolean = () => false): OutlineNode<T>[] {
+  return nodes.flatMap(node => [node, ...(isCollapsed(node.item) ? [] : flattenOutline(node.children, isCollapsed))]);
+}
@@ -0,0 +1,61 @@
+import type { PublicUser, ResponseSection, Review, RfpQuestion, userRoles } from "./schema";
+
+// Role rules shared by the API (enforcement) and the client (disabling controls)
+
+export type Role = (typeof userRoles)[number];
+
+type Actor = Pick<PublicUser, "id" | "role">;
+
+// Which roles may approve or reject each review type
+export const reviewerRoles: Record<string, Role[]> = {
+  copy_editing: ["copy_editor"],
+  budget: ["managing_director"],
+  final: ["managing_director"],
+};
+
+export function isPM(user: Actor | null | undefined): boolean {
+  return user?.role === "pm";
+}
+
+export function canManageUsers(user: Actor | null | undefined): boolean {
+  return isPM(user);
+}
+
+export function canManageRfps(user: Actor | null | undefined): boolean {
+  return isPM(user);
+}
+
+export function canManageSections(user: Actor | null | undefined): boolean {
+  return isPM(user);
+}
+
+export function canEditBudget(user: Actor | null | undefined): boolean {
+  return isPM(user);
+}
+
+export function canEditSection(
+  user: Actor | null | undefined,
+  section: Pick<ResponseSection, "assignedUserId" | "isLocked">,
+): boolean {
+  if (!user) return false;
+  if (user.role === "pm") return true;
+  if (section.isLocked) return false;
+  if (user.role === "copy_editor") return true;
+  return user.role === "consultant" && section.assignedUserId === user.id;
+}
+
+// Whoever asked a question can reword or withdraw it until it goes to the agency
+export function canEditQuestion(
+  user: Actor | null | undefined,
+  question: Pick<RfpQuestion, "createdById" | "status">,
+): boolean {
+  if (!user) return false;
+  if (user.role === "pm") return true;
+  return question.status === "pending" && question.createdById === user.id;
+}
+
+export function canActOnReview(user: Actor | null | undefined, review: Pick<Review, "type">): boolean {
+  if (!user) return false;
+  const roles = reviewerRoles[review.type] || [];
+  return roles.includes(user.role as Role);
+}
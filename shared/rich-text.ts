@@ -0,0 +1,37 @@
+import StarterKit from "@tiptap/starter-kit";
+import Highlight from "@tiptap/extension-highlight";
+import TextAlign from "@tiptap/extension-text-align";
+import Underline from "@tiptap/extension-underline";
+import { TextStyle } from "@tiptap/extension-text-style";
+import Color from "@tiptap/extension-color";
+import type { Extensions } from "@tiptap/core";
+
+// The response editor's document schema. The server builds the same one to turn a section's
+// HTML into a collaborative document and back, so the two must not drift apart.
+export function richTextExtensions({ undoRedo = true }: { undoRedo?: boolean } = {}): Extensions {
+  return [
+    StarterKit.configure({
+      heading: {
+        levels: [1, 2, 3],
+      },
+      // Added below on its own; StarterKit would register a second copy
+      underline: false,
+      // Collaborative editing brings its own undo history that only reverts local changes
+      undoRedo: undoRedo ? undefined : false,
+    }),
+    Highlight.configure({
+      multicolor: true,
+    }),
+    TextAlign.configure({
+      types: ["heading", "paragraph"],
+    }),
+    Underline,
+    TextStyle,
+    Color,
+  ];
+}
+
+// Collaborative documents keep the section's rich text in this Y.XmlFragment, and the server
+// publishes the section's saved `version` and `title` in this Y.Map
+export const COLLABORATION_FIELD = "default";
+export const COLLABORATION_META = "section";
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, serial, integer, boolean, timestamp, decimal, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, serial, integer, boolean, timestamp, decimal, jsonb, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -13,6 +13,7 @@ export const users = pgTable("users", {
   role: text("role").notNull().default("consultant"), // pm, consultant, copy_editor, managing_director
   hourlyRate: decimal("hourly_rate", { precision: 10, scale: 2 }),
   title: text("title"), // Principal, Research Associate, Consultant
+  isActive: boolean("is_active").notNull().default(true),
 });
 
 // RFP Documents
@@ -23,6 +24,10 @@ export const rfps = pgTable("rfps", {
   agency: text("agency"),
   documentUrl: text("document_url"),
   documentContent: text("document_content"),
+  documentName: text("document_name"), // original upload filename
+  documentPath: text("document_path"), // where the original upload is stored on the server
+  documentMimeType: text("document_mime_type"),
+  intakeEmailFrom: text("intake_email_from"), // sender address when the RFP arrived by email
   status: text("status").notNull().default("draft"), // draft, analyzing, in_progress, review, submitted
   dueDate: timestamp("due_date"),
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
@@ -33,16 +38,64 @@ export const rfps = pgTable("rfps", {
   assignedPmId: varchar("assigned_pm_id").references(() => users.id),
 });
 
+// Every document uploaded for an RFP, so an amendment doesn't overwrite the text earlier work
+// was based on. The rfps row carries a copy of the latest version.
+export const rfpDocumentVersions = pgTable("rfp_document_versions", {
+  id: serial("id").primaryKey(),
+  rfpId: integer("rfp_id").notNull().references(() => rfps.id, { onDelete: "cascade" }),
+  version: integer("version").notNull(), // 1 for the original solicitation, then one per amendment
+  label: text("label"), // e.g. Amendment 0002
+  documentContent: text("document_content").notNull(),
+  documentName: text("document_name"),
+  documentPath: text("document_path"),
+  documentMimeType: text("document_mime_type"),
+  uploadedById: varchar("uploaded_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+export const attachmentRoles = ["main", "sow", "pricing", "wage_determination", "forms", "other"] as const;
+export type AttachmentRole = (typeof attachmentRoles)[number];
+
+// Files that come with the solicitation besides its main document: statement of work, pricing
+// template, wage determinations, forms. Text is extracted so they can be analyzed and viewed.
+export const rfpAttachments = pgTable("rfp_attachments", {
+  id: serial("id").primaryKey(),
+  rfpId: integer("rfp_id").notNull().references(() => rfps.id, { onDelete: "cascade" }),
+  role: text("role").notNull().default("other"), // main, sow, pricing, wage_determination, forms, other
+  documentName: text("document_name").notNull(), // original upload filename
+  documentPath: text("document_path"),
+  documentMimeType: text("document_mime_type"),
+  format: text("format").notNull(), // pdf, docx, txt, spreadsheet
+  documentContent: text("document_content").notNull().default(""),
+  pageCount: integer("page_count"),
+  uploadedById: varchar("uploaded_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
 // Requirements extracted from RFPs
 export const requirements = pgTable("requirements", {
   id: serial("id").primaryKey(),
   rfpId: integer("rfp_id").notNull().references(() => rfps.id, { onDelete: "cascade" }),
   text: text("text").notNull(),
   section: text("section"),
+  referenceNumber: text("reference_number"), // solicitation paragraph, e.g. L.4.2(a)
+  parentId: integer("parent_id").references((): AnyPgColumn => requirements.id, { onDelete: "set null" }),
+  // the attachment the text (and highlight offsets) come from; null for the RFP's main document
+  attachmentId: integer("attachment_id").references(() => rfpAttachments.id, { onDelete: "cascade" }),
   priority: text("priority").default("medium"), // high, medium, low
   highlightStart: integer("highlight_start"),
   highlightEnd: integer("highlight_end"),
+  matchQuality: text("match_quality"), // exact, normalized, fuzzy, not_found (text missing from the document)
+  source: text("source").notNull().default("ai"), // ai, rules, manual (added or edited by hand)
+  // hybrid analysis only: whether the model and the rules both found it; null for other modes
+  crossCheck: text("cross_check"), // both, llm_only, rules_only
   status: text("status").default("pending"), // pending, addressed, skipped
+  // set when an agency answer may change the requirement; cleared once someone has reviewed it
+  flaggedByQuestionId: integer("flagged_by_question_id").references((): AnyPgColumn => rfpQuestions.id, { onDelete: "set null" }),
+  // set when a new document version reworded or dropped the requirement's source text; cleared once reviewed
+  documentChange: text("document_change"), // changed, removed
+  documentChangeVersion: integer("document_change_version"), // the document version that made the change
+  retiredAt: timestamp("retired_at"), // set when a re-analysis no longer finds the requirement
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
 });
 
@@ -72,9 +125,27 @@ export const responseSections = pgTable("response_sections", {
   title: text("title").notNull(),
   content: text("content").notNull().default(""),
   orderIndex: integer("order_index").notNull().default(0),
+  pageLimit: integer("page_limit"), // from the submission instructions, when they set one
   assignedUserId: varchar("assigned_user_id").references(() => users.id),
   isLocked: boolean("is_locked").default(false),
   lockedByPmId: varchar("locked_by_pm_id").references(() => users.id),
+  // Base64 Yjs state of the live-edited document behind `content`; null once content is written any other way
+  collabState: text("collab_state"),
+  // Bumped by every write; saves carry the version they started from so stale ones can be refused
+  version: integer("version").notNull().default(1),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+// Saved states of a section's content. Saves by the same person in quick succession (live editing
+// saves every few seconds) fold into their latest revision; the content a section had before its
+// first change is kept as a baseline.
+export const sectionRevisions = pgTable("section_revisions", {
+  id: serial("id").primaryKey(),
+  sectionId: integer("section_id").notNull().references(() => responseSections.id, { onDelete: "cascade" }),
+  content: text("content").notNull(),
+  authorId: varchar("author_id").references(() => users.id), // null for the baseline
+  restoredFromId: integer("restored_from_id"), // set when the revision restored an earlier one
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
   updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
 });
@@ -114,22 +185,260 @@ export const reviews = pgTable("reviews", {
   reviewedAt: timestamp("reviewed_at"),
 });
 
+export const deadlineTypes = [
+  "questions_due",
+  "pre_proposal_conference",
+  "site_visit",
+  "intent_to_bid",
+  "proposal_due",
+  "oral_presentation",
+  "other",
+] as const;
+export type DeadlineType = (typeof deadlineTypes)[number];
+
+// Key dates in the solicitation beyond the proposal due date
+export const rfpDeadlines = pgTable("rfp_deadlines", {
+  id: serial("id").primaryKey(),
+  rfpId: integer("rfp_id").notNull().references(() => rfps.id, { onDelete: "cascade" }),
+  type: text("type").notNull().default("other"), // questions_due, pre_proposal_conference, site_visit, intent_to_bid, proposal_due, oral_presentation, other
+  label: text("label"), // overrides the type's display name, e.g. "Written questions to the CO"
+  dueAt: timestamp("due_at").notNull(),
+  notes: text("notes"),
+  source: text("source").notNull().default("manual"), // extracted (replaced on re-analysis), manual
+  sourceText: text("source_text"), // the document line the date was read from
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+export const questionStatuses = ["pending", "submitted", "answered"] as const;
+export type QuestionStatus = (typeof questionStatuses)[number];
+
+// Clarification questions to the contracting officer and the agency's answers
+export const rfpQuestions = pgTable("rfp_questions", {
+  id: serial("id").primaryKey(),
+  rfpId: integer("rfp_id").notNull().references(() => rfps.id, { onDelete: "cascade" }),
+  number: integer("number").notNull(), // 1, 2, 3... per RFP; the "#" the agency sees in the export
+  requirementId: integer("requirement_id").references(() => requirements.id, { onDelete: "set null" }),
+  rfpReference: text("rfp_reference"), // paragraph or page the question is about, e.g. L.4.2
+  question: text("question").notNull(),
+  status: text("status").notNull().default("pending"), // pending (not yet sent), submitted, answered
+  submittedAt: timestamp("submitted_at"),
+  answer: text("answer"),
+  answeredAt: timestamp("answered_at"),
+  requirementAction: text("requirement_action"), // what the answer did to the requirement: flagged, amended
+  source: text("source").notNull().default("team"), // team, agency (asked by another offeror, from published Q&A)
+  createdById: varchar("created_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+export const criterionWeightUnits = ["points", "percent"] as const;
+
+// Section M style scoring factors; subfactors point at their factor through parentId
+export const evaluationCriteria = pgTable("evaluation_criteria", {
+  id: serial("id").primaryKey(),
+  rfpId: integer("rfp_id").notNull().references(() => rfps.id, { onDelete: "cascade" }),
+  parentId: integer("parent_id").references((): AnyPgColumn => evaluationCriteria.id, { onDelete: "cascade" }),
+  title: text("title").notNull(),
+  description: text("description"),
+  weight: decimal("weight", { precision: 10, scale: 2 }),
+  weightUnit: text("weight_unit"), // points, percent
+  importance: text("importance"), // relative importance as the RFP states it, e.g. "Ranked 1 of 3"
+  orderIndex: integer("order_index").notNull().default(0),
+  source: text("source").notNull().default("manual"), // extracted (refreshed on re-analysis), manual
+  sourceText: text("source_text"), // the document line the criterion was read from
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+// Which response sections answer which evaluation criteria
+export const sectionCriteria = pgTable("section_criteria", {
+  id: serial("id").primaryKey(),
+  sectionId: integer("section_id").notNull().references(() => responseSections.id, { onDelete: "cascade" }),
+  criterionId: integer("criterion_id").notNull().references(() => evaluationCriteria.id, { onDelete: "cascade" }),
+});
+
+// Compliance matrix: which response sections answer which requirements
+export const requirementSections = pgTable("requirement_sections", {
+  id: serial("id").primaryKey(),
+  requirementId: integer("requirement_id").notNull().references(() => requirements.id, { onDelete: "cascade" }),
+  sectionId: integer("section_id").notNull().references(() => responseSections.id, { onDelete: "cascade" }),
+});
+
+export const analysisModes = ["llm", "rules", "hybrid"] as const;
+export type AnalysisMode = (typeof analysisModes)[number];
+
+export const crossCheckResults = ["both", "llm_only", "rules_only"] as const;
+export type CrossCheckResult = (typeof crossCheckResults)[number];
+
+export const coverageModes = ["llm", "keywords"] as const;
+export type CoverageMode = (typeof coverageModes)[number];
+
+// A proposed status for one pending requirement. Nothing is saved until a PM applies it.
+export interface CoverageFinding {
+  requirementId: number;
+  status: "addressed" | "pending";
+  sectionId: number | null;
+  quote: string | null;
+  gap: string | null;
+  confidence: number; // 0-1
+}
+
+export interface CoverageCheckResult {
+  mode: CoverageMode;
+  notice: string | null;
+  findings: CoverageFinding[];
+}
+
+// The addressed findings a PM accepts, each linking a requirement to the section answering it
+export const applyCoverageSchema = z.object({
+  findings: z.array(z.object({
+    requirementId: z.number().int(),
+    sectionId: z.number().int(),
+  })),
+});
+
+// A response section the outline builder proposes from the submission instructions. Nothing is
+// saved until a PM applies the outline, usually after editing it.
+export interface ProposedResponseSection {
+  title: string;
+  referenceNumber: string | null;
+  depth: number;
+  pageLimit: number | null;
+  requirementIds: number[];
+  templateId: number | null; // best-matching template, used only if the PM seeds from templates
+  existingSectionId: number | null; // a section with the same title already exists; it only gains links
+  suggested: boolean; // false when the paragraph only covers logistics such as due dates or fonts
+}
+
+export const applyResponseOutlineSchema = z.object({
+  sections: z.array(z.object({
+    title: z.string().trim().min(1).max(200),
+    pageLimit: z.number().int().min(1).nullable().optional(),
+    requirementIds: z.array(z.number().int()).default([]),
+    templateId: z.number().int().nullable().optional(),
+    existingSectionId: z.number().int().nullable().optional(),
+  })).min(1),
+});
+
+// What a re-analysis did to the RFP's existing requirements
+export interface RequirementSyncSummary {
+  added: string[];
+  changed: { before: string; after: string }[];
+  removed: string[];
+  unchanged: number;
+}
+
+// Background requirement-extraction runs; unfinished jobs are resumed when the server starts
+export const analysisJobs = pgTable("analysis_jobs", {
+  id: serial("id").primaryKey(),
+  rfpId: integer("rfp_id").notNull().references(() => rfps.id, { onDelete: "cascade" }),
+  status: text("status").notNull().default("queued"), // queued, running, completed, failed
+  mode: text("mode").notNull().default("llm"), // llm, rules, hybrid (both, each requirement marked with which found it)
+  notice: text("notice"), // non-fatal problems, e.g. falling back to rules when the LLM is unavailable
+  progress: integer("progress").notNull().default(0), // percent
+  completedChunks: integer("completed_chunks").notNull().default(0),
+  totalChunks: integer("total_chunks"),
+  requirementCount: integer("requirement_count"),
+  summary: jsonb("summary").$type<RequirementSyncSummary>(),
+  error: text("error"),
+  requestedById: varchar("requested_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+});
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
 });
 
+export const userRoles = ["pm", "consultant", "copy_editor", "managing_director"] as const;
+
+// Admin-facing user payloads: plain-text password in, hashed before storage
+export const createUserSchema = insertUserSchema.extend({
+  username: z.string().min(3),
+  password: z.string().min(8),
+  email: z.string().email(),
+  fullName: z.string().min(1),
+  role: z.enum(userRoles),
+  hourlyRate: z.union([z.string(), z.number()]).transform(String).nullable().optional(),
+});
+
+// Deactivation reassigns work first, so it has its own endpoint, and so does reactivation
+export const updateUserSchema = createUserSchema.omit({ username: true, isActive: true }).partial();
+
 export const insertRfpSchema = createInsertSchema(rfps).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+// Client-facing RFP payloads. The stored document is only written by uploads, which keep versions
+// and re-anchor requirements, and by email intake; text pasted when creating the RFP is its first version.
+export const createRfpSchema = insertRfpSchema.omit({
+  documentUrl: true,
+  documentName: true,
+  documentPath: true,
+  documentMimeType: true,
+  intakeEmailFrom: true,
+}).extend({
+  dueDate: z.coerce.date().nullable().optional(),
+});
+
+export const updateRfpSchema = createRfpSchema.omit({ documentContent: true }).partial();
+
 export const insertRequirementSchema = createInsertSchema(requirements).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertRfpDocumentVersionSchema = createInsertSchema(rfpDocumentVersions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertRfpAttachmentSchema = createInsertSchema(rfpAttachments, {
+  role: z.enum(attachmentRoles),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const updateRfpAttachmentSchema = z.object({
+  role: z.enum(attachmentRoles),
+});
+
+export const documentChanges = ["changed", "removed"] as const;
+export type DocumentChange = (typeof documentChanges)[number];
+
+// What uploading a new document version did to the RFP's requirements
+export interface DocumentChangeSummary {
+  version: number;
+  unchanged: number;
+  changed: number;
+  removed: number;
+}
+
+export const requirementPriorities = ["high", "medium", "low"] as const;
+export const requirementStatuses = ["pending", "addressed", "skipped"] as const;
+
+// Requirements added or edited by hand; offsets come from a text selection in the document viewer
+export const manualRequirementSchema = z.object({
+  text: z.string().trim().min(1, "Requirement text is required"),
+  section: z.string().trim().nullable().optional(),
+  referenceNumber: z.string().trim().max(50).nullable().optional(),
+  priority: z.enum(requirementPriorities).optional(),
+  highlightStart: z.number().int().min(0).nullable().optional(),
+  highlightEnd: z.number().int().min(0).nullable().optional(),
+  attachmentId: z.number().int().nullable().optional(), // which file the selection was made in
+});
+
+// A requirement stays with the file it was found in
+export const updateRequirementSchema = manualRequirementSchema.omit({ attachmentId: true }).partial().extend({
+  status: z.enum(requirementStatuses).optional(),
+  flaggedByQuestionId: z.null().optional(), // clears a Q&A flag
+  documentChange: z.null().optional(), // clears an amendment flag
+});
+
 export const insertTemplateSchema = createInsertSchema(templates).omit({
   id: true,
   createdAt: true,
@@ -143,10 +452,39 @@ export const insertResponseSchema = createInsertSchema(responses).omit({
 
 export const insertResponseSectionSchema = createInsertSchema(responseSections).omit({
   id: true,
+  version: true,
   createdAt: true,
   updatedAt: true,
 });
 
+// A section as the response editor saves it. Content is left out when it goes through live editing,
+// and version is the one the section was loaded at.
+export const saveResponseSectionSchema = z.object({
+  id: z.number().int(),
+  title: z.string(),
+  orderIndex: z.number().int(),
+  content: z.string().optional(),
+  version: z.number().int().optional(),
+});
+
+export const saveResponseSchema = z.object({
+  sections: z.array(saveResponseSectionSchema).optional(),
+});
+
+// A single section update: editors change its title or content, proposal managers lock or assign it.
+// Which response it belongs to, its place and its page limit aren't changed this way.
+export const updateResponseSectionSchema = z.object({
+  title: z.string().optional(),
+  content: z.string().optional(),
+  version: z.number().int().optional(),
+  isLocked: z.boolean().optional(),
+  assignedUserId: z.string().nullable().optional(),
+}).strict();
+
+export const insertSectionRevisionSchema = createInsertSchema(sectionRevisions).omit({
+  id: true,
+});
+
 export const insertBudgetItemSchema = createInsertSchema(budgetItems).omit({
   id: true,
   createdAt: true,
@@ -164,13 +502,104 @@ export const insertReviewSchema = createInsertSchema(reviews).omit({
   reviewedAt: true,
 });
 
+export const reviewStatuses = ["pending", "approved", "rejected"] as const;
+
+// A reviewer only records a decision; the review's type and RFP are fixed when it is requested,
+// so a payload that tries to change them is rejected rather than stripped
+export const updateReviewSchema = z.object({
+  status: z.enum(reviewStatuses),
+  comments: z.string().nullable().optional(),
+}).strict();
+
+export const insertRfpDeadlineSchema = createInsertSchema(rfpDeadlines, {
+  type: z.enum(deadlineTypes),
+  dueAt: z.coerce.date(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertRfpQuestionSchema = createInsertSchema(rfpQuestions, {
+  question: z.string().trim().min(1),
+  status: z.enum(questionStatuses),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// What team members can set on a question; status, answers and numbering go through the
+// submit and answer-import endpoints
+export const questionInputSchema = z.object({
+  question: z.string().trim().min(1, "Question is required"),
+  requirementId: z.number().int().nullable().optional(),
+  rfpReference: z.string().trim().max(50).nullable().optional(),
+});
+
+export const questionExportColumns = ["number", "reference", "page", "requirement", "question"] as const;
+export type QuestionExportColumn = (typeof questionExportColumns)[number];
+export const questionExportFormats = ["xlsx", "csv", "txt"] as const;
+export type QuestionExportFormat = (typeof questionExportFormats)[number];
+
+export const requirementActions = ["none", "flag", "amend"] as const;
+export type RequirementAction = (typeof requirementActions)[number];
+
+// One answer read from the agency's published Q&A, matched to a logged question where possible.
+// Nothing is saved until a PM applies the import.
+export interface ImportedAnswer {
+  questionId: number | null;
+  number: number | null; // as numbered in the agency's document
+  question: string | null;
+  answer: string;
+  requirementId: number | null; // the matched question's requirement
+  confidence: number; // 0-1, how sure the question match is
+}
+
+export const applyAnswersSchema = z.object({
+  answers: z.array(z.object({
+    questionId: z.number().int().nullable(),
+    question: z.string().trim().nullable().optional(),
+    answer: z.string().trim().min(1),
+    requirementId: z.number().int().nullable().optional(),
+    action: z.enum(requirementActions).default("none"),
+    amendedText: z.string().trim().min(1).nullable().optional(),
+  })).min(1),
+});
+
+export const insertEvaluationCriterionSchema = createInsertSchema(evaluationCriteria, {
+  title: z.string().min(1),
+  weight: z.union([z.string(), z.number()]).transform(String).nullable().optional(),
+  weightUnit: z.enum(criterionWeightUnits).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAnalysisJobSchema = createInsertSchema(analysisJobs).omit({
+  id: true,
+  createdAt: true,
+});
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type PublicUser = Omit<User, "password">;
+export type CreateUser = z.infer<typeof createUserSchema>;
+export type UpdateUser = z.infer<typeof updateUserSchema>;
 
 export type Rfp = typeof rfps.$inferSelect;
 export type InsertRfp = z.infer<typeof insertRfpSchema>;
 
+export type RfpDocumentVersion = typeof rfpDocumentVersions.$inferSelect;
+export type InsertRfpDocumentVersion = z.infer<typeof insertRfpDocumentVersionSchema>;
+// Version listings leave out the document text
+export type RfpDocumentVersionSummary = Omit<RfpDocumentVersion, "documentContent">;
+
+export type RfpAttachment = typeof rfpAttachments.$inferSelect;
+export type InsertRfpAttachment = z.infer<typeof insertRfpAttachmentSchema>;
+// Attachment listings leave out the extracted text
+export type RfpAttachmentSummary = Omit<RfpAttachment, "documentContent">;
+
 export type Requirement = typeof requirements.$inferSelect;
 export type InsertRequirement = z.infer<typeof insertRequirementSchema>;
 
@@ -183,6 +612,12 @@ export type InsertResponse = z.infer<typeof insertResponseSchema>;
 export type ResponseSection = typeof responseSections.$inferSelect;
 export type InsertResponseSection = z.infer<typeof insertResponseSectionSchema>;
 
+export type SaveResponseSection = z.infer<typeof saveResponseSectionSchema>;
+
+export type SectionRevision = typeof sectionRevisions.$inferSelect;
+export type InsertSectionRevision = z.infer<typeof insertSectionRevisionSchema>;
+export type SectionRevisionSummary = Omit<SectionRevision, "content">;
+
 export type BudgetItem = typeof budgetItems.$inferSelect;
 export type InsertBudgetItem = z.infer<typeof insertBudgetItemSchema>;
 
@@ -191,3 +626,24 @@ export type InsertInsight = z.infer<typeof insertInsightSchema>;
 
 export type Review = typeof reviews.$inferSelect;
 export type InsertReview = z.infer<typeof insertReviewSchema>;
+
+export type RfpQuestion = typeof rfpQuestions.$inferSelect;
+export type InsertRfpQuestion = z.infer<typeof insertRfpQuestionSchema>;
+
+export type RfpDeadline = typeof rfpDeadlines.$inferSelect;
+export type InsertRfpDeadline = z.infer<typeof insertRfpDeadlineSchema>;
+
+// The soonest upcoming key date, falling back to the RFP's due date
+export type NextDeadline = Pick<RfpDeadline, "type" | "label" | "dueAt">;
+export type RfpWithNextDeadline = Rfp & { nextDeadline: NextDeadline | null };
+
+export type EvaluationCriterion = typeof evaluationCriteria.$inferSelect;
+export type InsertEvaluationCriterion = z.infer<typeof insertEvaluationCriterionSchema>;
+export type EvaluationCriterionWithSections = EvaluationCriterion & { sectionIds: number[] };
+export type SectionCriterion = typeof sectionCriteria.$inferSelect;
+
+export type RequirementSection = typeof requirementSections.$inferSelect;
+export type RequirementWithSections = Requirement & { sectionIds: number[] };
+
+export type AnalysisJob = typeof analysisJobs.$inferSelect;
+export type InsertAnalysisJob = z.infer<typeof insertAnalysisJobSchema>;
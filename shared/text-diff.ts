@@ -0,0 +1,153 @@
+// Line diff between two versions of an RFP document, shown when an amendment is uploaded.
+// Myers' algorithm on the lines left after trimming the common start and end, which is most
+// of the document for a typical amendment.
+
+export type DiffLineType = "same" | "added" | "removed";
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  oldLine: number | null; // 1-based line in the older version
+  newLine: number | null; // 1-based line in the newer version
+}
+
+export interface DiffHunk {
+  lines: DiffLine[];
+  // unchanged lines skipped before this hunk
+  skippedBefore: number;
+}
+
+export interface DocumentDiff {
+  hunks: DiffHunk[];
+  added: number;
+  removed: number;
+  // unchanged lines skipped after the last hunk
+  skippedAfter: number;
+}
+
+// Past this many edits the changed middle is shown as removed wholesale and then added;
+// the trace kept for backtracking grows with the square of the edit count
+const MAX_EDITS = 4000;
+const CONTEXT_LINES = 3;
+
+function editScript(a: string[], b: string[]): DiffLineType[] | null {
+  const n = a.length;
+  const m = b.length;
+  const offset = n + m + 1;
+  const v = new Int32Array(2 * offset + 1);
+  // trace[d] holds diagonals -(d+1)..(d+1) as they were before step d
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(n + m, MAX_EDITS); d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(trace, n, m);
+    }
+  }
+  return null;
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number): DiffLineType[] {
+  const edits: DiffLineType[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const at = (k: number) => v[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      edits.push("same");
+      x--;
+      y--;
+    }
+    if (d > 0) edits.push(x === prevX ? "added" : "removed");
+    x = prevX;
+    y = prevY;
+  }
+  return edits.reverse();
+}
+
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = oldText.split("\n");
+  const b = newText.split("\n");
+
+  let head = 0;
+  while (head < a.length && head < b.length && a[head] === b[head]) head++;
+  let tail = 0;
+  while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) tail++;
+
+  const middleA = a.slice(head, a.length - tail);
+  const middleB = b.slice(head, b.length - tail);
+  const edits = editScript(middleA, middleB)
+    ?? [...middleA.map((): DiffLineType => "removed"), ...middleB.map((): DiffLineType => "added")];
+
+  const lines: DiffLine[] = [];
+  for (let i = 0; i < head; i++) {
+    lines.push({ type: "same", text: a[i], oldLine: i + 1, newLine: i + 1 });
+  }
+  let x = head;
+  let y = head;
+  for (const edit of edits) {
+    if (edit === "same") {
+      lines.push({ type: "same", text: a[x], oldLine: x + 1, newLine: y + 1 });
+      x++;
+      y++;
+    } else if (edit === "removed") {
+      lines.push({ type: "removed", text: a[x], oldLine: x + 1, newLine: null });
+      x++;
+    } else {
+      lines.push({ type: "added", text: b[y], oldLine: null, newLine: y + 1 });
+      y++;
+    }
+  }
+  for (let i = 0; i < tail; i++) {
+    lines.push({ type: "same", text: a[x + i], oldLine: x + i + 1, newLine: y + i + 1 });
+  }
+  return lines;
+}
+
+// Keeps a few unchanged lines around each change and collapses the rest
+export function diffDocuments(oldText: string, newText: string, context: number = CONTEXT_LINES): DocumentDiff {
+  const lines = diffLines(oldText, newText);
+  const keep = new Array<boolean>(lines.length).fill(false);
+  lines.forEach((line, i) => {
+    if (line.type === "same") return;
+    for (let j = Math.max(0, i - context); j <= Math.min(lines.length - 1, i + context); j++) keep[j] = true;
+  });
+
+  const hunks: DiffHunk[] = [];
+  let skipped = 0;
+  let current: DiffHunk | null = null;
+  lines.forEach((line, i) => {
+    if (!keep[i]) {
+      skipped++;
+      current = null;
+      return;
+    }
+    if (!current) {
+      current = { lines: [], skippedBefore: skipped };
+      hunks.push(current);
+      skipped = 0;
+    }
+    current.lines.push(line);
+  });
+
+  return {
+    hunks,
+    added: lines.filter(line => line.type === "added").length,
+    removed: lines.filter(line => line.type === "removed").length,
+    skippedAfter: skipped,
+  };
+}